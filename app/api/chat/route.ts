@@ -1,12 +1,126 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  SSE_HEADERS,
+  encodeSSE,
+  parseSSE,
+  toProgressStep,
+  type ChatStreamEvent
+} from '@/lib/chat-stream';
+import { ApiError, fromBackendStatus, toBackendError } from '@/lib/api-errors';
+import { normalizeSources } from '@/lib/citations';
+import { askFiltersSchema, parseAskResponse, type AskFilters, type AskRequest } from '@/lib/backend-api';
+import { errorJson, errorResponse } from '@/lib/api-response';
+import { config } from '@/lib/config';
+import { parse, SchemaError, type Schema } from '@/lib/schema';
+import { DEFAULT_SESSION_SETTINGS, sessionSettingsSchema, type SessionSettings } from '@/lib/session-settings';
+import { validateAttachments } from '@/lib/attachments';
+import { trimToBudget, withSummary, type HistoryMessage } from '@/lib/conversation-history';
+
+// How long to wait for the backend to start answering (Render cold starts take ~30s)
+const BACKEND_CONNECT_TIMEOUT_MS = 60000;
+
+// Map a backend SSE frame onto the events we forward to the browser
+function normalizeBackendEvent(event: string, payload: any): ChatStreamEvent[] {
+  const type = payload?.type || event;
+
+  switch (type) {
+    case 'token':
+    case 'delta':
+      return [{ type: 'token', delta: payload.delta ?? payload.content ?? payload.token ?? '' }];
+    case 'progress':
+    case 'progress_step':
+      return [{ type: 'progress', step: toProgressStep(payload.step ?? payload) }];
+    case 'sources':
+      return [{ type: 'sources', sources: normalizeSources(payload.sources) }];
+    case 'error':
+      return [{
+        type: 'error',
+        error: new ApiError('BACKEND_ERROR', payload.error || payload.message || 'Backend stream error').toPayload()
+      }];
+    case 'done':
+    case 'final':
+    case 'complete': {
+      // Terminal frames may repeat the full answer; only the sources are new here
+      return payload.sources ? [{ type: 'sources', sources: normalizeSources(payload.sources) }] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+// Validate an optional structured field of the request; multipart forms carry it as a JSON string
+function readJsonField<T>(schema: Schema<T>, raw: unknown, field: string): T | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new ApiError('BAD_REQUEST', `${field} must be a JSON object`);
+    }
+  }
+  try {
+    return parse(schema, value, field);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ApiError('BAD_REQUEST', `Invalid ${field}: expected ${error.expected} at ${error.path}`);
+    }
+    throw error;
+  }
+}
+
+// The session's retrieval filters apply to every question; mentions come with the message
+function withSessionFilters(filters: AskFilters | undefined, settings: SessionSettings): AskFilters | undefined {
+  const merged: AskFilters = {
+    entity_ids: filters?.entity_ids ?? [],
+    product_groups: settings.product_groups.length > 0 ? settings.product_groups : filters?.product_groups,
+    date_from: settings.date_from ?? filters?.date_from,
+    date_to: settings.date_to ?? filters?.date_to,
+  };
+  const isEmpty = merged.entity_ids.length === 0 && !merged.product_groups?.length && !merged.date_from && !merged.date_to;
+  return isEmpty ? undefined : merged;
+}
+
+// Turn a backend /v1/ask response into a stream of chat events.
+// Streaming backends are proxied frame by frame; a plain JSON answer is replayed.
+async function* streamBackendResponse(response: Response): AsyncGenerator<ChatStreamEvent> {
+  const backendType = response.headers.get('content-type') || '';
+
+  if (backendType.includes('text/event-stream') && response.body) {
+    for await (const { event, data } of parseSSE(response.body)) {
+      let payload: any;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        payload = { delta: data };
+      }
+      yield* normalizeBackendEvent(event, payload);
+    }
+    return;
+  }
+
+  const data = parseAskResponse(await response.json());
+  for (const step of data.progress_steps) {
+    yield { type: 'progress', step: toProgressStep(step) };
+  }
+  if (data.answer) {
+    yield { type: 'token', delta: data.answer };
+  }
+  yield { type: 'sources', sources: normalizeSources(data.sources) };
+}
 
 export async function POST(request: NextRequest) {
   try {
     const contentType = request.headers.get('content-type') || '';
+    const wantsStream = (request.headers.get('accept') || '').includes('text/event-stream');
     
     let message: string = '';
     let conversationHistory: any[] = [];
     let files: File[] = [];
+    let rawFilters: unknown = undefined;
+    let rawSettings: unknown = undefined;
+    let rawSessionId: unknown = undefined;
+    let conversationSummary: string | null = null;
     
     // Check if this is multipart/form-data (file upload) or JSON
     if (contentType.includes('multipart/form-data')) {
@@ -20,26 +134,59 @@ export async function POST(request: NextRequest) {
           console.error('Failed to parse conversationHistory:', e);
         }
       }
+      rawFilters = formData.get('filters');
+      rawSettings = formData.get('settings');
+      rawSessionId = formData.get('sessionId');
+      conversationSummary = formData.get('conversationSummary') as string | null;
       
       // Get all files
       const fileEntries = formData.getAll('files');
       files = fileEntries.filter((entry): entry is File => entry instanceof File);
     } else {
       // Regular JSON request
-      const body = await request.json();
+      const body = await request.json().catch(() => null);
+      if (!body) {
+        return errorJson('BAD_REQUEST', 'Request body must be valid JSON');
+      }
       message = body.message;
       conversationHistory = body.conversationHistory || [];
+      rawFilters = body.filters;
+      rawSettings = body.settings;
+      rawSessionId = body.sessionId;
+      conversationSummary = typeof body.conversationSummary === 'string' ? body.conversationSummary : null;
     }
 
+    const settings = readJsonField(sessionSettingsSchema, rawSettings, 'settings') ?? DEFAULT_SESSION_SETTINGS;
+    const filters = withSessionFilters(readJsonField(askFiltersSchema, rawFilters, 'filters'), settings);
+    // Lets the backend keep conversation memory per session
+    const sessionId = typeof rawSessionId === 'string' && rawSessionId ? rawSessionId : null;
+    // Older turns arrive folded into the summary; the budget still caps whatever a client sends
+    const history: HistoryMessage[] = withSummary(
+      trimToBudget(conversationHistory.map((msg: any) => ({ role: msg.role, content: String(msg.content ?? '') }))),
+      conversationSummary
+    );
+
     if (!message && files.length === 0) {
-      return NextResponse.json(
-        { error: 'Message or file is required' },
-        { status: 400 }
-      );
+      return errorJson('BAD_REQUEST', 'Message or file is required');
     }
 
-    // Connect to the new FastAPI backend
-    const backendUrl = process.env.BACKEND_URL || 'http://localhost:8000';
+    // Count, per-file size, total size and type; the composer runs the same checks
+    validateAttachments(files);
+
+    const backendUrl = config.backendUrl;
+    const backendHeaders: Record<string, string> = wantsStream
+      ? { 'Accept': 'text/event-stream, application/json' }
+      : {};
+
+    // Abort the backend call when the browser cancels, or when it does not start answering in time
+    const backendController = new AbortController();
+    const onClientAbort = () => backendController.abort();
+    request.signal.addEventListener('abort', onClientAbort);
+    let timedOut = false;
+    const connectTimer = setTimeout(() => {
+      timedOut = true;
+      backendController.abort();
+    }, BACKEND_CONNECT_TIMEOUT_MS);
     
     try {
       let response;
@@ -47,10 +194,18 @@ export async function POST(request: NextRequest) {
         // Send files using FormData
         const formData = new FormData();
         formData.append('message', message || '');
-        formData.append('conversation_history', JSON.stringify(conversationHistory.map((msg: any) => ({
-          role: msg.role,
-          content: msg.content
-        }))));
+        formData.append('conversation_history', JSON.stringify(history));
+        formData.append('k', String(settings.k));
+        formData.append('answer_style', settings.answer_style);
+        if (sessionId) {
+          formData.append('session_id', sessionId);
+        }
+        if (filters) {
+          formData.append('filters', JSON.stringify(filters));
+        }
+        if (wantsStream) {
+          formData.append('stream', 'true');
+        }
         
         // Append all files
         for (const file of files) {
@@ -59,61 +214,115 @@ export async function POST(request: NextRequest) {
         
         response = await fetch(`${backendUrl}/v1/ask`, {
           method: 'POST',
+          headers: backendHeaders,
           body: formData,
+          signal: backendController.signal,
         });
       } else {
         // Regular JSON request
+        const askRequest: AskRequest = {
+          message: message,
+          k: settings.k,
+          session_id: sessionId,
+          stream: wantsStream,
+          conversation_history: history,
+          filters,
+          answer_style: settings.answer_style
+        };
         response = await fetch(`${backendUrl}/v1/ask`, {
           method: 'POST',
           headers: {
+            ...backendHeaders,
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({
-            message: message,
-            k: 10,
-            session_id: null,
-            conversation_history: conversationHistory.map((msg: any) => ({
-              role: msg.role,
-              content: msg.content
-            }))
-          }),
+          body: JSON.stringify(askRequest),
+          signal: backendController.signal,
         });
       }
 
+      clearTimeout(connectTimer);
+
       if (!response.ok) {
-        throw new Error(`Backend responded with status: ${response.status}`);
+        const text = await response.text().catch(() => '');
+        throw fromBackendStatus(response.status, text);
       }
 
-      const data = await response.json();
-      
-      console.log('🔍 Backend response data:', JSON.stringify(data, null, 2));
-      console.log('🔍 Progress steps from backend:', data.progress_steps);
-      
+      if (wantsStream) {
+        const backendResponse = response;
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            let answer = '';
+            try {
+              for await (const event of streamBackendResponse(backendResponse)) {
+                if (event.type === 'token') {
+                  answer += event.delta;
+                }
+                controller.enqueue(encoder.encode(encodeSSE(event)));
+              }
+              controller.enqueue(encoder.encode(encodeSSE({
+                type: 'done',
+                answer,
+                timestamp: new Date().toISOString()
+              })));
+            } catch (streamError) {
+              // The browser went away (Stop button); the backend call is already aborted
+              if (request.signal.aborted) {
+                return;
+              }
+              console.error('Backend stream error:', streamError);
+              const error = streamError instanceof ApiError
+                ? streamError
+                : new ApiError('BACKEND_ERROR', 'The backend stream was interrupted');
+              controller.enqueue(encoder.encode(encodeSSE({
+                type: 'error',
+                error: error.toPayload()
+              })));
+            } finally {
+              request.signal.removeEventListener('abort', onClientAbort);
+              try {
+                controller.close();
+              } catch {
+                // Already closed by a cancelled client
+              }
+            }
+          }
+        });
+
+        return new Response(stream, { headers: SSE_HEADERS });
+      }
+
+      // The whole answer is in; a later client abort has nothing left to cancel
+      const data = parseAskResponse(await response.json());
+      request.signal.removeEventListener('abort', onClientAbort);
+
       return NextResponse.json({
         response: data.answer,
-        contextSources: data.sources?.length || 0,
+        sources: normalizeSources(data.sources),
+        contextSources: data.sources.length,
         validation: {},
         timestamp: new Date().toISOString(),
-        progressSteps: data.progress_steps || [],
-        progress_steps: data.progress_steps || [] // Add both camelCase and snake_case
+        progressSteps: data.progress_steps,
+        progress_steps: data.progress_steps // Add both camelCase and snake_case
       });
 
     } catch (backendError) {
+      clearTimeout(connectTimer);
+      request.signal.removeEventListener('abort', onClientAbort);
+      if (request.signal.aborted) {
+        console.log('⏹️ Chat request cancelled by client');
+        return new Response(null, { status: 499 });
+      }
       console.error('Backend connection error:', backendError);
-      return NextResponse.json({
-        response: 'I encountered an error connecting to the backend. Please ensure the backend is running on port 8000.',
-        contextSources: 0,
-        validation: {},
-        timestamp: new Date().toISOString()
-      });
+      return errorResponse(toBackendError(backendError, timedOut));
     }
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(error);
+    }
     console.error('API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorJson('INTERNAL_ERROR', 'Internal server error');
   }
 }
 
@@ -121,7 +330,7 @@ export async function GET() {
   return NextResponse.json({
     message: 'Chat API endpoint is running',
     endpoints: {
-      POST: '/api/chat - Send a message to the AI'
+      POST: '/api/chat - Send a message to the AI (Accept: text/event-stream for SSE)'
     }
   });
 }
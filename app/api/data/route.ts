@@ -1,21 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, fromBackendStatus, toBackendError } from '@/lib/api-errors';
+import { requireUser } from '@/lib/api-auth';
+import { errorJson, errorResponse, MAX_UPLOAD_BYTES } from '@/lib/api-response';
+import { config } from '@/lib/config';
+import { parseDatasetStats, parseOverallKpis, parseSalesHeatmap, parseSuggestedQuestions } from '@/lib/backend-api';
+import { analyzeDataQuality } from '@/lib/data-quality';
+import type { DatasetStats } from '@/lib/dataset-stats';
+import { readSpreadsheet } from '@/lib/spreadsheet';
+import {
+  isSupportedUpload,
+  normalizeHeader,
+  validateTransactionRows,
+  type RawRow,
+  type UploadResult
+} from '@/lib/transaction-upload';
+
+const STATS_TIMEOUT_MS = 30000;
+
+async function fetchBackendJson(url: string): Promise<unknown> {
+  const response = await fetch(url, {
+    headers: { 'Content-Type': 'application/json' },
+    signal: AbortSignal.timeout(STATS_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw fromBackendStatus(response.status, await response.text().catch(() => ''));
+  }
+  return response.json();
+}
+
+// Prefer the backend's own stats endpoint; older backends only expose the report endpoints,
+// whose totals fetchDatasetStats completes from the upload log
+async function getDatasetStats(backendUrl: string): Promise<DatasetStats> {
+  const response = await fetch(`${backendUrl}/v1/data/stats`, {
+    headers: { 'Content-Type': 'application/json' },
+    signal: AbortSignal.timeout(STATS_TIMEOUT_MS),
+  });
+
+  if (response.ok) {
+    const stats = parseDatasetStats(await response.json());
+    return {
+      rows: stats.total_rows,
+      entities: stats.total_entities,
+      productGroups: stats.product_groups,
+      periodStart: stats.period_start,
+      periodEnd: stats.period_end,
+      lastIngestedAt: stats.last_ingested_at,
+      vectorCollectionName: stats.collection_name,
+      vectorCollectionSize: stats.collection_size,
+      source: 'backend'
+    };
+  }
+  if (response.status !== 404) {
+    throw fromBackendStatus(response.status, await response.text().catch(() => ''));
+  }
+
+  console.log('ℹ️ Data API: No /v1/data/stats endpoint, aggregating from report endpoints');
+  const [kpis, heatmap] = await Promise.all([
+    fetchBackendJson(`${backendUrl}/v1/report/overview/kpis?period_months=0&product_group=ALL&entity_limit=0`).then(parseOverallKpis),
+    fetchBackendJson(`${backendUrl}/v1/report/overview/heatmap?period_months=0`).then(parseSalesHeatmap)
+  ]);
+  return {
+    rows: kpis.total_transactions,
+    entities: kpis.total_entities,
+    productGroups: [...heatmap.product_groups].sort(),
+    periodStart: kpis.period_start,
+    periodEnd: kpis.period_end,
+    lastIngestedAt: null,
+    vectorCollectionName: null,
+    vectorCollectionSize: null,
+    source: 'reports'
+  };
+}
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action') || 'stats';
 
-    // Connect to the new FastAPI backend
-    const backendUrl = process.env.BACKEND_URL || 'http://localhost:8000';
+    const backendUrl = config.backendUrl;
     
     try {
       if (action === 'stats') {
-        // For now, return basic stats since we don't have a stats endpoint in the new backend
-        return NextResponse.json({
-          total_documents: 'Connected to new backend',
-          collection_name: '2024 Transactions Data',
-          status: 'active'
-        });
+        return NextResponse.json(await getDatasetStats(backendUrl));
       }
 
       if (action === 'suggestions') {
@@ -33,64 +99,175 @@ export async function GET(request: NextRequest) {
           headers: {
             'Content-Type': 'application/json',
           },
+          signal: AbortSignal.timeout(30000),
         });
 
         if (!response.ok) {
           console.error(`Backend suggested-questions endpoint failed: ${response.status} ${response.statusText}`);
-          throw new Error(`Backend responded with status: ${response.status}`);
+          throw fromBackendStatus(response.status, await response.text().catch(() => ''));
         }
 
-        const data = await response.json();
-        console.log('✅ Data API: Suggested questions response:', data);
-        
         // Backend returns { questions: [...], categories: {...} }
         // Return the questions array directly for easier frontend consumption
-        return NextResponse.json(data.questions || data);
+        const questions = parseSuggestedQuestions(await response.json());
+        console.log('✅ Data API: Suggested questions response:', questions);
+        return NextResponse.json(questions);
       }
 
-      return NextResponse.json({
-        error: 'Invalid action. Use ?action=stats or ?action=suggestions'
-      }, { status: 400 });
+      return errorJson('BAD_REQUEST', 'Invalid action. Use ?action=stats or ?action=suggestions');
 
     } catch (backendError) {
       console.error('Backend connection error:', backendError);
-      return NextResponse.json({
-        error: 'Failed to connect to backend',
-        message: 'Please ensure the backend is running on port 8000'
-      }, { status: 500 });
+      return errorResponse(toBackendError(backendError));
     }
 
   } catch (error) {
     console.error('Data API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorJson('INTERNAL_ERROR', 'Internal server error');
   }
 }
 
+// Large monthly extracts take a while for the backend to embed and index
+const INGEST_TIMEOUT_MS = 120000;
+
+// Read the upload from multipart form data (a CSV/XLSX file) or JSON (already-parsed rows)
+async function readUpload(request: NextRequest): Promise<
+  { action: string; filename: string; columns: string[]; rows: RawRow[]; rowNumbers?: number[]; skipInvalidRows: boolean } | Response
+> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const action = String(formData.get('action') || '');
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return errorJson('BAD_REQUEST', 'A CSV or XLSX file is required');
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return errorJson('UPLOAD_TOO_LARGE', `Upload exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB limit`, {
+        size: file.size,
+        limit: MAX_UPLOAD_BYTES
+      });
+    }
+    if (!isSupportedUpload(file.name)) {
+      return errorJson('UNSUPPORTED_ATTACHMENT', 'Only .csv and .xlsx files are supported', { filename: file.name });
+    }
+
+    try {
+      const { columns, rows, rowNumbers } = await readSpreadsheet(file);
+      return { action, filename: file.name, columns, rows, rowNumbers, skipInvalidRows: formData.get('skipInvalidRows') === 'true' };
+    } catch (parseError) {
+      console.error('Failed to parse upload:', parseError);
+      return errorJson('BAD_REQUEST', `Could not read ${file.name}. Is it a valid CSV or XLSX file?`);
+    }
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body) {
+    return errorJson('BAD_REQUEST', 'Request body must be valid JSON');
+  }
+  const { action, data, filename, skipInvalidRows } = body;
+  if (!Array.isArray(data)) {
+    return errorJson('BAD_REQUEST', '`data` must be an array of transaction rows');
+  }
+  const rows: RawRow[] = data.map((raw: RawRow) => {
+    const row: RawRow = {};
+    for (const [key, value] of Object.entries(raw || {})) {
+      row[normalizeHeader(key)] = value;
+    }
+    return row;
+  });
+  const columns = Array.from(new Set(data.flatMap((raw: RawRow) => Object.keys(raw || {}))));
+  return { action, filename: filename || 'upload.json', columns, rows, skipInvalidRows: skipInvalidRows === true };
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { action, data } = await request.json();
-
-    if (action === 'upload') {
-      // Handle data file upload
-      return NextResponse.json({
-        message: 'Data upload functionality will be implemented',
-        action,
-        received: !!data
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > MAX_UPLOAD_BYTES) {
+      return errorJson('UPLOAD_TOO_LARGE', `Upload exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB limit`, {
+        size: contentLength,
+        limit: MAX_UPLOAD_BYTES
+      });
+    }
+
+    // Uploads feed the dataset every answer is drawn from, so only signed-in users may send them
+    const user = await requireUser(request);
+
+    const upload = await readUpload(request);
+    if (upload instanceof Response) {
+      return upload;
+    }
+    const { action, filename, columns, rows: rawRows, rowNumbers, skipInvalidRows } = upload;
+
+    if (action === 'quality') {
+      const report = analyzeDataQuality(filename, columns, rawRows, rowNumbers);
+      console.log(`✅ Data API: Quality report for ${filename}: ${report.issueCount} findings`);
+      return NextResponse.json(report);
+    }
+
+    if (action !== 'preview' && action !== 'upload') {
+      return errorJson('BAD_REQUEST', "Invalid action. Use 'preview', 'upload' or 'quality'");
+    }
+
+    const { preview, rows } = validateTransactionRows(filename, columns, rawRows, rowNumbers);
+
+    if (action === 'preview') {
+      return NextResponse.json(preview);
+    }
+
+    if (preview.missingColumns.length > 0) {
+      return errorJson('BAD_REQUEST', `Missing required columns: ${preview.missingColumns.join(', ')}`, {
+        missingColumns: preview.missingColumns
+      });
+    }
+    if (rows.length === 0) {
+      return errorJson('BAD_REQUEST', 'The file has no valid rows to upload');
+    }
+    if (preview.invalidRows > 0 && !skipInvalidRows) {
+      return errorJson('BAD_REQUEST', `${preview.invalidRows} rows failed validation`, {
+        invalidRows: preview.invalidRows,
+        errors: preview.errors
       });
     }
 
-    return NextResponse.json({
-      error: 'Invalid action'
-    }, { status: 400 });
+    // Forward the normalized rows to the backend for ingestion
+    const backendUrl = config.backendUrl;
+    try {
+      const response = await fetch(`${backendUrl}/v1/data/ingest`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ filename, rows }),
+        signal: AbortSignal.timeout(INGEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        console.error(`Backend ingest endpoint failed: ${response.status} ${response.statusText}`);
+        throw fromBackendStatus(response.status, await response.text().catch(() => ''));
+      }
+
+      const backend = await response.json().catch(() => null);
+      console.log(`✅ Data API: Ingested ${rows.length} rows from ${filename} for user ${user.id}`);
+
+      const result: UploadResult = {
+        filename,
+        ingestedRows: rows.length,
+        skippedRows: preview.invalidRows,
+        backend,
+      };
+      return NextResponse.json(result);
+    } catch (backendError) {
+      console.error('Backend ingest error:', backendError);
+      return errorResponse(toBackendError(backendError));
+    }
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(error);
+    }
     console.error('Data API POST error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorJson('INTERNAL_ERROR', 'Internal server error');
   }
 }
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { checkReadiness } from '@/lib/health-checks';
+
+// Readiness: 200 while every dependency is usable (warnings allowed), 503 otherwise
+export async function GET() {
+  const report = await checkReadiness();
+  const failed = report.checks.filter(check => check.status === 'fail').map(check => check.name);
+  if (failed.length > 0) {
+    console.error(`❌ Health: Not ready, failing checks: ${failed.join(', ')}`);
+  }
+  return NextResponse.json(report, {
+    status: report.status === 'unready' ? 503 : 200,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
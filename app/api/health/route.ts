@@ -1,14 +1,20 @@
 import { NextResponse } from 'next/server';
+import { fromBackendStatus, toBackendError } from '@/lib/api-errors';
+import { errorResponse } from '@/lib/api-response';
+import { config } from '@/lib/config';
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_API_URL || 'https://retail-transaction-analysis.onrender.com';
-
+// Liveness of the backend only; GET /api/health/ready reports on every dependency
 export async function GET() {
+  let timedOut = false;
   try {
-    // Simple proxy to actual Render backend health check
+    // Simple proxy to the backend health check
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, 30000); // 30s timeout
 
-    const res = await fetch(`${BACKEND_URL}/health`, {
+    const res = await fetch(`${config.backendUrl}/health`, {
       method: 'GET',
       cache: 'no-store',
       signal: controller.signal,
@@ -18,16 +24,10 @@ export async function GET() {
 
     if (!res.ok) {
       const text = await res.text().catch(() => '');
-      return NextResponse.json(
-        {
-          status: 'unhealthy',
-          message: 'Backend responded with error',
-          backendStatus: res.status,
-          backendBody: text,
-          timestamp: new Date().toISOString(),
-        },
-        { status: 503 },
-      );
+      return errorResponse(fromBackendStatus(res.status, text), {
+        status: 'unhealthy',
+        message: 'Backend responded with error',
+      });
     }
 
     const data = await res.json().catch(() => ({}));
@@ -39,16 +39,12 @@ export async function GET() {
     });
   } catch (error: any) {
     // Handle timeout or network errors
-    const isTimeout = error?.name === 'AbortError';
-    return NextResponse.json(
-      {
-        status: 'unhealthy',
-        message: isTimeout ? 'Backend timeout (cold start)' : 'Failed to reach backend',
-        error: error?.message ?? String(error),
-        hint: isTimeout ? 'Backend is waking up from cold start. Try again in 30 seconds.' : undefined,
-        timestamp: new Date().toISOString(),
-      },
-      { status: 503 },
-    );
+    const apiError = toBackendError(error, timedOut);
+    const isTimeout = apiError.code === 'BACKEND_TIMEOUT';
+    return errorResponse(apiError, {
+      status: 'unhealthy',
+      message: isTimeout ? 'Backend timeout (cold start)' : 'Failed to reach backend',
+      hint: isTimeout ? 'Backend is waking up from cold start. Try again in 30 seconds.' : undefined,
+    });
   }
 }
@@ -1,34 +1,61 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { logger } from "@/lib/logger";
 import { useRouter } from "next/navigation";
 import TopNav from "../components/TopNav";
 import Sidebar from "../components/Sidebar";
 import ChatInterface from "../components/ChatInterface";
 import DeleteConfirmationModal from "../components/DeleteConfirmationModal";
+import SearchPalette from "../components/SearchPalette";
+import LocalSessionsBanner from "../components/LocalSessionsBanner";
 import { supabase, getCurrentUser } from "@/lib/supabase";
 import { getUserSessions, deleteSession, type ChatSession } from "@/lib/supabase-chat";
+import { isLocalSession } from "@/lib/chat-store";
+import { importConversation } from "@/lib/conversation-export";
 import { useUser } from "@/app/contexts/UserContext";
+import type { MessageSearchResult } from "@/lib/message-search";
 
 export default function ChatPage() {
   const router = useRouter();
-  const { userEmail: contextUserEmail, avatarUrl: contextAvatarUrl, userId: contextUserId } = useUser();
+  const { userEmail: contextUserEmail, avatarUrl: contextAvatarUrl, userId: contextUserId, chatOwnerId } = useUser();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [conversations, setConversations] = useState<Array<{id: string, title: string, timestamp: string}>>([]);
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [conversationToDelete, setConversationToDelete] = useState<{id: string, title: string} | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0); // Bumped to reload the sidebar list
+  const selectAfterLoadRef = useRef<string | null>(null); // Opened once the reloaded list has it
+
+  // Cmd/Ctrl+K opens message search from anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSearchSelect = (result: MessageSearchResult) => {
+    logger.log('🔍 ChatPage: Opening search result:', result.session_id, result.message_id);
+    setSelectedConversationId(result.session_id);
+    setFocusMessageId(result.message_id);
+  };
 
          // Load conversations from Supabase on mount
          useEffect(() => {
            const loadConversations = async () => {
-             if (!contextUserId) return;
+             if (!chatOwnerId) return;
              
              try {
                logger.log('🔍 ChatPage: Loading conversations...');
-               logger.log('👤 ChatPage: User ID from context:', contextUserId);
-               const dbSessions = await getUserSessions(contextUserId);
+               logger.log('👤 ChatPage: Chat owner from context:', chatOwnerId);
+               const dbSessions = await getUserSessions(chatOwnerId);
                logger.log('📋 ChatPage: Retrieved sessions:', dbSessions.length);
                if (dbSessions.length > 0) {
                  const formattedConversations = dbSessions.map((session: ChatSession) => {
@@ -66,8 +93,19 @@ export default function ChatPage() {
                  });
                  logger.log('✅ ChatPage: Setting conversations:', formattedConversations.length);
                  setConversations(formattedConversations);
-                 // Set the most recent conversation as selected
-                 setSelectedConversationId(formattedConversations[0].id);
+                 // Open the linked conversation (?session=…&message=…), otherwise the most recent one
+                 const params = new URLSearchParams(window.location.search);
+                 const linkedSession = params.get('session');
+                 const pendingSession = selectAfterLoadRef.current;
+                 selectAfterLoadRef.current = null;
+                 if (pendingSession && formattedConversations.some(conv => conv.id === pendingSession)) {
+                   setSelectedConversationId(pendingSession);
+                 } else if (linkedSession && formattedConversations.some(conv => conv.id === linkedSession)) {
+                   setSelectedConversationId(linkedSession);
+                   setFocusMessageId(params.get('message'));
+                 } else {
+                   setSelectedConversationId(formattedConversations[0].id);
+                 }
                } else {
                  logger.log('ℹ️ ChatPage: No sessions found for user');
                }
@@ -77,7 +115,7 @@ export default function ChatPage() {
            };
 
            loadConversations();
-         }, [contextUserId]);
+         }, [chatOwnerId, historyVersion]);
 
   // Note: Conversations are now managed by Supabase, no localStorage needed
   // User data is now managed by UserContext, no need for local auth checking here
@@ -165,6 +203,18 @@ export default function ChatPage() {
   };
 
 
+  const handleImportConversation = async (file: File) => {
+    if (!chatOwnerId) return;
+    try {
+      const sessionId = await importConversation(chatOwnerId, file);
+      selectAfterLoadRef.current = sessionId;
+      setHistoryVersion((version) => version + 1);
+    } catch (error: any) {
+      logger.error('❌ ChatPage: Conversation import failed:', error);
+      alert(error?.message || 'Failed to import conversation. Please try again.');
+    }
+  };
+
   const handleDeleteConversation = (id: string) => {
     const conversation = conversations.find(conv => conv.id === id);
     if (conversation) {
@@ -235,23 +285,44 @@ export default function ChatPage() {
         onSelectConversation={setSelectedConversationId}
         onNewChat={handleNewChat}
         onDeleteConversation={handleDeleteConversation}
+        onSearch={() => setIsSearchOpen(true)}
+        onImportConversation={handleImportConversation}
         userEmail={contextUserEmail || undefined}
         avatarUrl={contextAvatarUrl || undefined}
       />
 
-      <div className="pt-16 h-full">
-        <ChatInterface 
-          onMenuClick={() => setIsSidebarOpen(true)} 
-          onTitleGenerated={handleTitleGenerated}
-          onSessionCreated={handleSessionCreated}
-          conversationId={(() => {
-            logger.log('🔍 ChatPage: Passing conversationId to ChatInterface:', selectedConversationId);
-            return selectedConversationId || undefined;
-          })()}
-          conversationTitle={conversations.find(c => c.id === selectedConversationId)?.title}
+      <div className="pt-16 h-full flex flex-col">
+        <LocalSessionsBanner
+          userId={contextUserId}
+          onMigrated={(result) => {
+            if (result.migrated === 0) return;
+            // Local ids are gone; the moved conversations come back with new ids
+            if (isLocalSession(selectedConversationId)) setSelectedConversationId(null);
+            setHistoryVersion((version) => version + 1);
+          }}
         />
+        <div className="flex-1 min-h-0">
+          <ChatInterface 
+            onMenuClick={() => setIsSidebarOpen(true)} 
+            onTitleGenerated={handleTitleGenerated}
+            onSessionCreated={handleSessionCreated}
+            conversationId={(() => {
+              logger.log('🔍 ChatPage: Passing conversationId to ChatInterface:', selectedConversationId);
+              return selectedConversationId || undefined;
+            })()}
+            conversationTitle={conversations.find(c => c.id === selectedConversationId)?.title}
+            focusMessageId={focusMessageId || undefined}
+            onFocusHandled={() => setFocusMessageId(null)}
+          />
+        </div>
       </div>
 
+      <SearchPalette
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        onSelect={handleSearchSelect}
+      />
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmationModal
         isOpen={deleteModalOpen}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { ThumbsUp, ThumbsDown } from "lucide-react";
+import {
+  FEEDBACK_REASONS,
+  deleteMessageFeedback,
+  saveMessageFeedback,
+  type FeedbackRating,
+  type MessageFeedback,
+} from "@/lib/message-feedback";
+
+interface AnswerFeedbackProps {
+  messageId: string;
+  userId: string;
+  feedback?: MessageFeedback;
+  onChange: (messageId: string, feedback: MessageFeedback | null) => void;
+}
+
+// Thumbs up/down under an answer; thumbs-down opens optional reasons and a comment
+export default function AnswerFeedback({ messageId, userId, feedback, onChange }: AnswerFeedbackProps) {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [reasons, setReasons] = useState<string[]>(feedback?.reasons || []);
+  const [comment, setComment] = useState(feedback?.comment || "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rate = async (rating: FeedbackRating) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      if (feedback?.rating === rating) {
+        // Clicking the active thumb clears the rating (or reopens the thumbs-down details)
+        if (rating === "down" && !isFormOpen) {
+          setIsFormOpen(true);
+        } else if (await deleteMessageFeedback(userId, messageId)) {
+          onChange(messageId, null);
+          setIsFormOpen(false);
+          setReasons([]);
+          setComment("");
+        }
+        return;
+      }
+      const saved = await saveMessageFeedback(userId, messageId, { rating, reasons, comment });
+      if (saved) {
+        onChange(messageId, saved);
+        setIsFormOpen(rating === "down");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitDetails = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveMessageFeedback(userId, messageId, { rating: "down", reasons, comment });
+      if (saved) {
+        onChange(messageId, saved);
+        setIsFormOpen(false);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleReason = (reason: string) => {
+    setReasons((current) => (current.includes(reason) ? current.filter((r) => r !== reason) : [...current, reason]));
+  };
+
+  const buttonClass = (active: boolean) =>
+    `p-1 rounded disabled:opacity-40 ${
+      active
+        ? "text-slate-900 dark:text-white bg-slate-200 dark:bg-slate-600"
+        : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+    }`;
+
+  return (
+    <div className="relative flex items-center gap-0.5">
+      <button
+        onClick={() => rate("up")}
+        disabled={isSaving}
+        className={buttonClass(feedback?.rating === "up")}
+        title={feedback?.rating === "up" ? "Remove rating" : "Good answer"}
+      >
+        <ThumbsUp className="w-3.5 h-3.5" />
+      </button>
+      <button
+        onClick={() => rate("down")}
+        disabled={isSaving}
+        className={buttonClass(feedback?.rating === "down")}
+        title={feedback?.rating === "down" ? "Edit feedback" : "Bad answer"}
+      >
+        <ThumbsDown className="w-3.5 h-3.5" />
+      </button>
+
+      {isFormOpen && (
+        <div className="absolute top-full left-0 mt-1 z-20 w-72 rounded-xl border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg p-3 text-xs text-gray-700 dark:text-gray-200">
+          <p className="font-medium mb-2">What was wrong? (optional)</p>
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {FEEDBACK_REASONS.map((reason) => (
+              <button
+                key={reason.value}
+                onClick={() => toggleReason(reason.value)}
+                className={`px-2 py-0.5 rounded-full border transition-colors ${
+                  reasons.includes(reason.value)
+                    ? "bg-black text-white border-black dark:bg-white dark:text-black dark:border-white"
+                    : "border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+                }`}
+              >
+                {reason.label}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a comment…"
+            rows={2}
+            className="w-full resize-none rounded-lg border border-gray-300 dark:border-slate-600 bg-transparent px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400"
+          />
+          <div className="mt-2 flex justify-end gap-2">
+            <button
+              onClick={() => setIsFormOpen(false)}
+              className="px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+            >
+              Close
+            </button>
+            <button
+              onClick={submitDetails}
+              disabled={isSaving}
+              className="px-2 py-1 rounded bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200 disabled:opacity-50"
+            >
+              Send feedback
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
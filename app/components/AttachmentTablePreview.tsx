@@ -0,0 +1,67 @@
+"use client";
+
+import { Table2, X } from "lucide-react";
+import type { TablePreview } from "@/lib/attachments";
+
+interface AttachmentTablePreviewProps {
+  name: string;
+  preview: TablePreview;
+  onClose: () => void;
+}
+
+// Scrollable first rows of a CSV/XLSX attachment, shown above the composer before sending
+export default function AttachmentTablePreview({ name, preview, onClose }: AttachmentTablePreviewProps) {
+  return (
+    <div className="mb-2 rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-xs font-body">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200 dark:border-slate-700">
+        <div className="flex items-center gap-2 min-w-0 text-gray-700 dark:text-gray-300">
+          <Table2 className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate font-medium">{name}</span>
+          <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+            {preview.columns.length} columns · {preview.totalRows.toLocaleString()} rows
+            {preview.totalRows > preview.rows.length && ` (first ${preview.rows.length} shown)`}
+          </span>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 dark:hover:bg-slate-800 rounded" title="Close preview">
+          <X className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" />
+        </button>
+      </div>
+
+      {preview.columns.length === 0 ? (
+        <p className="px-3 py-3 text-gray-500 dark:text-gray-400">No header row found in this file.</p>
+      ) : (
+        <div className="max-h-64 overflow-auto">
+          <table className="min-w-full border-collapse">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-slate-800">
+              <tr>
+                {preview.columns.map((column, i) => (
+                  <th
+                    key={i}
+                    className="px-2 py-1.5 text-left font-semibold text-gray-700 dark:text-gray-200 whitespace-nowrap border-b border-gray-200 dark:border-slate-700"
+                  >
+                    {column || `Column ${i + 1}`}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="odd:bg-white even:bg-gray-50 dark:odd:bg-slate-900 dark:even:bg-slate-800/50">
+                  {row.map((cell, cellIndex) => (
+                    <td
+                      key={cellIndex}
+                      className="px-2 py-1 text-gray-800 dark:text-gray-300 whitespace-nowrap max-w-[240px] truncate"
+                      title={cell}
+                    >
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
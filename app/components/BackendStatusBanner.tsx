@@ -0,0 +1,34 @@
+"use client";
+
+import { Loader2, WifiOff } from "lucide-react";
+import { useBackendStatus } from "@/lib/useBackendStatus";
+
+export default function BackendStatusBanner() {
+  const status = useBackendStatus();
+
+  if (status === "online") return null;
+
+  return (
+    <div className="fixed top-16 left-0 right-0 z-40 flex justify-center px-4 pointer-events-none">
+      <div
+        className={`mt-2 flex items-center gap-2 px-4 py-2 rounded-full shadow-md text-sm font-body pointer-events-auto ${
+          status === "waking"
+            ? "bg-amber-50 text-amber-800 border border-amber-200 dark:bg-amber-900/40 dark:text-amber-200 dark:border-amber-800"
+            : "bg-red-50 text-red-800 border border-red-200 dark:bg-red-900/40 dark:text-red-200 dark:border-red-800"
+        }`}
+      >
+        {status === "waking" ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Backend waking up — this can take up to a minute after a period of inactivity.</span>
+          </>
+        ) : (
+          <>
+            <WifiOff className="w-4 h-4" />
+            <span>Backend unreachable. Retrying automatically…</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
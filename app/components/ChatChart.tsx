@@ -0,0 +1,258 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { BarChart3, Download, Image as ImageIcon, Loader2, Table } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, ComposedChart, ReferenceLine, Legend } from "recharts";
+import { logger } from "@/lib/logger";
+import {
+  PARETO_CUMULATIVE_KEY,
+  chartToCsv,
+  formatChartValue,
+  paretoData,
+  parseChartSpec,
+  type ChartSpec,
+} from "@/lib/chart-spec";
+
+// Same palette as the reports page
+const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8"];
+
+const CHART_HEIGHT = 280;
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+function chartFilename(spec: ChartSpec, extension: string): string {
+  const base = (spec.title || `${spec.type}-chart`).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${base || "chart"}.${extension}`;
+}
+
+// Rasterise the recharts SVG at 2x on a white background
+async function svgToPng(svg: SVGSVGElement): Promise<Blob> {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  const source = new XMLSerializer().serializeToString(clone);
+  const url = window.URL.createObjectURL(new Blob([source], { type: "image/svg+xml;charset=utf-8" }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not render chart image"));
+      image.src = url;
+    });
+
+    const scale = 2;
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas is not supported");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode PNG"))), "image/png");
+    });
+  } finally {
+    window.URL.revokeObjectURL(url);
+  }
+}
+
+// Returns the recharts element itself: ResponsiveContainer sizes its direct child
+function renderChart(spec: ChartSpec) {
+  const valueTick = (v: unknown) => formatChartValue(v, spec.format, true);
+  const valueTooltip = (value: unknown) => formatChartValue(value, spec.format);
+
+  if (spec.type === "pie") {
+    const key = spec.y[0];
+    return (
+      <PieChart>
+        <Pie data={spec.data} dataKey={key} nameKey={spec.x} cx="50%" cy="50%" outerRadius={80} label={({ name }) => String(name)}>
+          {spec.data.map((_, index) => (
+            <Cell key={index} fill={COLORS[index % COLORS.length]} />
+          ))}
+        </Pie>
+        <Tooltip formatter={valueTooltip} />
+      </PieChart>
+    );
+  }
+
+  if (spec.type === "pareto") {
+    const key = spec.y[0];
+    return (
+      <ComposedChart data={paretoData(spec)} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey={spec.x} tick={{ fontSize: 11 }} />
+        <YAxis yAxisId="left" tickFormatter={valueTick} domain={[0, "auto"]} />
+        <YAxis yAxisId="right" orientation="right" domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
+        <Tooltip formatter={(value, name) => name === PARETO_CUMULATIVE_KEY ? `${Number(value).toFixed(1)}%` : valueTooltip(value)} />
+        <Bar yAxisId="left" dataKey={key} fill="#111827" radius={[4, 4, 0, 0]} />
+        <Line yAxisId="right" type="monotone" dataKey={PARETO_CUMULATIVE_KEY} stroke="#EF4444" strokeWidth={2} dot={false} />
+        <ReferenceLine yAxisId="right" y={80} stroke="#EF4444" strokeDasharray="4 2" />
+      </ComposedChart>
+    );
+  }
+
+  if (spec.type === "bar") {
+    return (
+      <BarChart data={spec.data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey={spec.x} tick={{ fontSize: 11 }} />
+        <YAxis tickFormatter={valueTick} />
+        <Tooltip formatter={valueTooltip} />
+        {spec.y.length > 1 && <Legend />}
+        {spec.y.map((key, index) => (
+          <Bar key={key} dataKey={key} fill={COLORS[index % COLORS.length]} radius={[4, 4, 0, 0]} />
+        ))}
+      </BarChart>
+    );
+  }
+
+  return (
+    <LineChart data={spec.data}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis dataKey={spec.x} tick={{ fontSize: 11 }} />
+      <YAxis tickFormatter={valueTick} />
+      <Tooltip formatter={valueTooltip} />
+      {spec.y.length > 1 && <Legend />}
+      {spec.y.map((key, index) => (
+        <Line
+          key={key}
+          type="monotone"
+          dataKey={key}
+          stroke={spec.y.length > 1 ? COLORS[index % COLORS.length] : "#8884d8"}
+          strokeWidth={2}
+        />
+      ))}
+    </LineChart>
+  );
+}
+
+/**
+ * Renders a ```chart block from an assistant answer. While the answer is still streaming the
+ * JSON is usually incomplete, so parse errors are only shown once it has finished.
+ */
+export default function ChatChart({ source, streaming }: { source: string; streaming?: boolean }) {
+  const parsed = useMemo(() => parseChartSpec(source), [source]);
+  const [showTable, setShowTable] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  if (!parsed.spec) {
+    if (streaming) {
+      return (
+        <div className="not-prose my-3 flex items-center gap-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 p-4 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Building chart…
+        </div>
+      );
+    }
+    return (
+      <div className="not-prose my-3 rounded-lg border border-red-200 dark:border-red-800 bg-white dark:bg-slate-800 p-3 text-xs">
+        <p className="text-red-600 dark:text-red-400 mb-2">{parsed.error}</p>
+        <pre className="overflow-x-auto whitespace-pre-wrap font-mono text-gray-600 dark:text-gray-300">{source}</pre>
+      </div>
+    );
+  }
+
+  const spec = parsed.spec;
+  const columns = [spec.x, ...spec.y];
+
+  const downloadCsv = () => {
+    downloadBlob(new Blob([chartToCsv(spec)], { type: "text/csv;charset=utf-8" }), chartFilename(spec, "csv"));
+  };
+
+  const downloadPng = async () => {
+    const svg = chartRef.current?.querySelector<SVGSVGElement>("svg.recharts-surface");
+    if (!svg) return;
+    setExporting(true);
+    try {
+      downloadBlob(await svgToPng(svg), chartFilename(spec, "png"));
+    } catch (error) {
+      logger.error("❌ Chart PNG export failed:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 p-3 text-gray-900 dark:text-white">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2 text-sm font-semibold min-w-0">
+          <BarChart3 className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{spec.title || "Chart"}</span>
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          <button
+            onClick={() => setShowTable(!showTable)}
+            className={`flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700 ${showTable ? "bg-gray-100 dark:bg-slate-700" : ""}`}
+            title={showTable ? "Show chart" : "Show data table"}
+          >
+            <Table className="w-3.5 h-3.5" />
+            {showTable ? "Chart" : "Table"}
+          </button>
+          <button
+            onClick={downloadPng}
+            disabled={showTable || exporting}
+            className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40"
+            title="Download as PNG"
+          >
+            <ImageIcon className="w-3.5 h-3.5" />
+            PNG
+          </button>
+          <button
+            onClick={downloadCsv}
+            className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700"
+            title="Download data as CSV"
+          >
+            <Download className="w-3.5 h-3.5" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {showTable ? (
+        <div className="max-h-72 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-white dark:bg-slate-800">
+              <tr className="border-b border-gray-200 dark:border-slate-600">
+                {columns.map(column => (
+                  <th key={column} className="text-left font-semibold px-2 py-1">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {spec.data.map((row, index) => (
+                <tr key={index} className="border-b border-gray-100 dark:border-slate-700">
+                  <td className="px-2 py-1">{row[spec.x] ?? "—"}</td>
+                  {spec.y.map(key => (
+                    <td key={key} className="px-2 py-1 text-right font-mono">{formatChartValue(row[key], spec.format)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div ref={chartRef}>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            {renderChart(spec)}
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
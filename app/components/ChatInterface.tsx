@@ -1,8 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from "react";
-import axios from "axios";
-import { Send, Loader2, ChevronDown, ChevronUp, BookOpen, Paperclip, X, Copy, Check } from "lucide-react";
+import { Send, Square, ChevronLeft, ChevronRight, Paperclip, X, Copy, Check, RotateCcw, Pencil, RefreshCw, SlidersHorizontal, Table2 } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { getCurrentUser, createOrUpdateProfile } from "@/lib/supabase";
@@ -10,28 +9,85 @@ import {
   createChatSession, 
   getSessionMessages, 
   saveMessage, 
+  updateCancelledMessage,
+  getSessionSettings,
+  updateSessionSettings,
+  getConversationContext,
+  saveConversationContext,
   updateSessionTitle,
+  splitAttachmentNote,
   type ChatMessage 
 } from "@/lib/supabase-chat";
 import { logger } from "@/lib/logger";
+import { readChatStream, toProgressStep, type ProgressStep } from "@/lib/chat-stream";
+import { finishTimeline, startStep, timelineFromSteps, type TimelineStep } from "@/lib/progress-timeline";
+import { ApiError, readApiError, toBackendError, type ApiErrorPayload } from "@/lib/api-errors";
+import {
+  generateQuestionsFromSummaries,
+  generateSessionTitle,
+  getCachedSuggestions,
+  getSuggestedQuestions,
+  storeSuggestions,
+} from "@/lib/backend-api";
+import { normalizeSources, type SourceCitation } from "@/lib/citations";
+import { datasetSummaryLine } from "@/lib/dataset-stats";
+import { useDatasetStats } from "@/lib/useDatasetStats";
+import { activeBranch, branchThrough, latestDescendants, mergeNodes, siblingInfo, type TreeNode } from "@/lib/message-tree";
+import { isSlashCommand, parseSlashCommand, runSlashCommand, slashSuggestions } from "@/lib/slash-commands";
+import { completeMention, extractMentions, trailingMentionQuery } from "@/lib/entity-mentions";
+import { rankEntities } from "@/lib/entity-search";
+import { useEntityFetcher } from "@/lib/useEntityFetcher";
+import AnswerFeedback from "./AnswerFeedback";
+import PinButton from "./PinButton";
+import { getMessageFeedback, type MessageFeedback } from "@/lib/message-feedback";
+import { getPinsForMessages, type PinSummary } from "@/lib/notebook";
+import CitationPanel from "./CitationPanel";
+import { AnswerMarkdown, CollapsibleSources, MentionText } from "./MessageContent";
+import ExportMenu from "./ExportMenu";
+import ProgressTimeline from "./ProgressTimeline";
+import SessionSettingsDrawer from "./SessionSettingsDrawer";
+import { DEFAULT_SESSION_SETTINGS, changedSettingsCount, type SessionSettings } from "@/lib/session-settings";
+import { EMPTY_CONTEXT, buildConversationHistory, type ConversationContext } from "@/lib/conversation-history";
+import { ATTACHMENT_ACCEPT, isTableAttachment, readTablePreview, screenAttachments, type TablePreview } from "@/lib/attachments";
+import { getAttachmentUrls, uploadAttachments } from "@/lib/attachment-storage";
+import { LOCAL_USER_ID, isLocalSession, localChatAvailable } from "@/lib/chat-store";
+import AttachmentTablePreview from "./AttachmentTablePreview";
+import ShareButton from "./ShareButton";
+import ComposerSuggestions, { type ComposerSuggestion } from "./ComposerSuggestions";
 
 interface Message {
+  id?: string; // Set once the message is persisted
+  parentId?: string | null;
   role: "user" | "assistant";
   content: string;
-  sources?: string[];
+  sources?: SourceCitation[];
   suggestedQuestions?: string[];
-  attachments?: { name: string; type: string; url?: string }[];
+  attachments?: { name: string; type: string; url?: string; path?: string }[]; // path: stored copy in Supabase Storage
   isTyping?: boolean;
   displayedContent?: string;
-  progressSteps?: Array<{ step: string; message: string }>;
+  progressSteps?: TimelineStep[];
+  cancelled?: boolean;
+  cancelChoicePending?: boolean; // Stopped mid-answer, waiting for keep/discard
+  error?: ApiErrorPayload; // Failed request, rendered as an error bubble and never persisted
+  retry?: { text: string; files: File[] };
 }
 
+// A persisted message, addressable in the conversation tree
+type TreeMessage = Message & TreeNode;
+
+const isSaved = (msg: Message): msg is TreeMessage => !!msg.id;
+
+const MAX_MENTION_SUGGESTIONS = 8;
+
 interface ChatInterfaceProps {
   onMenuClick: () => void;
   onTitleGenerated?: (title: string, sessionId: string) => void;
   onSessionCreated?: (oldId: string, newId: string) => void;
   conversationId?: string;
   conversationTitle?: string;
+  /** Scroll to (and reveal the branch of) this message once it is loaded, e.g. from search */
+  focusMessageId?: string;
+  onFocusHandled?: () => void;
 }
 
 function CopyButton({ content }: { content: string }) {
@@ -58,75 +114,130 @@ function CopyButton({ content }: { content: string }) {
   );
 }
 
-function TypewriterText({ text, onComplete }: { text: string; onComplete: () => void }) {
-  const [displayedText, setDisplayedText] = useState("");
-  const [currentIndex, setCurrentIndex] = useState(0);
-
-  useEffect(() => {
-    if (currentIndex < text.length) {
-      const timeout = setTimeout(() => {
-        setDisplayedText(prev => prev + text[currentIndex]);
-        setCurrentIndex(prev => prev + 1);
-      }, 5); // Speed up from 15ms to 5ms
-      return () => clearTimeout(timeout);
-    } else if (currentIndex === text.length && onComplete) {
-      onComplete();
-    }
-  }, [currentIndex, text, onComplete]);
-
-  return (
-    <div className="prose prose-sm max-w-none dark:prose-invert">
-      <ReactMarkdown remarkPlugins={[remarkGfm]}>
-        {displayedText}
-      </ReactMarkdown>
-    </div>
-  );
-}
-
-function CollapsibleSources({ sources }: { sources: string[] }) {
-  const [isExpanded, setIsExpanded] = useState(false);
+// Edit/regenerate buttons, answer tools (feedback, pin) and the "< 1/3 >" branch switcher under a message
+function MessageActions({ message, branch, disabled, onEdit, onRegenerate, onSwitch, answerActions }: {
+  message: Message;
+  branch: { siblings: unknown[]; index: number } | null;
+  disabled: boolean;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  onSwitch: (direction: -1 | 1) => void;
+  answerActions?: React.ReactNode;
+}) {
+  const hasBranches = !!branch && branch.siblings.length > 1;
+  if (!hasBranches && !onEdit && !onRegenerate && !answerActions) return null;
 
-  if (!sources || sources.length === 0) return null;
+  const buttonClass =
+    "p-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded disabled:opacity-40 disabled:cursor-not-allowed";
 
   return (
-    <div className="mt-2 pt-2 border-t border-white/20 dark:border-slate-600">
-      <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className="flex items-center gap-2 text-xs font-caslon italic opacity-75 hover:opacity-100 transition-opacity w-full"
-      >
-        <BookOpen className="w-3.5 h-3.5" />
-        <span>Sources ({sources.length})</span>
-        {isExpanded ? <ChevronUp className="w-3.5 h-3.5 ml-auto" /> : <ChevronDown className="w-3.5 h-3.5 ml-auto" />}
-      </button>
-      
-      <div className={`overflow-hidden transition-all duration-300 ease-out ${isExpanded ? 'max-h-96 opacity-100 mt-2' : 'max-h-0 opacity-0'}`}>
-        <div className="space-y-1">
-          {sources.map((source, i) => (
-            <p key={i} className="text-xs font-caslon italic opacity-75 pl-1">• {source}</p>
-          ))}
+    <div className={`mt-1 flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400 ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+      {hasBranches && branch && (
+        <div className="flex items-center gap-0.5 font-mono">
+          <button
+            onClick={() => onSwitch(-1)}
+            disabled={disabled || branch.index === 0}
+            className={buttonClass}
+            title="Previous version"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </button>
+          <span>
+            {branch.index + 1}/{branch.siblings.length}
+          </span>
+          <button
+            onClick={() => onSwitch(1)}
+            disabled={disabled || branch.index === branch.siblings.length - 1}
+            className={buttonClass}
+            title="Next version"
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
         </div>
+      )}
+      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+        {onEdit && (
+          <button onClick={onEdit} disabled={disabled} className={buttonClass} title="Edit question">
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {onRegenerate && (
+          <button onClick={onRegenerate} disabled={disabled} className={buttonClass} title="Regenerate answer">
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        )}
       </div>
+      {answerActions}
     </div>
   );
 }
 
-export default function ChatInterface({ onMenuClick, onTitleGenerated, onSessionCreated, conversationId, conversationTitle }: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+function errorTitle(error: ApiErrorPayload): string {
+  switch (error.code) {
+    case 'BACKEND_UNREACHABLE':
+      return "Couldn't reach the backend";
+    case 'BACKEND_TIMEOUT':
+      return 'The backend took too long to respond';
+    case 'UPLOAD_TOO_LARGE':
+      return 'Attachments are too large';
+    case 'UNSUPPORTED_ATTACHMENT':
+      return "This file type isn't supported";
+    case 'BAD_REQUEST':
+      return "The request couldn't be processed";
+    default:
+      return 'Something went wrong';
+  }
+}
+
+export default function ChatInterface({ onMenuClick, onTitleGenerated, onSessionCreated, conversationId, conversationTitle, focusMessageId, onFocusHandled }: ChatInterfaceProps) {
+  const [messages, setMessages] = useState<Message[]>([]); // The branch on screen
+  const [messageTree, setMessageTree] = useState<TreeMessage[]>([]); // Every saved message, all branches
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState("");
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [titleGenerated, setTitleGenerated] = useState(false);
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
   const [filePreviews, setFilePreviews] = useState<Map<number, string>>(new Map());
+  const [tablePreviews, setTablePreviews] = useState<Map<File, TablePreview>>(new Map()); // Parsed CSV/XLSX attachments
+  const [openTableFile, setOpenTableFile] = useState<File | null>(null);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
   const [messageFilePreviews, setMessageFilePreviews] = useState<Map<string, Map<number, string>>>(new Map()); // Store previews by message index
-  const [userId, setUserId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null); // Signed-in Supabase user
+  const [chatOwnerId, setChatOwnerId] = useState<string | null>(null); // Owner for the chat store; LOCAL_USER_ID when signed out
   const [welcomeQuestions, setWelcomeQuestions] = useState<string[]>([]);
   const [loadingWelcomeQuestions, setLoadingWelcomeQuestions] = useState(false);
+  const { stats: datasetStats } = useDatasetStats();
   const [loadingInChatSuggestions, setLoadingInChatSuggestions] = useState(false); // Loading state for in-chat suggestions
-  const [processingSteps, setProcessingSteps] = useState<string[]>([]); // Processing steps from backend
+  const [openCitation, setOpenCitation] = useState<{ messageIndex: number; sourceIndex: number } | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [feedbackByMessage, setFeedbackByMessage] = useState<Record<string, MessageFeedback>>({});
+  const [pinsByMessage, setPinsByMessage] = useState<Record<string, PinSummary>>({});
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const { entities } = useEntityFetcher({ fallback: false });
+  const scrollTargetRef = useRef<string | null>(null); // Message to scroll to instead of the bottom
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const skipNextInitRef = useRef<boolean>(false);
+  const conversationContextRef = useRef<ConversationContext>(EMPTY_CONTEXT); // Rolling summary of older turns
+  const pendingCancelSaveRef = useRef<{ index: number; save: Promise<string | null> } | null>(null); // Save of the last stopped answer
+
+  // Slash command completion, or the entity picker while an @-mention is being typed
+  const mentionQuery = input.startsWith("/") ? null : trailingMentionQuery(input);
+  const composerSuggestions: ComposerSuggestion[] = input.startsWith("/")
+    ? slashSuggestions(input, { entities, productGroups: datasetStats?.productGroups || [] })
+    : mentionQuery
+    ? rankEntities(entities, mentionQuery.query)
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+        .map((entity) => ({ label: entity, description: "Entity", value: completeMention(input, entity) }))
+    : [];
+  const showSuggestions = composerSuggestions.length > 0 && !suggestionsDismissed;
 
   const fetchSuggestedQuestions = useCallback(async () => {
     try {
@@ -166,18 +277,14 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
           if (!error && summaries && summaries.length > 0) {
             // User has chat summaries - generate questions based on them
             logger.log('💡 ChatInterface: User has chat summaries, generating questions based on summaries');
-            const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000';
             const summaryText = summaries.map(s => s.summary).join('\n\n');
             
             try {
-              const response = await axios.post(`${backendUrl}/v1/generate-questions-from-summaries`, {
-                summaries: summaryText,
-                user_id: userId
-              });
+              const questions = await generateQuestionsFromSummaries(summaryText, userId);
               
-              if (response.data?.questions && Array.isArray(response.data.questions)) {
-                setWelcomeQuestions(response.data.questions.slice(0, 4));
-                logger.log('✅ ChatInterface: Generated welcome questions from summaries:', response.data.questions.slice(0, 4));
+              if (questions.length > 0) {
+                setWelcomeQuestions(questions.slice(0, 4));
+                logger.log('✅ ChatInterface: Generated welcome questions from summaries:', questions.slice(0, 4));
                 return;
               }
             } catch (summaryError) {
@@ -191,16 +298,13 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
       
       // Fallback: use generic questions if no summaries or error
       logger.log('💡 ChatInterface: Using generic welcome questions');
-      const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000';
-      const response = await axios.get(`${backendUrl}/v1/suggested-questions`);
-      
-      const questions = Array.isArray(response.data) ? response.data : (response.data?.questions || []);
+      const questions = await getSuggestedQuestions();
       
       if (questions.length > 0) {
         setWelcomeQuestions(questions.slice(0, 4));
         logger.log('✅ ChatInterface: Loaded welcome questions:', questions.slice(0, 4));
       } else {
-        logger.log('⚠️ ChatInterface: No suggested questions returned from API. Response:', response.data);
+        logger.log('⚠️ ChatInterface: No suggested questions returned from API');
         setWelcomeQuestions([
           "What are the top performing product groups by sales volume?",
           "Which entities have the highest sales in the most recent period?",
@@ -239,19 +343,33 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
              } else {
                // Reset state when switching conversations normally (e.g., clicking "New Chat")
                setMessages([]);
+               setMessageTree([]);
+               setFeedbackByMessage({});
+               setPinsByMessage({});
+               setSessionSettings(DEFAULT_SESSION_SETTINGS);
+               conversationContextRef.current = EMPTY_CONTEXT;
+               setEditingIndex(null);
                setSessionId(null);
                setTitleGenerated(false);
                setAttachedFiles([]);
+               setOpenCitation(null);
              }
                
                const user = await getCurrentUser();
-               if (user) {
-                 setUserId(user.id);
+               // Without a signed-in user the conversation is kept in this browser
+               const ownerId = user ? user.id : localChatAvailable() ? LOCAL_USER_ID : null;
+               if (ownerId) {
+                 setUserId(user ? user.id : null);
+                 setChatOwnerId(ownerId);
                  
                  // Create or update user profile
-                 await createOrUpdateProfile(user);
+                 if (user) await createOrUpdateProfile(user);
                  
                 if (conversationId && !conversationId.startsWith('temp_')) {
+                  getSessionSettings(conversationId).then(setSessionSettings);
+                  getConversationContext(conversationId).then(context => {
+                    if (context) conversationContextRef.current = context;
+                  });
                   logger.log('🔍 ChatInterface: Loading existing conversation:', conversationId);
                   logger.log('🔍 ChatInterface: conversationId type:', typeof conversationId);
                   logger.log('🔍 ChatInterface: conversationId length:', conversationId?.length);
@@ -262,40 +380,54 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
                   logger.log('📋 ChatInterface: Raw messages data:', dbMessages);
                    
                    if (dbMessages.length > 0) {
-                     const formattedMessages = dbMessages.map((msg: ChatMessage) => {
-                       // Check if message content indicates file attachments and extract file names
-                       let attachments = undefined;
+                     // Stored attachments get signed URLs so images show and files download again
+                     const attachmentUrls = await getAttachmentUrls(
+                       dbMessages.reduce<string[]>((paths, msg) => paths.concat((msg.attachments || []).map(a => a.path)), [])
+                     );
+                     const formattedMessages = dbMessages.map((msg: ChatMessage): TreeMessage => {
+                       // User messages carry attachment names inline; stored files add type and a download link
                        if (msg.role === 'user') {
-                         const fileMatch = msg.content.match(/\(file attached: (.+?)\)/);
-                         if (fileMatch) {
-                           // Extract file names from the stored message
-                           const fileNames = fileMatch[1].split(", ");
-                           attachments = fileNames.map(name => ({ name, type: "file" }));
-                           // Clean content to remove the file indicator for display
-                           const cleanContent = msg.content.replace(/\(file attached: .+?\)/g, '').trim();
+                         const { text, attachments: fileNames } = splitAttachmentNote(msg.content);
+                         if (text !== msg.content || (msg.attachments && msg.attachments.length > 0)) {
+                           const attachments = msg.attachments && msg.attachments.length > 0
+                             ? msg.attachments.map(a => ({ name: a.name, type: a.type, path: a.path, url: attachmentUrls[a.path] }))
+                             : fileNames.length > 0
+                               ? fileNames.map(name => ({ name, type: "file" }))
+                               : [{ name: "File attached", type: "file" }];
                            return {
+                             id: msg.id,
+                             parentId: msg.parent_id,
                              role: msg.role,
-                             content: cleanContent || "(file attached)",
-                             sources: msg.sources || undefined,
-                             attachments: attachments,
-                             isTyping: false
+                             content: text || "(file attached)",
+                             attachments,
+                             isTyping: false,
+                             cancelled: msg.cancelled || undefined
                            };
-                         } else if (msg.content === "(file attached)" || msg.content.includes("(file attached)")) {
-                           attachments = [{ name: "File attached", type: "file" }];
                          }
                        }
                        
                        return {
+                         id: msg.id,
+                         parentId: msg.parent_id,
                          role: msg.role,
                          content: msg.content,
                          sources: msg.sources || undefined,
-                         attachments: attachments,
-                         isTyping: false
+                         progressSteps: msg.progress_steps,
+                         isTyping: false,
+                         cancelled: msg.cancelled || undefined
                        };
                      });
                      logger.log('📝 ChatInterface: Formatted messages:', formattedMessages);
-                     setMessages(formattedMessages);
+                     // Show the branch the user last added to; the others stay reachable via "< 1/n >"
+                     setMessageTree(formattedMessages);
+                     setMessages(activeBranch(formattedMessages));
                      setSessionId(conversationId);
+                     const answerIds = formattedMessages.filter(msg => msg.role === 'assistant').map(msg => msg.id);
+                     // Feedback and pins live in Supabase only
+                     if (!isLocalSession(conversationId)) {
+                       getMessageFeedback(answerIds).then(setFeedbackByMessage);
+                       getPinsForMessages(answerIds).then(setPinsByMessage);
+                     }
                      logger.log('✅ ChatInterface: Set sessionId to:', conversationId);
                      logger.log('✅ ChatInterface: Set messages count:', formattedMessages.length);
                    } else {
@@ -328,17 +460,57 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
   // Note: Messages are now saved to Supabase in real-time via saveMessage function
 
   useEffect(() => {
+    const target = scrollTargetRef.current;
+    if (target) {
+      scrollTargetRef.current = null;
+      document.getElementById(`message-${target}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Jump to a message picked in search, switching to its branch if it is not on screen
+  useEffect(() => {
+    if (!focusMessageId) return;
+    const target = messageTree.find((msg) => msg.id === focusMessageId);
+    if (!target) return; // Not loaded yet; runs again when the tree arrives
+
+    if (messages.some((msg) => msg.id === focusMessageId)) {
+      document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    } else {
+      scrollTargetRef.current = focusMessageId;
+      setEditingIndex(null);
+      setOpenCitation(null);
+      setMessages(branchThrough(messageTree, target));
+    }
+    setHighlightedMessageId(focusMessageId);
+    onFocusHandled?.();
+  }, [focusMessageId, messageTree]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Mirror saved messages of the visible branch into the tree (new ids, suggestions, kept partial answers)
+  useEffect(() => {
+    const saved = messages.filter(isSaved);
+    if (saved.length === 0) return;
+    setMessageTree(prev => {
+      const next = mergeNodes(prev, saved);
+      return next.length === prev.length && next.every((node, i) => node === prev[i]) ? prev : next;
+    });
+  }, [messages]);
+
   const createSession = async () => {
-    if (!userId) {
+    if (!chatOwnerId) {
       logger.error('No user ID available for creating session');
       return;
     }
 
     try {
-      const newSessionId = await createChatSession(userId, 'New Chat');
+      const newSessionId = await createChatSession(chatOwnerId, 'New Chat');
       if (newSessionId) {
         setSessionId(newSessionId);
       }
@@ -348,9 +520,25 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
   };
 
 
-  const sendMessage = async (messageText?: string) => {
+  const sendMessage = async (
+    messageText?: string,
+    // regenerate: answer the last message of baseMessages again instead of adding a new question
+    options: { files?: File[]; baseMessages?: Message[]; regenerate?: boolean } = {}
+  ) => {
     const textToSend = messageText || input;
-    if ((!textToSend.trim() && attachedFiles.length === 0) || isLoading) return;
+    const filesToSend = options.files ?? attachedFiles;
+    // Retries, edits and regenerations send from the conversation as it was before that turn
+    const priorMessages = options.baseMessages ?? messages;
+    const regenerate = options.regenerate === true;
+    if ((!textToSend.trim() && filesToSend.length === 0) || isLoading) return;
+
+    // Malformed commands stay in the composer with a usage hint instead of reaching the backend
+    const slash = filesToSend.length === 0 && isSlashCommand(textToSend) ? parseSlashCommand(textToSend) : null;
+    if (slash?.error) {
+      setCommandError(slash.error);
+      return;
+    }
+    setCommandError(null);
 
     // Use the current session ID (should always exist now)
     let currentSessionId = conversationId || sessionId;
@@ -359,17 +547,21 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
     // Check if this is a temporary session (not saved to DB yet)
     if (currentSessionId && currentSessionId.startsWith('temp_')) {
       logger.log('🆕 ChatInterface: Temporary session detected, creating real session in DB...');
-      if (!userId) {
+      if (!chatOwnerId) {
         logger.error('No user ID available for creating session');
         return;
       }
       
       const tempId = currentSessionId;
       // Create a real session in the database
-      const realSessionId = await createChatSession(userId, 'New Chat');
+      const realSessionId = await createChatSession(chatOwnerId, 'New Chat');
       if (realSessionId) {
         currentSessionId = realSessionId;
         setSessionId(realSessionId);
+        // Settings chosen before the first message belong to the new session
+        if (changedSettingsCount(sessionSettings) > 0) {
+          updateSessionSettings(realSessionId, sessionSettings);
+        }
         // Notify parent component to update conversation list
         // Prevent initializeUser from wiping the UI on the upcoming conversation change
         skipNextInitRef.current = true;
@@ -383,45 +575,69 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
       }
     }
 
-    // Store file previews for this message before clearing
-    const messageIndex = messages.length;
-    const currentFilePreviews = new Map<number, string>();
-    attachedFiles.forEach((file, idx) => {
-      const preview = filePreviews.get(idx);
-      if (preview) {
-        currentFilePreviews.set(idx, preview);
-      }
-    });
-    setMessageFilePreviews(prev => new Map(prev).set(messageIndex.toString(), currentFilePreviews));
-    
-    const userMessage: Message = {
-      role: "user",
-      content: textToSend || "(file attached)",
-      attachments: attachedFiles.map((f, idx) => ({ 
-        name: f.name, 
-        type: f.type,
-        url: filePreviews.get(idx) || undefined // Store preview URL
-      })),
-    };
+    // New messages hang off the last saved message of the branch they were sent from
+    const branchParentId = priorMessages.filter(isSaved).slice(-1)[0]?.id ?? null;
+    const userMessageIndex = regenerate ? priorMessages.length - 1 : priorMessages.length;
+
+    if (!regenerate) {
+      // Store file previews for this message before clearing
+      const currentFilePreviews = new Map<number, string>();
+      attachedFiles.forEach((file, idx) => {
+        const preview = filePreviews.get(idx);
+        if (preview) {
+          currentFilePreviews.set(idx, preview);
+        }
+      });
+      setMessageFilePreviews(prev => new Map(prev).set(userMessageIndex.toString(), currentFilePreviews));
+
+      const userMessage: Message = {
+        role: "user",
+        content: textToSend || "(file attached)",
+        attachments: filesToSend.map((f, idx) => ({ 
+          name: f.name, 
+          type: f.type,
+          url: filePreviews.get(idx) || undefined // Store preview URL
+        })),
+      };
 
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
-    const filesToSend = attachedFiles;
-    setAttachedFiles([]);
-    setFilePreviews(new Map()); // Clear previews when sending
+      setMessages((prev) => [...prev, userMessage]);
+    }
+    // Edits and retries leave whatever is in the composer alone
+    if (!options.baseMessages) {
+      setInput("");
+      setAttachedFiles([]);
+      setFilePreviews(new Map()); // Clear previews when sending
+      setTablePreviews(new Map());
+      setOpenTableFile(null);
+      setAttachmentErrors([]);
+    }
     setIsLoading(true);
 
-    // Save user message to Supabase (include file indicator if files were attached)
-    if (currentSessionId) {
+    const markSaved = (index: number, id: string | null, parentId: string | null) => {
+      if (!id) return;
+      setMessages((prev) => prev.map((msg, i) => (i === index ? { ...msg, id, parentId } : msg)));
+    };
+
+    // Save user message to Supabase (include file indicator if files were attached).
+    // Deferred until the backend answers so failed turns are never persisted.
+    // Resolves to the id the answer should hang off.
+    const persistUserMessage = async (): Promise<string | null> => {
+      if (regenerate) return branchParentId;
+      if (!currentSessionId) return null;
       const messageContent = filesToSend.length > 0 
         ? `${textToSend || ""}${textToSend ? " " : ""}(file attached: ${filesToSend.map(f => f.name).join(", ")})`
         : textToSend || "(file attached)";
-      await saveMessage(currentSessionId, 'user', messageContent);
-    }
+      // Browser-local sessions keep only the file names
+      const attachments = filesToSend.length > 0 && !isLocalSession(currentSessionId)
+        ? await uploadAttachments(currentSessionId, filesToSend)
+        : [];
+      const id = await saveMessage(currentSessionId, 'user', messageContent, undefined, { parentId: branchParentId, attachments });
+      markSaved(userMessageIndex, id, branchParentId);
+      return id;
+    };
 
     // Create assistant message placeholder immediately to show progress
-    // Note: assistantMessageIndex should be messages.length + 1 (after user message is added)
-    const assistantMessageIndex = messages.length + 1; // +1 because user message was just added
+    const assistantMessageIndex = userMessageIndex + 1;
     const assistantMessage: Message = {
       role: "assistant",
       content: "",
@@ -433,111 +649,153 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
     };
     
     setMessages((prev) => [...prev, assistantMessage]);
-    
-    // Initialize processing steps with generic loading message
-    setProcessingSteps(['Connecting to backend...']);
+
+    const updateAssistantMessage = (update: (msg: Message) => Partial<Message>) => {
+      setMessages((prev) =>
+        prev.map((msg, i) =>
+          i === assistantMessageIndex && msg.role === "assistant" ? { ...msg, ...update(msg) } : msg
+        )
+      );
+    };
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let answer = '';
+    let sources: SourceCitation[] = [];
+    let timeline: TimelineStep[] = [];
+
+    // Each progress event starts a timed step on the answer's timeline
+    const beginStep = (step: ProgressStep) => {
+      timeline = startStep(timeline, step);
+      const progressSteps = timeline;
+      updateAssistantMessage(() => ({ progressSteps }));
+    };
 
     try {
-      // Show "analyzing" step while waiting for response
-      const analyzeTimer = setTimeout(() => {
-        setProcessingSteps(['Connecting to backend...', 'Analyzing your query...']);
-      }, 500);
-
-      // Prepare request with files if any
-      const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000';
-      let response;
-      if (filesToSend.length > 0) {
-        // Use FormData to send files
-        const formData = new FormData();
-        formData.append('message', textToSend || '');
-        formData.append('conversationHistory', JSON.stringify(messages.slice(-5).map(msg => ({
-          role: msg.role,
-          content: msg.content
-        }))));
+      if (slash?.command) {
+        // Slash commands call the report/summary endpoints directly and answer in Markdown
+        beginStep({ step: 'slash_command', message: `Running /${slash.command.name}` });
+        answer = await runSlashCommand(slash.command, { userId });
+        if (abortController.signal.aborted) {
+          throw new DOMException('Slash command cancelled', 'AbortError');
+        }
+      } else {
+        // Stream the answer through /api/chat as server-sent events
+        // A regenerated question is the last prior message; it is sent as the message, not as history
+        const historySource = regenerate ? priorMessages.slice(0, -1) : priorMessages;
+        // Recent turns go verbatim; older ones are folded into the session's rolling summary
+        const { history, context } = buildConversationHistory(
+          historySource.filter(msg => !msg.error),
+          conversationContextRef.current
+        );
+        if (context !== conversationContextRef.current) {
+          conversationContextRef.current = context;
+          if (currentSessionId && !currentSessionId.startsWith('temp_')) {
+            saveConversationContext(currentSessionId, context);
+          }
+        }
+        const conversationSummary = context.summary || undefined;
+        // @-mentions become structured entity filters; unknown ids are dropped once the list has loaded
+        const mentioned = extractMentions(textToSend)
+          .filter(entity => entities.length === 0 || entities.includes(entity));
+        const filters = mentioned.length > 0 ? { entity_ids: mentioned } : undefined;
+        let response: Response;
+        if (filesToSend.length > 0) {
+          // Use FormData to send files
+          const formData = new FormData();
+          formData.append('message', textToSend || '');
+          formData.append('conversationHistory', JSON.stringify(history));
+          if (conversationSummary) {
+            formData.append('conversationSummary', conversationSummary);
+          }
+          formData.append('settings', JSON.stringify(sessionSettings));
+          if (currentSessionId) {
+            formData.append('sessionId', currentSessionId);
+          }
+          if (filters) {
+            formData.append('filters', JSON.stringify(filters));
+          }
         
-        // Append all files
-        filesToSend.forEach((file) => {
-          formData.append('files', file);
-        });
+          // Append all files
+          filesToSend.forEach((file) => {
+            formData.append('files', file);
+          });
         
-        response = await axios.post(`${backendUrl}/v1/ask`, formData, {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-        });
-      } else {
-        // Regular JSON request for text-only messages
-        response = await axios.post(`${backendUrl}/v1/ask`, {
-          message: textToSend,
-          conversationHistory: messages.slice(-5) // Send last 5 messages for context
-        });
-      }
+          response = await fetch('/api/chat', {
+            method: 'POST',
+            headers: { 'Accept': 'text/event-stream' },
+            body: formData,
+            signal: abortController.signal,
+          });
+        } else {
+          // Regular JSON request for text-only messages
+          response = await fetch('/api/chat', {
+            method: 'POST',
+            headers: {
+              'Accept': 'text/event-stream',
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              message: textToSend,
+              conversationHistory: history,
+              conversationSummary,
+              filters,
+              settings: sessionSettings,
+              sessionId: currentSessionId,
+            }),
+            signal: abortController.signal,
+          });
+        }
 
-      // Clear the analyze timer since we got a response
-      clearTimeout(analyzeTimer);
+        if (!response.ok) {
+          throw await readApiError(response);
+        }
 
-      // Animate backend progress steps one by one
-      logger.log('📊 Full backend response:', response.data);
-      logger.log('📊 Backend progress steps:', response.data.progress_steps);
-      
-      if (response.data.progress_steps && Array.isArray(response.data.progress_steps) && response.data.progress_steps.length > 0) {
-        const backendSteps = response.data.progress_steps.map((step: any) => {
-          if (typeof step === 'string') {
-            return step;
+        if (response.body && (response.headers.get('content-type') || '').includes('text/event-stream')) {
+          for await (const event of readChatStream(response.body)) {
+            if (event.type === 'progress') {
+              beginStep(event.step);
+            } else if (event.type === 'token') {
+              answer += event.delta;
+              const content = answer;
+              updateAssistantMessage(() => ({ content }));
+            } else if (event.type === 'sources') {
+              sources = event.sources;
+              updateAssistantMessage(() => ({ sources }));
+            } else if (event.type === 'done') {
+              answer = event.answer || answer;
+            } else if (event.type === 'error') {
+              throw new ApiError(event.error.code, event.error.message, event.error.details);
+            }
           }
-          // Format backend step objects to user-friendly messages (text only, no icons)
-          const message = step.message || step.step || 'Processing...';
-          return message;
-        });
-        
-        logger.log('✨ Formatted processing steps:', backendSteps);
-        
-        // Animate steps appearing one by one with 150ms delay between each
-        setProcessingSteps([backendSteps[0]]);
-        for (let i = 1; i < backendSteps.length; i++) {
-          await new Promise(resolve => setTimeout(resolve, 150));
-          setProcessingSteps(prev => [...prev, backendSteps[i]]);
+        } else {
+          // Non-streaming fallback response from /api/chat
+          const data = await response.json();
+          answer = data.response || '';
+          sources = normalizeSources(data.sources);
+          timeline = timelineFromSteps((data.progressSteps || []).map(toProgressStep));
         }
-      } else {
-        // Fallback if no steps from backend
-        setProcessingSteps(['Processing complete']);
       }
 
-      // Update assistant message with response
-      // Find the assistant message that was just added (empty content, isTyping: true)
-      setMessages((prev) => {
-        // Find the last assistant message with empty content (the placeholder we just added)
-        const lastAssistantIndex = prev.length - 1;
-        if (lastAssistantIndex >= 0 && prev[lastAssistantIndex].role === "assistant" && prev[lastAssistantIndex].content === "") {
-          return prev.map((msg, i) => 
-            i === lastAssistantIndex 
-              ? {
-                  ...msg,
-                  content: response.data.answer,
-                  sources: response.data.sources || [],
-                  progressSteps: response.data.progress_steps || [],
-                  isTyping: true,
-                }
-              : msg
-          );
-        }
-        // Fallback: try to find by index
-        return prev.map((msg, i) => 
-          i === assistantMessageIndex && msg.role === "assistant"
-            ? {
-                ...msg,
-                content: response.data.answer,
-                sources: response.data.sources || [],
-                progressSteps: response.data.progress_steps || [],
-                isTyping: true,
-              }
-            : msg
-        );
-      });
+      timeline = finishTimeline(timeline, 'done');
+      logger.log('📊 Streamed answer complete:', answer.length, 'chars,', timeline.length, 'steps');
+
+      const progressSteps = timeline;
+      updateAssistantMessage(() => ({
+        content: answer,
+        sources,
+        progressSteps,
+        isTyping: false,
+      }));
       
-      // Save assistant message to Supabase
+      // Save both sides of the turn to Supabase
       if (currentSessionId) {
-        await saveMessage(currentSessionId, 'assistant', response.data.answer, response.data.sources);
+        const questionId = await persistUserMessage();
+        const answerId = await saveMessage(currentSessionId, 'assistant', answer, sources, {
+          parentId: questionId,
+          progressSteps,
+        });
+        markSaved(assistantMessageIndex, answerId, questionId);
       }
       
       // Generate title from first user message (only for new sessions)
@@ -550,60 +808,182 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
           generateTitle(textToSend, currentSessionId);
         }
       }
-    } catch (error) {
-      logger.error("Failed to send message:", error);
-      setProcessingSteps(prev => [...prev, 'Error occurred']);
-      
-      // Remove the placeholder assistant message if it exists
-      setMessages((prev) => {
-        const lastMsg = prev[prev.length - 1];
-        if (lastMsg && lastMsg.role === "assistant" && !lastMsg.content) {
-          return prev.slice(0, -1);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        logger.log('⏹️ ChatInterface: Request cancelled by user after', answer.length, 'chars');
+        const partialAnswer = answer;
+        const progressSteps = finishTimeline(timeline, 'cancelled');
+        updateAssistantMessage(() => ({
+          content: partialAnswer,
+          sources,
+          progressSteps,
+          isTyping: false,
+          cancelled: true,
+          cancelChoicePending: partialAnswer.length > 0,
+        }));
+        // Record the turn right away with whatever streamed in, so a reload or the next
+        // question never loses it; Keep/Discard only rewrites the saved content
+        if (currentSessionId) {
+          const sessionForSave = currentSessionId;
+          const save = (async () => {
+            const questionId = await persistUserMessage();
+            const answerId = await saveMessage(sessionForSave, 'assistant', partialAnswer, sources, {
+              cancelled: true,
+              parentId: questionId,
+              progressSteps,
+            });
+            markSaved(assistantMessageIndex, answerId, questionId);
+            return answerId;
+          })();
+          // Keep/Discard can be clicked while this is still uploading and saving
+          pendingCancelSaveRef.current = { index: assistantMessageIndex, save };
+          await save;
+        } else {
+          await persistUserMessage();
         }
-        return prev;
-      });
-      
-      const errorMessage: Message = {
-        role: "assistant",
-        content: "Sorry, I encountered an error. Please try again.",
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+        return;
+      }
+
+      logger.error("Failed to send message:", error);
+
+      // Turn the placeholder into an error bubble; it stays client-side only
+      const apiError = error instanceof ApiError ? error : toBackendError(error);
+      const progressSteps = finishTimeline(timeline, 'failed');
+      updateAssistantMessage(() => ({
+        content: '',
+        sources: undefined,
+        progressSteps,
+        isTyping: false,
+        error: apiError.toPayload(),
+        retry: { text: textToSend, files: filesToSend },
+      }));
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
-      // Clear processing steps after a short delay
-      setTimeout(() => {
-        setProcessingSteps([]);
-      }, 1000);
     }
   };
 
+  // Drop the failed turn and send the same question again; a question that was already saved is answered again instead
+  const retryMessage = (index: number) => {
+    const failed = messages[index];
+    if (!failed?.retry || isLoading) return;
+
+    const question = messages[index - 1];
+    const questionSaved = !!question && question.role === "user" && isSaved(question);
+    const baseMessages = messages.slice(0, questionSaved ? index : index - 1);
+    setMessages(baseMessages);
+    sendMessage(failed.retry.text, { files: failed.retry.files, baseMessages, regenerate: questionSaved });
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Keep or drop the partial answer of a stopped response; the turn is already saved as cancelled
+  const resolveCancelledMessage = async (index: number, keepPartial: boolean) => {
+    const target = messages[index];
+    if (!target || !target.cancelChoicePending) return;
+
+    const content = keepPartial ? target.content : '';
+    const sources = keepPartial ? target.sources : undefined;
+    setMessages(prev =>
+      prev.map((msg, i) =>
+        i === index ? { ...msg, content, sources, cancelChoicePending: false } : msg
+      )
+    );
+
+    if (keepPartial) return;
+    const currentSessionId = conversationId || sessionId;
+    // The stopped turn may still be saving; wait for its id so the discard reaches the stored row
+    const pending = pendingCancelSaveRef.current;
+    const id = target.id ?? (pending && pending.index === index ? await pending.save : null);
+    if (currentSessionId && id) {
+      await updateCancelledMessage(currentSessionId, id, '', undefined);
+    }
+  };
+
+  const startEditing = (index: number) => {
+    if (isLoading) return;
+    setEditingIndex(index);
+    setEditText(messages[index]?.content || "");
+  };
+
+  // Send the edited question as a sibling of the original; the old branch stays in the tree
+  const submitEdit = (index: number) => {
+    const text = editText.trim();
+    if (!text || isLoading) return;
+    setEditingIndex(null);
+    const baseMessages = messages.slice(0, index);
+    setMessages(baseMessages);
+    setOpenCitation(null);
+    sendMessage(text, { files: [], baseMessages });
+  };
+
+  // Ask the same question again; the new answer becomes a sibling of the old one
+  const regenerateAnswer = (index: number) => {
+    const question = messages[index - 1];
+    if (!question || question.role !== "user" || isLoading) return;
+    const baseMessages = messages.slice(0, index);
+    setMessages(baseMessages);
+    setOpenCitation(null);
+    sendMessage(question.content, { files: [], baseMessages, regenerate: true });
+  };
+
+  // Show the previous/next sibling of a message, continuing down its most recent replies
+  const switchBranch = (index: number, direction: -1 | 1) => {
+    const current = messages[index];
+    if (!current || !isSaved(current) || isLoading) return;
+    const { siblings, index: position } = siblingInfo(messageTree, current);
+    const target = siblings[position + direction];
+    if (!target) return;
+    setEditingIndex(null);
+    setOpenCitation(null);
+    setMessages([...messages.slice(0, index), ...latestDescendants(messageTree, target)]);
+  };
+
+  // Applies to the next question; saved with the session once it exists
+  const handleSettingsSave = async (next: SessionSettings) => {
+    setSessionSettings(next);
+    setIsSettingsOpen(false);
+    const currentSessionId = conversationId || sessionId;
+    if (currentSessionId && !currentSessionId.startsWith('temp_')) {
+      await updateSessionSettings(currentSessionId, next);
+    }
+  };
+
+  const handlePinChange = (messageId: string, pin: PinSummary | null) => {
+    setPinsByMessage(prev => {
+      const next = { ...prev };
+      if (pin) next[messageId] = pin;
+      else delete next[messageId];
+      return next;
+    });
+  };
+
+  const handleFeedbackChange = (messageId: string, feedback: MessageFeedback | null) => {
+    setFeedbackByMessage(prev => {
+      const next = { ...prev };
+      if (feedback) next[messageId] = feedback;
+      else delete next[messageId];
+      return next;
+    });
+  };
+
   const generateTitle = async (firstMessage: string, targetSessionId: string) => {
     try {
       logger.log('🏷️ ChatInterface: Generating title for message:', firstMessage.substring(0, 50) + '...');
       
       // Clean the message (remove file references for title generation)
-      let cleanMessage = firstMessage;
-      if (cleanMessage.includes("(file attached)")) {
-        cleanMessage = cleanMessage.replace(/\(file attached\)/g, '').trim();
-      }
-      // Remove file attachment indicators
-      cleanMessage = cleanMessage.replace(/\(file attached: .+?\)/g, '').trim();
+      const cleanMessage = splitAttachmentNote(firstMessage).text;
       
       // Use the dedicated title generation endpoint that bypasses RAG
-      const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000';
-      const response = await axios.post(`${backendUrl}/v1/generate-title`, {
-        message: cleanMessage
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      const generatedTitle = await generateSessionTitle(cleanMessage);
       
-      logger.log('🏷️ ChatInterface: AI title response:', response.data);
+      logger.log('🏷️ ChatInterface: AI title response:', generatedTitle);
       
-      if (response.data.title && onTitleGenerated) {
+      if (generatedTitle && onTitleGenerated) {
         // Clean up the title response (from /v1/generate-title endpoint)
-        let title = response.data.title.trim();
+        let title = generatedTitle.trim();
         
         // Remove "Title:" prefix (case-insensitive, with optional colon and whitespace)
         title = title.replace(/^title:\s*/i, '');
@@ -658,7 +1038,6 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
       setLoadingInChatSuggestions(true);
       logger.log('💡 ChatInterface: Fetching cached suggested questions...');
       
-      const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8000';
       const lastUserMessage = messages.filter(msg => msg.role === 'user').slice(-1)[0]?.content || '';
       const currentSessionId = conversationId || sessionId;
       
@@ -672,19 +1051,14 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
       
       // Try to get cached suggestions from database
       try {
-        const cachedResponse = await axios.get(`${backendUrl}/v1/get-cached-suggestions`, {
-          params: {
-            session_id: currentSessionId,
-            context_hash: contextHash
-          }
-        });
+        const cached = await getCachedSuggestions(currentSessionId, contextHash);
         
-        if (cachedResponse.data?.cached && cachedResponse.data.questions?.length > 0) {
+        if (cached.cached && cached.questions.length > 0) {
           logger.log('✅ ChatInterface: Using cached suggested questions from database');
           setMessages((prev) => 
             prev.map((msg, index) => 
               index === messages.length - 1 && msg.role === 'assistant'
-                ? { ...msg, suggestedQuestions: cachedResponse.data.questions.slice(0, 3) }
+                ? { ...msg, suggestedQuestions: cached.questions.slice(0, 3) }
                 : msg
             )
           );
@@ -696,13 +1070,7 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
       
       // If no cache, generate new questions
       logger.log('💡 ChatInterface: No cache found, generating new suggested questions...');
-      const url = lastUserMessage 
-        ? `${backendUrl}/v1/suggested-questions?user_message=${encodeURIComponent(lastUserMessage)}`
-        : `${backendUrl}/v1/suggested-questions`;
-      
-      const response = await axios.get(url);
-      
-      const questions = Array.isArray(response.data) ? response.data : (response.data?.questions || []);
+      const questions = await getSuggestedQuestions(lastUserMessage);
       
       if (questions.length > 0) {
         const questionsToStore = questions.slice(0, 3);
@@ -717,15 +1085,14 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
         );
         
         // Store in database for future use (only once per user message)
-        if (currentSessionId && userId) {
+        if (currentSessionId && userId && !isLocalSession(currentSessionId)) {
           try {
-            const formData = new FormData();
-            formData.append('session_id', currentSessionId);
-            formData.append('user_id', userId);
-            formData.append('questions', JSON.stringify(questionsToStore));
-            formData.append('context_hash', contextHash);
-            
-            await axios.post(`${backendUrl}/v1/store-suggestions`, formData);
+            await storeSuggestions({
+              sessionId: currentSessionId,
+              userId,
+              questions: questionsToStore,
+              contextHash
+            });
             logger.log('✅ ChatInterface: Stored suggested questions in database');
           } catch (storeError) {
             logger.warn('⚠️ ChatInterface: Failed to store suggestions:', storeError);
@@ -734,7 +1101,7 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
         
         logger.log('✅ ChatInterface: Added suggested questions to last message');
       } else {
-        logger.log('⚠️ ChatInterface: No suggested questions returned from API. Response:', response.data);
+        logger.log('⚠️ ChatInterface: No suggested questions returned from API');
       }
     } catch (error: any) {
       logger.error("❌ ChatInterface: Failed to generate suggested questions:", error);
@@ -744,7 +1111,33 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
     }
   };
 
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
+    setCommandError(null);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (showSuggestions) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSuggestionIndex((i) => (i + step + composerSuggestions.length) % composerSuggestions.length);
+        return;
+      }
+      // Enter completes unless the text is already a valid command (e.g. one without the optional months)
+      const completeCommand = isSlashCommand(input) && !!parseSlashCommand(input).command;
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && !completeCommand)) {
+        e.preventDefault();
+        handleInputChange(composerSuggestions[Math.min(suggestionIndex, composerSuggestions.length - 1)].value);
+        return;
+      }
+      if (e.key === "Escape") {
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       sendMessage();
@@ -752,7 +1145,10 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
+    // Same limits as /api/chat, so a bad file is refused here instead of failing the question
+    const { accepted: files, rejected } = screenAttachments(Array.from(e.target.files || []), attachedFiles);
+    e.target.value = ''; // Let the same file be picked again after removing it
+    setAttachmentErrors(rejected);
     setAttachedFiles((prev) => {
       const newFiles = [...prev, ...files];
       
@@ -764,6 +1160,14 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
       
       return newFiles;
     });
+    files.filter(isTableAttachment).forEach((file) => {
+      readTablePreview(file)
+        .then((preview) => setTablePreviews((prev) => new Map(prev).set(file, preview)))
+        .catch((error) => {
+          logger.error('❌ Could not parse attachment for preview:', file.name, error);
+          setAttachmentErrors((prev) => [...prev, `${file.name} could not be read for a preview`]);
+        });
+    });
   };
 
   const generateFilePreview = (file: File, index: number) => {
@@ -799,6 +1203,15 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
   };
 
   const removeFile = (index: number) => {
+    const removed = attachedFiles[index];
+    if (removed) {
+      setTablePreviews((prev) => {
+        const next = new Map(prev);
+        next.delete(removed);
+        return next;
+      });
+      if (removed === openTableFile) setOpenTableFile(null);
+    }
     // Clean up preview URL if it exists
     const preview = filePreviews.get(index);
     if (preview && preview.startsWith('data:')) {
@@ -832,7 +1245,7 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
 
   return (
     <div className="flex flex-col h-full">
-      <div className="flex items-center justify-center px-4 py-3 border-b border-gray-200 dark:border-slate-700 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
+      <div className="relative flex items-center justify-center px-4 py-3 border-b border-gray-200 dark:border-slate-700 bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
         <h2 className="text-lg font-zapfino">
           <ReactMarkdown 
             remarkPlugins={[remarkGfm]}
@@ -846,34 +1259,32 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
             {conversationTitle || "New chat"}
           </ReactMarkdown>
         </h2>
+        <div className="absolute right-4 flex items-center gap-1">
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="relative p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg"
+            title="Conversation settings"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            {changedSettingsCount(sessionSettings) > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-black dark:bg-white text-white dark:text-black text-[9px] leading-[14px] text-center">
+                {changedSettingsCount(sessionSettings)}
+              </span>
+            )}
+          </button>
+          {sessionId && messages.some(isSaved) && (
+            <>
+              {userId && !isLocalSession(sessionId) && <ShareButton sessionId={sessionId} userId={userId} />}
+              <ExportMenu sessionId={sessionId} title={conversationTitle} />
+            </>
+          )}
+        </div>
       </div>
       <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
         {messages.map((message, index) => (
-          <div key={index} className="group">
-            {/* Processing steps - show above the last assistant message when loading */}
-            {message.role === "assistant" && 
-             index === messages.length - 1 && 
-             processingSteps.length > 0 && (
-              <div className="mb-2 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
-                {processingSteps.map((step, stepIndex) => (
-                  <div 
-                    key={stepIndex} 
-                    className={`flex items-start gap-1.5 transition-all duration-200 ${
-                      stepIndex === processingSteps.length - 1 && isLoading
-                        ? 'text-blue-600 dark:text-blue-400' 
-                        : step.toLowerCase().includes('complete') 
-                        ? 'text-green-600 dark:text-green-400'
-                        : step.toLowerCase().includes('error')
-                        ? 'text-red-600 dark:text-red-400'
-                        : 'opacity-75'
-                    }`}
-                  >
-                    <span className={stepIndex === processingSteps.length - 1 && isLoading ? 'animate-pulse' : ''}>
-                      {step}
-                    </span>
-                  </div>
-                ))}
-              </div>
+          <div key={index} id={message.id ? `message-${message.id}` : undefined} className="group">
+            {message.role === "assistant" && message.progressSteps && (
+              <ProgressTimeline steps={message.progressSteps} live={message.isTyping} />
             )}
             <div
               className={`flex ${
@@ -881,9 +1292,13 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
               }`}
             >
               <div
-                className={`max-w-[75%] rounded-2xl px-4 py-2.5 font-caslon relative ${
+                className={`max-w-[75%] rounded-2xl px-4 py-2.5 font-caslon relative transition-shadow ${
+                  message.id && message.id === highlightedMessageId ? "ring-2 ring-yellow-400 ring-offset-2 dark:ring-offset-slate-900" : ""
+                } ${
                   message.role === "user"
                     ? "bg-black text-white"
+                    : message.error
+                    ? "bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-gray-900 dark:text-white"
                     : "bg-gray-200 dark:bg-slate-700 text-gray-900 dark:text-white"
                 }`}
               >
@@ -892,25 +1307,70 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
                   <CopyButton content={message.content} />
                 </div>
                 
-                {message.role === "assistant" && message.isTyping && message.content ? (
-                  <TypewriterText 
-                    text={message.content} 
-                    onComplete={() => {
-                      setMessages(prev => 
-                        prev.map((msg, i) => 
-                          i === index ? { ...msg, isTyping: false } : msg
-                        )
-                      );
-                    }}
-                  />
-                ) : message.role === "assistant" && message.content ? (
+                {message.role === "assistant" && message.content ? (
                   <div className="prose prose-sm max-w-none dark:prose-invert">
-                    <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                      {message.content}
-                    </ReactMarkdown>
+                    <AnswerMarkdown
+                      content={message.content}
+                      sources={message.sources}
+                      onCite={(sourceIndex) => setOpenCitation({ messageIndex: index, sourceIndex })}
+                      streaming={message.isTyping}
+                    />
+                    {message.isTyping && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-500/70 animate-pulse" />
+                    )}
+                  </div>
+                ) : message.role === "user" && editingIndex === index ? (
+                  <div className="w-72 max-w-full">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          submitEdit(index);
+                        } else if (e.key === "Escape") {
+                          setEditingIndex(null);
+                        }
+                      }}
+                      rows={3}
+                      autoFocus
+                      className="w-full bg-white/10 text-white text-sm rounded-lg p-2 resize-none focus:outline-none focus:ring-1 focus:ring-white/40"
+                    />
+                    <div className="mt-2 flex justify-end gap-2 text-xs">
+                      <button
+                        onClick={() => setEditingIndex(null)}
+                        className="px-2 py-1 rounded border border-white/30 hover:bg-white/10 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => submitEdit(index)}
+                        disabled={!editText.trim()}
+                        className="px-2 py-1 rounded bg-white text-black hover:bg-gray-200 transition-colors disabled:opacity-50"
+                      >
+                        Send
+                      </button>
+                    </div>
                   </div>
                 ) : message.role === "user" ? (
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  <MentionText text={message.content} />
+                ) : message.cancelled ? (
+                  <p className="text-sm italic opacity-75">Response cancelled</p>
+                ) : message.error ? (
+                  <div className="text-sm">
+                    <p className="font-semibold text-red-700 dark:text-red-400">{errorTitle(message.error)}</p>
+                    <p className="mt-1 opacity-80">{message.error.message}</p>
+                    {message.error.retryable && message.retry && (
+                      <button
+                        onClick={() => retryMessage(index)}
+                        disabled={isLoading}
+                        className="mt-2 inline-flex items-center gap-1.5 px-3 py-1 text-xs rounded-lg border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Retry
+                      </button>
+                    )}
+                  </div>
                 ) : (
                   // Assistant bubble placeholder: show subtle typing dots INSIDE the bubble
                   <div className="flex gap-1 py-0.5">
@@ -926,6 +1386,8 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
                       // Get preview from stored URL or message previews
                       const storedPreview = messageFilePreviews.get(index.toString())?.get(i);
                       const filePreview = file.url || storedPreview;
+                      // Signed Storage URL of a reloaded attachment
+                      const downloadUrl = file.url && /^https?:/.test(file.url) ? file.url : undefined;
                       const isImage = file.type?.startsWith('image/') || /\.(jpg|jpeg|png|gif|bmp|tiff)$/i.test(file.name);
                       const isPDF = file.type === 'application/pdf' || file.name?.endsWith('.pdf');
                       const isCSV = file.type === 'text/csv' || file.name?.endsWith('.csv');
@@ -934,13 +1396,17 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
                                      file.name?.endsWith('.xlsx') || file.name?.endsWith('.xls');
                       
                       return (
-                        <div
+                        <a
                           key={i}
-                          className="flex items-center gap-2 bg-white/10 dark:bg-white/5 px-3 py-2 rounded-lg text-xs"
+                          href={downloadUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`flex items-center gap-2 bg-white/10 dark:bg-white/5 px-3 py-2 rounded-lg text-xs ${downloadUrl ? "hover:bg-white/20" : "pointer-events-none"}`}
+                          title={downloadUrl ? `Open ${file.name}` : file.name}
                         >
                           {/* File Preview - same style as upload area */}
                           <div className="flex items-center gap-2 min-w-0">
-                            {isImage && filePreview && filePreview.startsWith('data:') ? (
+                            {isImage && filePreview && (filePreview.startsWith('data:') || filePreview === downloadUrl) ? (
                               <img
                                 src={filePreview}
                                 alt={file.name}
@@ -963,24 +1429,87 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
                             )}
                             <span className="max-w-[120px] truncate text-xs opacity-90">{file.name}</span>
                           </div>
-                        </div>
+                        </a>
                       );
                     })}
                   </div>
                 )}
                 
+                {message.role === "assistant" && message.cancelled && message.content && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-xs font-caslon italic opacity-75">
+                    <span>Stopped before the answer was complete</span>
+                    {message.cancelChoicePending && (
+                      <>
+                        <button
+                          onClick={() => resolveCancelledMessage(index, true)}
+                          className="not-italic px-2 py-0.5 rounded border border-gray-400 dark:border-slate-500 hover:bg-white/50 dark:hover:bg-slate-600 transition-colors"
+                        >
+                          Keep partial answer
+                        </button>
+                        <button
+                          onClick={() => resolveCancelledMessage(index, false)}
+                          className="not-italic px-2 py-0.5 rounded border border-gray-400 dark:border-slate-500 hover:bg-white/50 dark:hover:bg-slate-600 transition-colors"
+                        >
+                          Discard
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+
                 {message.sources && message.sources.length > 0 && (
-                  <CollapsibleSources sources={message.sources} />
+                  <CollapsibleSources
+                    sources={message.sources}
+                    onOpen={(sourceIndex) => setOpenCitation({ messageIndex: index, sourceIndex })}
+                  />
                 )}
               </div>
             </div>
 
+            <MessageActions
+              message={message}
+              branch={isSaved(message) ? siblingInfo(messageTree, message) : null}
+              disabled={isLoading || editingIndex !== null}
+              // Attachments are not kept after sending, so those turns cannot be re-sent
+              onEdit={message.role === "user" && !message.attachments?.length ? () => startEditing(index) : undefined}
+              onRegenerate={
+                message.role === "assistant" &&
+                !message.isTyping &&
+                !message.error &&
+                !message.cancelChoicePending &&
+                messages[index - 1]?.role === "user" &&
+                !messages[index - 1]?.attachments?.length
+                  ? () => regenerateAnswer(index)
+                  : undefined
+              }
+              onSwitch={(direction) => switchBranch(index, direction)}
+              answerActions={
+                message.role === "assistant" && isSaved(message) && userId && !isLocalSession(sessionId) && !message.isTyping && !message.cancelled ? (
+                  <>
+                    <AnswerFeedback
+                      key={message.id}
+                      messageId={message.id}
+                      userId={userId}
+                      feedback={feedbackByMessage[message.id]}
+                      onChange={handleFeedbackChange}
+                    />
+                    <PinButton
+                      messageId={message.id}
+                      userId={userId}
+                      pin={pinsByMessage[message.id]}
+                      onChange={handlePinChange}
+                    />
+                  </>
+                ) : undefined
+              }
+            />
+
             {message.role === "assistant" &&
               message.suggestedQuestions &&
               message.suggestedQuestions.length > 0 &&
               index === messages.length - 1 &&
               !isLoading &&
-              !message.isTyping && ( // Only show after typewriting animation finishes
+              !message.isTyping && ( // Only show after the answer finishes streaming
                 <div className="mt-3 space-y-2">
                   {message.suggestedQuestions.map((question, i) => (
                     <button
@@ -998,7 +1527,8 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
             {message.role === "assistant" &&
               index === messages.length - 1 &&
               !isLoading &&
-              !message.isTyping && // Only show after typewriting animation finishes
+              !message.isTyping && // Only show after the answer finishes streaming
+              !message.error &&
               conversationId && // Only show for existing sessions
               (!message.suggestedQuestions || message.suggestedQuestions.length === 0) && (
                 <div className="mt-3">
@@ -1036,6 +1566,27 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
       </div>
 
       <div className="border-t border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-4 py-3">
+        {attachmentErrors.length > 0 && (
+          <div className="mb-2 flex items-start justify-between gap-2 text-xs text-red-600 dark:text-red-400 font-body">
+            <ul className="space-y-0.5">
+              {attachmentErrors.map((error, i) => (
+                <li key={i}>{error}</li>
+              ))}
+            </ul>
+            <button onClick={() => setAttachmentErrors([])} className="flex-shrink-0 hover:text-red-800" title="Dismiss">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
+        {openTableFile && tablePreviews.get(openTableFile) && (
+          <AttachmentTablePreview
+            name={openTableFile.name}
+            preview={tablePreviews.get(openTableFile)!}
+            onClose={() => setOpenTableFile(null)}
+          />
+        )}
+
         {/* Attached Files Preview */}
         {attachedFiles.length > 0 && (
           <div className="mb-3 flex flex-wrap gap-2">
@@ -1080,6 +1631,15 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
                     )}
                     <span className="max-w-[150px] truncate">{file.name}</span>
                   </div>
+                  {tablePreviews.has(file) && (
+                    <button
+                      onClick={() => setOpenTableFile(openTableFile === file ? null : file)}
+                      className={`flex-shrink-0 transition-colors ${openTableFile === file ? "text-blue-600 dark:text-blue-400" : "hover:text-blue-600"}`}
+                      title="Preview table"
+                    >
+                      <Table2 className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={() => removeFile(index)}
                     className="ml-1 hover:text-red-500 transition-colors flex-shrink-0"
@@ -1125,6 +1685,12 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
               </div>
             ) : null}
 
+            {datasetStats && (
+              <p className="text-center text-xs text-gray-500 dark:text-gray-400 font-body mb-3">
+                Knowledge base: {datasetSummaryLine(datasetStats)}
+              </p>
+            )}
+
             {/* Normal input bar */}
             <div className="flex items-end gap-2">
               <button
@@ -1140,12 +1706,18 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
                 onChange={handleFileSelect}
                 multiple
                 className="hidden"
-                accept="image/*,.pdf,.doc,.docx,.txt,.csv,.xlsx"
+                accept={ATTACHMENT_ACCEPT}
               />
               <div className="flex-1 relative">
+                <ComposerSuggestions
+                  suggestions={showSuggestions ? composerSuggestions : []}
+                  activeIndex={suggestionIndex}
+                  onPick={(suggestion) => handleInputChange(suggestion.value)}
+                  error={commandError}
+                />
                 <textarea
                   value={input}
-                  onChange={(e) => setInput(e.target.value)}
+                  onChange={(e) => handleInputChange(e.target.value)}
                   onKeyDown={handleKeyPress}
                   placeholder="Ask me anything about retail transactions, sales performance, or entity analytics..."
                   rows={1}
@@ -1155,12 +1727,13 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
               </div>
 
               <button
-                onClick={() => sendMessage()}
-                disabled={(!input.trim() && attachedFiles.length === 0) || isLoading}
+                onClick={() => isLoading ? stopGeneration() : sendMessage()}
+                disabled={!isLoading && !input.trim() && attachedFiles.length === 0}
                 className="p-2.5 bg-black text-white rounded-full hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                title={isLoading ? "Stop generating" : "Send message"}
               >
                 {isLoading ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
+                  <Square className="w-5 h-5 fill-current" />
                 ) : (
                   <Send className="w-5 h-5" />
                 )}
@@ -1183,12 +1756,18 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
               onChange={handleFileSelect}
               multiple
               className="hidden"
-              accept="image/*,.pdf,.doc,.docx,.txt,.csv,.xlsx"
+              accept={ATTACHMENT_ACCEPT}
             />
             <div className="flex-1 relative">
+              <ComposerSuggestions
+                suggestions={showSuggestions ? composerSuggestions : []}
+                activeIndex={suggestionIndex}
+                onPick={(suggestion) => handleInputChange(suggestion.value)}
+                error={commandError}
+              />
               <textarea
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={(e) => handleInputChange(e.target.value)}
                 onKeyDown={handleKeyPress}
                 placeholder="Ask me about retail data, sales trends, or entity performance..."
                 rows={1}
@@ -1198,12 +1777,13 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
             </div>
 
             <button
-              onClick={() => sendMessage()}
-              disabled={(!input.trim() && attachedFiles.length === 0) || isLoading}
+              onClick={() => isLoading ? stopGeneration() : sendMessage()}
+              disabled={!isLoading && !input.trim() && attachedFiles.length === 0}
               className="p-2.5 bg-black text-white rounded-full hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              title={isLoading ? "Stop generating" : "Send message"}
             >
               {isLoading ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
+                <Square className="w-5 h-5 fill-current" />
               ) : (
                 <Send className="w-5 h-5" />
               )}
@@ -1211,6 +1791,21 @@ export default function ChatInterface({ onMenuClick, onTitleGenerated, onSession
           </div>
         )}
       </div>
+
+      <SessionSettingsDrawer
+        isOpen={isSettingsOpen}
+        settings={sessionSettings}
+        productGroups={datasetStats?.productGroups || []}
+        onSave={handleSettingsSave}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+
+      <CitationPanel
+        sources={openCitation ? messages[openCitation.messageIndex]?.sources || [] : []}
+        activeIndex={openCitation?.sourceIndex ?? null}
+        onSelect={(sourceIndex) => setOpenCitation(prev => prev ? { ...prev, sourceIndex } : prev)}
+        onClose={() => setOpenCitation(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,100 @@
+"use client";
+
+import { X, BookOpen } from "lucide-react";
+import type { SourceCitation } from "@/lib/citations";
+
+interface CitationPanelProps {
+  sources: SourceCitation[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+export default function CitationPanel({ sources, activeIndex, onSelect, onClose }: CitationPanelProps) {
+  const isOpen = activeIndex !== null && activeIndex < sources.length;
+  const source = isOpen ? sources[activeIndex] : null;
+
+  return (
+    <>
+      {/* Overlay */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 z-40 transition-opacity"
+          onClick={onClose}
+        />
+      )}
+
+      {/* Panel */}
+      <div
+        className={`fixed top-16 right-0 bottom-0 w-full sm:w-96 z-50 bg-white dark:bg-slate-900 border-l border-gray-200 dark:border-slate-700 shadow-2xl transition-transform duration-300 flex flex-col ${
+          isOpen ? "translate-x-0" : "translate-x-full"
+        }`}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center gap-2 font-caslon">
+            <BookOpen className="w-4 h-4" />
+            <span className="font-semibold">Source {activeIndex !== null ? activeIndex + 1 : ""}</span>
+            <span className="text-xs opacity-60">of {sources.length}</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {source && (
+          <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Document</p>
+              <p className="font-caslon text-sm break-words">{source.document}</p>
+            </div>
+            <div className="flex gap-6">
+              <div className="min-w-0">
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Chunk</p>
+                <p className="font-mono text-xs break-all">{source.chunk_id}</p>
+              </div>
+              {source.relevance_score !== null && (
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Relevance</p>
+                  <p className="font-mono text-xs">{source.relevance_score.toFixed(3)}</p>
+                </div>
+              )}
+            </div>
+            <div>
+              <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">Retrieved text</p>
+              {source.snippet ? (
+                <pre className="whitespace-pre-wrap text-sm font-caslon bg-gray-50 dark:bg-slate-800 rounded-lg p-3 border border-gray-200 dark:border-slate-700">
+                  {source.snippet}
+                </pre>
+              ) : (
+                <p className="text-sm italic opacity-60">The backend did not return the chunk text for this source.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Jump between sources of the same answer */}
+        {sources.length > 1 && (
+          <div className="flex flex-wrap gap-1.5 px-5 py-3 border-t border-gray-200 dark:border-slate-700">
+            {sources.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => onSelect(i)}
+                className={`w-7 h-7 text-xs rounded-full border transition-colors ${
+                  i === activeIndex
+                    ? "bg-black text-white border-black dark:bg-white dark:text-black dark:border-white"
+                    : "border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-800"
+                }`}
+              >
+                {i + 1}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+export interface ComposerSuggestion {
+  label: string;
+  description?: string;
+  /** Composer text after accepting the suggestion */
+  value: string;
+}
+
+interface ComposerSuggestionsProps {
+  suggestions: ComposerSuggestion[];
+  activeIndex: number;
+  onPick: (suggestion: ComposerSuggestion) => void;
+  error?: string | null;
+}
+
+// Autocomplete (slash commands, @-mentions) and usage errors, anchored above the composer
+export default function ComposerSuggestions({ suggestions, activeIndex, onPick, error }: ComposerSuggestionsProps) {
+  if (suggestions.length === 0 && !error) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-xl border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg overflow-hidden text-sm">
+      {error && (
+        <p className="px-4 py-2 text-red-600 dark:text-red-400 border-b border-gray-100 dark:border-slate-700 last:border-b-0">{error}</p>
+      )}
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion.value}
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(suggestion)}
+          className={`w-full flex items-center justify-between gap-4 px-4 py-2 text-left ${
+            index === activeIndex ? "bg-gray-100 dark:bg-slate-700" : "hover:bg-gray-50 dark:hover:bg-slate-700/60"
+          }`}
+        >
+          <span className="font-mono text-gray-900 dark:text-white truncate">{suggestion.label}</span>
+          {suggestion.description && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{suggestion.description}</span>
+          )}
+        </button>
+      ))}
+      {suggestions.length > 0 && (
+        <p className="px-4 py-1.5 text-[11px] text-gray-400 border-t border-gray-100 dark:border-slate-700">
+          Tab or ↵ to complete · Esc to dismiss
+        </p>
+      )}
+    </div>
+  );
+}
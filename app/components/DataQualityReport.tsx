@@ -0,0 +1,373 @@
+"use client";
+
+import { useRef, useState, type ReactNode } from "react";
+import { ShieldCheck, Upload, AlertTriangle, CheckCircle2, Loader2, Download, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { logger } from "@/lib/logger";
+import { readApiError } from "@/lib/api-errors";
+import { authHeaders } from "@/lib/supabase";
+import { TRANSACTION_COLUMNS, UPLOAD_EXTENSIONS, isSupportedUpload } from "@/lib/transaction-upload";
+import { qualityReportToCsv, type DataQualityReport as QualityReport } from "@/lib/data-quality";
+
+async function postQualityCheck(file: File): Promise<QualityReport> {
+  const formData = new FormData();
+  formData.append("action", "quality");
+  formData.append("file", file);
+
+  const response = await fetch("/api/data", { method: "POST", headers: await authHeaders(), body: formData });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response.json();
+}
+
+function downloadFile(content: string, type: string, filename: string) {
+  const url = window.URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+// Rows shown per section; the downloads contain everything the server returned
+const SHOWN_FINDINGS = 50;
+
+function Section({
+  title,
+  count,
+  description,
+  children,
+}: {
+  title: string;
+  count: number;
+  description: string;
+  children?: ReactNode;
+}) {
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 font-body">{title}</h4>
+        <span
+          className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+            count > 0
+              ? "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+              : "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+          }`}
+        >
+          {count > 0 ? count.toLocaleString() : "OK"}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 font-body">{description}</p>
+      {count > 0 && children && <div className="mt-3">{children}</div>}
+    </div>
+  );
+}
+
+function FindingsTable({ headers, rows }: { headers: string[]; rows: Array<Array<string | number>> }) {
+  return (
+    <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+      <table className="w-full text-xs">
+        <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+          <tr>
+            {headers.map((header) => (
+              <th key={header} className="text-left px-3 py-2">{header}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, SHOWN_FINDINGS).map((cells, i) => (
+            <tr key={i} className="border-t border-gray-100 dark:border-gray-700">
+              {cells.map((cell, j) => (
+                <td key={j} className="px-3 py-1.5 font-mono">{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length > SHOWN_FINDINGS && (
+        <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-100 dark:border-gray-700">
+          Showing {SHOWN_FINDINGS} of {rows.length.toLocaleString()}. Download the report for the full list.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function DataQualityReport() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<QualityReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    setError(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const selectFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    reset();
+
+    if (!isSupportedUpload(selected.name)) {
+      setError(`Only ${UPLOAD_EXTENSIONS.join(" and ")} files are supported.`);
+      return;
+    }
+
+    setFile(selected);
+    setIsAnalyzing(true);
+    try {
+      logger.log("🔍 [Quality] Analysing", selected.name);
+      const data = await postQualityCheck(selected);
+      setReport(data);
+      logger.log(`✅ [Quality] ${data.issueCount} findings in ${data.filename}`);
+    } catch (err: any) {
+      logger.error("❌ [Quality] Analysis failed:", err);
+      setError(err.message || "Failed to analyse the file");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const baseName = report ? report.filename.replace(/\.[^.]+$/, "") : "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-body flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Data Quality Check
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Drop zone */}
+        <div
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            selectFile(e.dataTransfer.files[0]);
+          }}
+          className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+            isDragging
+              ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+              : "border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500"
+          }`}
+        >
+          <Upload className="w-8 h-8 mx-auto mb-3 text-gray-400" />
+          <p className="font-body text-gray-700 dark:text-gray-300">
+            {file ? file.name : "Drop an extract here, or click to choose a file"}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 font-body">
+            CSV or XLSX with columns: {TRANSACTION_COLUMNS.join(", ")}. Nothing is uploaded to the knowledge base.
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={UPLOAD_EXTENSIONS.join(",")}
+            className="hidden"
+            onChange={(e) => selectFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {isAnalyzing && (
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 font-body">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Analysing {file?.name}...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Rows</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-gray-100">{report.totalRows.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Analysed</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-gray-100">{report.analyzedRows.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Findings</p>
+                <p className={`text-xl font-bold ${report.issueCount > 0 ? "text-amber-600" : "text-green-600"}`}>
+                  {report.issueCount.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Period</p>
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mt-1">
+                  {report.periodGaps.periodStart
+                    ? `${report.periodGaps.periodStart} → ${report.periodGaps.periodEnd}`
+                    : "—"}
+                </p>
+              </div>
+            </div>
+
+            {report.missingColumns.length > 0 && (
+              <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+                Missing required columns: <span className="font-mono">{report.missingColumns.join(", ")}</span>.
+                Checks that need them are skipped.
+              </div>
+            )}
+
+            {report.issueCount === 0 && report.missingColumns.length === 0 && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-300">
+                <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>No quality issues found in {report.filename}.</span>
+              </div>
+            )}
+
+            {report.truncated && (
+              <p className="text-xs text-amber-700 dark:text-amber-300 font-body">
+                Some checks found more issues than the report lists; counts are exact, lists are truncated.
+              </p>
+            )}
+
+            <div className="space-y-4">
+              <Section
+                title="Missing values"
+                count={report.missingValues.reduce((sum, stat) => sum + stat.count, 0)}
+                description="Empty cells per required column"
+              >
+                <FindingsTable
+                  headers={["Column", "Empty cells", "% of rows"]}
+                  rows={report.missingValues
+                    .filter((stat) => stat.count > 0)
+                    .map((stat) => [stat.column, stat.count.toLocaleString(), `${stat.percent}%`])}
+                />
+              </Section>
+
+              <Section
+                title="Duplicate rows"
+                count={report.duplicates.count}
+                description="Extra rows sharing the same entity_id, period_end and product_group_code"
+              >
+                <FindingsTable
+                  headers={["entity_id", "period_end", "product_group_code", "Rows"]}
+                  rows={report.duplicates.groups.map((group) => [
+                    group.entity_id,
+                    group.period_end,
+                    group.product_group_code,
+                    group.rows.join(", "),
+                  ])}
+                />
+              </Section>
+
+              <Section
+                title="Negative sales"
+                count={report.negativeSales.count}
+                description="Rows with sales_volume below zero"
+              >
+                <FindingsTable
+                  headers={["Row", "entity_id", "period_end", "product_group_code", "sales_volume"]}
+                  rows={report.negativeSales.rows.map((row) => [
+                    row.row,
+                    row.entity_id,
+                    row.period_end,
+                    row.product_group_code,
+                    row.sales_volume.toLocaleString(),
+                  ])}
+                />
+              </Section>
+
+              <Section
+                title="Sales outliers"
+                count={report.outliers.count}
+                description="sales_volume more than 3× the interquartile range outside its product group's quartiles"
+              >
+                <FindingsTable
+                  headers={["Row", "entity_id", "period_end", "product_group_code", "sales_volume"]}
+                  rows={report.outliers.rows.map((row) => [
+                    row.row,
+                    row.entity_id,
+                    row.period_end,
+                    row.product_group_code,
+                    row.sales_volume.toLocaleString(),
+                  ])}
+                />
+              </Section>
+
+              <Section
+                title="Inconsistent location counts"
+                count={report.inconsistentLocationCounts.count}
+                description="Entities whose location_count differs between periods"
+              >
+                <FindingsTable
+                  headers={["entity_id", "location_count values", "Periods"]}
+                  rows={report.inconsistentLocationCounts.entities.map((entity) => [
+                    entity.entity_id,
+                    entity.values.join(", "),
+                    entity.periods,
+                  ])}
+                />
+              </Section>
+
+              <Section
+                title="Period coverage gaps"
+                count={report.periodGaps.missingMonths.length + report.periodGaps.entitiesWithGaps}
+                description={`Months without rows between the first and last period_end (${report.periodGaps.expectedMonths} months expected), and entities missing months the rest of the file covers`}
+              >
+                <FindingsTable
+                  headers={["Scope", "Missing months"]}
+                  rows={[
+                    ...(report.periodGaps.missingMonths.length > 0
+                      ? [["Whole file", report.periodGaps.missingMonths.join(", ")]]
+                      : []),
+                    ...report.periodGaps.entities.map((entity) => [entity.entity_id, entity.missingMonths.join(", ")]),
+                  ]}
+                />
+              </Section>
+            </div>
+
+            <div className="flex items-center justify-end gap-3">
+              <Button
+                onClick={reset}
+                className="bg-white hover:bg-gray-100 text-gray-800 border border-gray-300 px-4 py-2 rounded-lg font-body"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Check another file
+              </Button>
+              <Button
+                onClick={() => downloadFile(qualityReportToCsv(report), "text/csv", `quality-${baseName}.csv`)}
+                className="bg-white hover:bg-gray-100 text-gray-800 border border-gray-300 px-4 py-2 rounded-lg font-body"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </Button>
+              <Button
+                onClick={() =>
+                  downloadFile(JSON.stringify(report, null, 2), "application/json", `quality-${baseName}.json`)
+                }
+                className="bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-lg font-body"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                JSON
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { Database, RefreshCw } from "lucide-react";
+import { useDatasetStats } from "@/lib/useDatasetStats";
+import { formatDatasetDate, formatIngestionTime } from "@/lib/dataset-stats";
+
+const formatCount = (value: number | null) => (value === null ? "—" : value.toLocaleString());
+
+export default function DatasetCard() {
+  const { stats, loading, error, refetch } = useDatasetStats();
+
+  const rows: Array<[string, string]> = stats
+    ? [
+        ["Rows", formatCount(stats.rows)],
+        ["Entities", formatCount(stats.entities)],
+        ["Product groups", stats.productGroups.length > 0 ? stats.productGroups.join(", ") : "—"],
+        ["Coverage (period_end)", `${formatDatasetDate(stats.periodStart)} – ${formatDatasetDate(stats.periodEnd)}`],
+        ["Last ingestion", formatIngestionTime(stats.lastIngestedAt)],
+        [
+          "Vector collection",
+          stats.vectorCollectionSize === null
+            ? "—"
+            : `${stats.vectorCollectionSize.toLocaleString()} chunks${stats.vectorCollectionName ? ` in ${stats.vectorCollectionName}` : ""}`,
+        ],
+      ]
+    : [];
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-gray-200 dark:border-slate-700 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Database className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 font-body">Dataset</h3>
+        </div>
+        <button
+          onClick={refetch}
+          disabled={loading}
+          className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {loading && !stats ? (
+        <div className="space-y-3">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-5 bg-gray-200 dark:bg-slate-700 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : error && !stats ? (
+        <p className="text-sm text-red-600 dark:text-red-400 font-body">{error}</p>
+      ) : (
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+          {rows.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{label}</dt>
+              <dd className="text-sm font-medium text-gray-900 dark:text-gray-100 font-body">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
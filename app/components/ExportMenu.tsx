@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { logger } from "@/lib/logger";
+import { exportConversation, type ExportFormat } from "@/lib/conversation-export";
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: "markdown", label: "Markdown", hint: ".md for memos and docs" },
+  { format: "pdf", label: "PDF", hint: "Printable document" },
+  { format: "json", label: "JSON", hint: "Full history, re-importable" },
+];
+
+interface ExportMenuProps {
+  sessionId: string;
+  title?: string;
+  /** "light" for dark backgrounds such as the sidebar */
+  variant?: "default" | "light";
+  /** Which way the menu opens from the button */
+  align?: "left" | "right";
+}
+
+export default function ExportMenu({ sessionId, title, variant = "default", align = "right" }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await exportConversation(sessionId, format, title);
+      setIsOpen(false);
+    } catch (error: any) {
+      logger.error("❌ Conversation export failed:", error);
+      alert(error?.message || "Failed to export conversation. Please try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(!isOpen);
+        }}
+        className={
+          variant === "light"
+            ? "p-1.5 text-white/60 hover:text-white hover:bg-white/20 rounded-lg"
+            : "p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg"
+        }
+        title="Export conversation"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute ${align === "right" ? "right-0" : "left-0"} mt-1 w-52 z-50 rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg py-1`}
+        >
+          {FORMAT_OPTIONS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleExport(format);
+              }}
+              disabled={exporting !== null}
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-50"
+            >
+              <span>
+                <span className="block font-medium">{label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{hint}</span>
+              </span>
+              {exporting === format && <Loader2 className="w-4 h-4 animate-spin" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
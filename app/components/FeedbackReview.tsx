@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2, ThumbsDown } from "lucide-react";
+import { logger } from "@/lib/logger";
+import {
+  feedbackReasonLabel,
+  getFeedbackForReview,
+  isFeedbackAnalyst,
+  setFeedbackReviewStatus,
+  type FeedbackReviewItem,
+  type FeedbackReviewStatus,
+} from "@/lib/message-feedback";
+
+const STATUS_OPTIONS: { value: FeedbackReviewStatus | null; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: null, label: "All" },
+];
+
+// Collapsed answers show this many characters
+const ANSWER_PREVIEW_LENGTH = 400;
+
+interface FeedbackReviewProps {
+  userId: string | null;
+}
+
+// Thumbs-down answers with their questions, reasons and comments, for analysts to triage
+export default function FeedbackReview({ userId }: FeedbackReviewProps) {
+  const [status, setStatus] = useState<FeedbackReviewStatus | null>("open");
+  const [items, setItems] = useState<FeedbackReviewItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAnalyst, setIsAnalyst] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    isFeedbackAnalyst().then(setIsAnalyst);
+  }, []);
+
+  useEffect(() => {
+    let stale = false;
+    setIsLoading(true);
+    getFeedbackForReview(status)
+      .then((found) => {
+        if (stale) return;
+        setItems(found);
+        setError(null);
+      })
+      .catch((err: any) => {
+        if (stale) return;
+        setError(err.message || "Could not load feedback");
+      })
+      .finally(() => {
+        if (!stale) setIsLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [status]);
+
+  const updateStatus = async (item: FeedbackReviewItem, next: FeedbackReviewStatus) => {
+    try {
+      await setFeedbackReviewStatus(item.feedback_id, next);
+      setItems((current) =>
+        status === null
+          ? current.map((i) => (i.feedback_id === item.feedback_id ? { ...i, review_status: next } : i))
+          : current.filter((i) => i.feedback_id !== item.feedback_id)
+      );
+    } catch (err: any) {
+      logger.error("❌ FeedbackReview: status update failed:", err);
+      alert(err.message || "Could not update feedback");
+    }
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex rounded-lg bg-gray-100 dark:bg-gray-800 p-0.5 text-sm">
+          {STATUS_OPTIONS.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setStatus(option.value)}
+              className={`px-3 py-1 rounded-md font-body ${
+                status === option.value
+                  ? "bg-white dark:bg-gray-700 shadow-sm font-medium text-gray-900 dark:text-white"
+                  : "text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {!isAnalyst && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 font-body">
+            Showing your own feedback. Analysts see everyone&apos;s and can mark items resolved.
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400 font-body py-8">
+          <Loader2 className="w-4 h-4 animate-spin" /> Loading feedback…
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400 font-body">{error}</p>
+      ) : items.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 font-body py-8">No poorly rated answers here.</p>
+      ) : (
+        items.map((item) => {
+          const isExpanded = expanded.has(item.feedback_id);
+          const answer =
+            isExpanded || item.answer.length <= ANSWER_PREVIEW_LENGTH
+              ? item.answer
+              : `${item.answer.slice(0, ANSWER_PREVIEW_LENGTH)}…`;
+          return (
+            <div
+              key={item.feedback_id}
+              className="rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-5 font-body"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-xs text-gray-500 dark:text-gray-400">
+                <span className="flex items-center gap-1.5">
+                  <ThumbsDown className="w-3.5 h-3.5 text-red-500" />
+                  {new Date(item.updated_at).toLocaleString()}
+                  {item.review_status === "resolved" && (
+                    <span className="ml-1 px-1.5 py-0.5 rounded bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">Resolved</span>
+                  )}
+                </span>
+                <span className="flex items-center gap-3">
+                  {item.user_id === userId && (
+                    <Link
+                      href={`/chat?session=${item.session_id}&message=${item.message_id}`}
+                      className="underline hover:text-gray-900 dark:hover:text-white"
+                    >
+                      Open conversation
+                    </Link>
+                  )}
+                  {isAnalyst && (
+                    <button
+                      onClick={() => updateStatus(item, item.review_status === "open" ? "resolved" : "open")}
+                      className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200"
+                    >
+                      {item.review_status === "open" ? "Mark resolved" : "Reopen"}
+                    </button>
+                  )}
+                </span>
+              </div>
+
+              <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">Question</p>
+              <p className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap mb-3">
+                {item.question || <span className="italic text-gray-500">Not saved</span>}
+              </p>
+
+              <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">Answer</p>
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{answer}</p>
+              {item.answer.length > ANSWER_PREVIEW_LENGTH && (
+                <button
+                  onClick={() => toggleExpanded(item.feedback_id)}
+                  className="mt-1 text-xs underline text-gray-500 hover:text-gray-900 dark:hover:text-white"
+                >
+                  {isExpanded ? "Show less" : "Show full answer"}
+                </button>
+              )}
+
+              {(item.reasons.length > 0 || item.comment) && (
+                <div className="mt-4 pt-3 border-t border-gray-100 dark:border-gray-700 space-y-2">
+                  {item.reasons.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {item.reasons.map((reason) => (
+                        <span
+                          key={reason}
+                          className="px-2 py-0.5 rounded-full text-xs bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                        >
+                          {feedbackReasonLabel(reason)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {item.comment && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 italic">“{item.comment}”</p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { HardDriveUpload, Loader2, X } from "lucide-react";
+import { LOCAL_USER_ID } from "@/lib/chat-store";
+import { getUserSessions, migrateLocalSessions, type LocalMigrationResult } from "@/lib/supabase-chat";
+
+interface LocalSessionsBannerProps {
+  /** The signed-in Supabase user; nothing is shown while signed out */
+  userId: string | null;
+  onMigrated: (result: LocalMigrationResult) => void;
+}
+
+// Offers signed-in users to move conversations saved in this browser into their account
+export default function LocalSessionsBanner({ userId, onMigrated }: LocalSessionsBannerProps) {
+  const [localCount, setLocalCount] = useState(0);
+  const [migrating, setMigrating] = useState(false);
+  const [failed, setFailed] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    getUserSessions(LOCAL_USER_ID).then((sessions) => setLocalCount(sessions.length));
+  }, [userId]);
+
+  if (!userId || localCount === 0 || dismissed) return null;
+
+  const migrate = async () => {
+    setMigrating(true);
+    const result = await migrateLocalSessions(userId);
+    setMigrating(false);
+    setFailed(result.failed);
+    setLocalCount(result.failed);
+    onMigrated(result);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-sm font-body text-amber-900 dark:text-amber-200">
+      <div className="flex items-center gap-2 min-w-0">
+        <HardDriveUpload className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate">
+          {failed > 0
+            ? `${failed} conversation${failed === 1 ? "" : "s"} could not be moved. They are still in this browser.`
+            : `${localCount} conversation${localCount === 1 ? " is" : "s are"} saved only in this browser.`}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <button
+          onClick={migrate}
+          disabled={migrating}
+          className="flex items-center gap-1.5 px-3 py-1 rounded-lg bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200 disabled:opacity-50"
+        >
+          {migrating && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          {failed > 0 ? "Try again" : "Move to my account"}
+        </button>
+        <button onClick={() => setDismissed(true)} className="p-1 rounded hover:bg-amber-100 dark:hover:bg-amber-900/40" title="Not now">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { BookOpen, ChevronDown, ChevronUp } from "lucide-react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { citationIndexFromHref, linkCitationMarkers, type SourceCitation } from "@/lib/citations";
+import { CHART_FENCE_LANGUAGE } from "@/lib/chart-spec";
+import { mentionSegments } from "@/lib/entity-mentions";
+import ChatChart from "./ChatChart";
+
+// Message bodies shared by the chat and the read-only shared conversation view
+
+export function CollapsibleSources({ sources, onOpen }: { sources: SourceCitation[]; onOpen: (index: number) => void }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!sources || sources.length === 0) return null;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-white/20 dark:border-slate-600">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-2 text-xs font-caslon italic opacity-75 hover:opacity-100 transition-opacity w-full"
+      >
+        <BookOpen className="w-3.5 h-3.5" />
+        <span>Sources ({sources.length})</span>
+        {isExpanded ? <ChevronUp className="w-3.5 h-3.5 ml-auto" /> : <ChevronDown className="w-3.5 h-3.5 ml-auto" />}
+      </button>
+      
+      <div className={`overflow-hidden transition-all duration-300 ease-out ${isExpanded ? 'max-h-96 opacity-100 mt-2' : 'max-h-0 opacity-0'}`}>
+        <div className="space-y-1">
+          {sources.map((source, i) => (
+            <button
+              key={source.chunk_id + i}
+              onClick={() => onOpen(i)}
+              className="block w-full text-left text-xs font-caslon italic opacity-75 hover:opacity-100 pl-1 truncate"
+            >
+              [{i + 1}] {source.document}
+              {source.relevance_score !== null && (
+                <span className="not-italic font-mono opacity-60"> · {source.relevance_score.toFixed(2)}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Source of a ```chart fence, read from the hast node react-markdown passes to `pre`
+function chartFenceSource(node: any): string | null {
+  const code = node?.children?.[0];
+  if (!code || code.tagName !== "code") return null;
+  const className = code.properties?.className;
+  const classes: string[] = Array.isArray(className) ? className.map(String) : [];
+  if (!classes.includes(`language-${CHART_FENCE_LANGUAGE}`)) return null;
+  return (code.children || []).map((child: any) => (child.type === "text" ? child.value : "")).join("");
+}
+
+// Markdown answer with [n] markers rendered as clickable citation badges
+export function AnswerMarkdown({ content, sources, onCite, streaming }: {
+  content: string;
+  sources?: SourceCitation[];
+  onCite: (index: number) => void;
+  streaming?: boolean;
+}) {
+  const count = sources?.length || 0;
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        pre: ({ node, children }) => {
+          const chartSource = chartFenceSource(node);
+          if (chartSource !== null) {
+            return <ChatChart source={chartSource} streaming={streaming} />;
+          }
+          return <pre>{children}</pre>;
+        },
+        a: ({ href, children }) => {
+          const citationIndex = citationIndexFromHref(href);
+          if (citationIndex === null) {
+            return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+          }
+          return (
+            <sup>
+              <button
+                onClick={() => onCite(citationIndex)}
+                className="mx-0.5 px-1 rounded bg-black/10 dark:bg-white/15 text-[10px] font-mono no-underline hover:bg-black/20 dark:hover:bg-white/25"
+                title={sources?.[citationIndex]?.document}
+              >
+                {citationIndex + 1}
+              </button>
+            </sup>
+          );
+        },
+      }}
+    >
+      {linkCitationMarkers(content, count)}
+    </ReactMarkdown>
+  );
+}
+
+// Question text with @-mentions rendered as chips; linked chips open the entity's report
+export function MentionText({ text, linked = true }: { text: string; linked?: boolean }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {mentionSegments(text).map((segment, i) =>
+        segment.type === "mention" && !linked ? (
+          <span key={i} className="inline-flex items-center px-1.5 rounded-md bg-white/20 font-mono text-xs align-baseline">
+            @{segment.entity}
+          </span>
+        ) : segment.type === "mention" ? (
+          <Link
+            key={i}
+            href={`/reports?entity=${encodeURIComponent(segment.entity)}`}
+            className="inline-flex items-center px-1.5 rounded-md bg-white/20 hover:bg-white/30 font-mono text-xs align-baseline transition-colors"
+            title={`Open the report for ${segment.entity}`}
+          >
+            @{segment.entity}
+          </Link>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowDown, ArrowUp, Download, Loader2, Pencil, PinOff } from "lucide-react";
+import {
+  exportNotebook,
+  getNotebookPins,
+  parseTags,
+  swapPinPositions,
+  unpin,
+  updatePin,
+  type NotebookPin,
+} from "@/lib/notebook";
+import { AnswerMarkdown, CollapsibleSources } from "./MessageContent";
+import CitationPanel from "./CitationPanel";
+
+// Pinned answers from every session, in the user's order
+export default function NotebookView({ userId }: { userId: string | null }) {
+  const [pins, setPins] = useState<NotebookPin[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editNote, setEditNote] = useState("");
+  const [editTags, setEditTags] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [openCitation, setOpenCitation] = useState<{ pinId: string; sourceIndex: number } | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    setLoading(true);
+    getNotebookPins(userId)
+      .then(setPins)
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const allTags = Array.from(new Set(pins.reduce<string[]>((tags, pin) => tags.concat(pin.tags), []))).sort();
+  const visiblePins = tagFilter ? pins.filter((pin) => pin.tags.includes(tagFilter)) : pins;
+
+  const move = async (pin: NotebookPin, direction: -1 | 1) => {
+    const index = visiblePins.indexOf(pin);
+    const neighbour = visiblePins[index + direction];
+    if (!neighbour) return;
+    setBusyId(pin.id);
+    if (await swapPinPositions(pin, neighbour)) {
+      setPins((current) =>
+        current
+          .map((p) =>
+            p.id === pin.id ? { ...p, position: neighbour.position } : p.id === neighbour.id ? { ...p, position: pin.position } : p
+          )
+          .sort((a, b) => a.position - b.position)
+      );
+    }
+    setBusyId(null);
+  };
+
+  const startEditing = (pin: NotebookPin) => {
+    setEditingId(pin.id);
+    setEditNote(pin.note || "");
+    setEditTags(pin.tags.join(", "));
+  };
+
+  const saveEdit = async (pin: NotebookPin) => {
+    const annotation = { note: editNote, tags: parseTags(editTags) };
+    setBusyId(pin.id);
+    if (await updatePin(pin.id, annotation)) {
+      setPins((current) =>
+        current.map((p) => (p.id === pin.id ? { ...p, note: editNote.trim() || null, tags: annotation.tags } : p))
+      );
+      setEditingId(null);
+    }
+    setBusyId(null);
+  };
+
+  const remove = async (pin: NotebookPin) => {
+    setBusyId(pin.id);
+    if (await unpin(pin.id)) {
+      setPins((current) => current.filter((p) => p.id !== pin.id));
+    }
+    setBusyId(null);
+  };
+
+  const citedPin = openCitation ? pins.find((pin) => pin.id === openCitation.pinId) : undefined;
+
+  const iconButtonClass =
+    "p-1.5 rounded-lg text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-1.5">
+          {allTags.length > 0 && (
+            <button
+              onClick={() => setTagFilter(null)}
+              className={`px-2.5 py-1 rounded-full text-xs font-body border ${
+                tagFilter === null ? "bg-black text-white border-black dark:bg-white dark:text-black" : "border-gray-300 dark:border-slate-600"
+              }`}
+            >
+              All
+            </button>
+          )}
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              className={`px-2.5 py-1 rounded-full text-xs font-body border ${
+                tagFilter === tag ? "bg-black text-white border-black dark:bg-white dark:text-black" : "border-gray-300 dark:border-slate-600"
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => exportNotebook(visiblePins)}
+          disabled={visiblePins.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-900 text-white text-sm font-body disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" /> Export Markdown
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400 font-body py-8">
+          <Loader2 className="w-4 h-4 animate-spin" /> Loading notebook…
+        </div>
+      ) : visiblePins.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 font-body py-8">
+          Nothing pinned yet. Use the pin button under any answer in the chat to collect it here.
+        </p>
+      ) : (
+        visiblePins.map((pin, index) => (
+          <div
+            key={pin.id}
+            className="rounded-2xl border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-5 shadow-sm"
+          >
+            <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-gray-900 dark:text-white font-body truncate">
+                  {pin.session_title || "Untitled chat"}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 font-body">
+                  Answered {new Date(pin.answered_at).toLocaleString()} ·{" "}
+                  <Link
+                    href={`/chat?session=${pin.session_id}&message=${pin.message_id}`}
+                    className="underline hover:text-gray-900 dark:hover:text-white"
+                  >
+                    Open conversation
+                  </Link>
+                </p>
+              </div>
+              <div className="flex items-center gap-0.5">
+                <button onClick={() => move(pin, -1)} disabled={busyId !== null || index === 0} className={iconButtonClass} title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => move(pin, 1)}
+                  disabled={busyId !== null || index === visiblePins.length - 1}
+                  className={iconButtonClass}
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button onClick={() => startEditing(pin)} disabled={busyId !== null} className={iconButtonClass} title="Edit note and tags">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => remove(pin)} disabled={busyId !== null} className={iconButtonClass} title="Unpin">
+                  <PinOff className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {editingId === pin.id ? (
+              <div className="mb-3 space-y-2">
+                <textarea
+                  value={editNote}
+                  onChange={(e) => setEditNote(e.target.value)}
+                  placeholder="Note"
+                  rows={3}
+                  className="w-full rounded-lg border border-gray-300 dark:border-slate-600 bg-transparent px-3 py-2 text-sm font-body text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-gray-400"
+                />
+                <input
+                  value={editTags}
+                  onChange={(e) => setEditTags(e.target.value)}
+                  placeholder="Tags, comma separated"
+                  className="w-full rounded-lg border border-gray-300 dark:border-slate-600 bg-transparent px-3 py-2 text-sm font-body text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-gray-400"
+                />
+                <div className="flex justify-end gap-2 text-sm">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 rounded-lg border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => saveEdit(pin)}
+                    disabled={busyId === pin.id}
+                    className="px-3 py-1 rounded-lg bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              (pin.note || pin.tags.length > 0) && (
+                <div className="mb-3 space-y-1.5">
+                  {pin.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {pin.tags.map((tag) => (
+                        <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200">
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {pin.note && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 font-body whitespace-pre-wrap border-l-2 border-gray-300 dark:border-slate-500 pl-3">
+                      {pin.note}
+                    </p>
+                  )}
+                </div>
+              )
+            )}
+
+            {pin.question && (
+              <p className="mb-2 text-sm font-caslon italic text-gray-600 dark:text-gray-400">“{pin.question}”</p>
+            )}
+            <div className="prose prose-sm max-w-none dark:prose-invert font-caslon">
+              <AnswerMarkdown
+                content={pin.answer}
+                sources={pin.sources}
+                onCite={(sourceIndex) => setOpenCitation({ pinId: pin.id, sourceIndex })}
+              />
+            </div>
+            {pin.sources.length > 0 && (
+              <CollapsibleSources
+                sources={pin.sources}
+                onOpen={(sourceIndex) => setOpenCitation({ pinId: pin.id, sourceIndex })}
+              />
+            )}
+          </div>
+        ))
+      )}
+
+      <CitationPanel
+        sources={citedPin?.sources || []}
+        activeIndex={openCitation?.sourceIndex ?? null}
+        onSelect={(sourceIndex) => setOpenCitation((current) => (current ? { ...current, sourceIndex } : current))}
+        onClose={() => setOpenCitation(null)}
+      />
+    </div>
+  );
+}
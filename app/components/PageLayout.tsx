@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { logger } from "@/lib/logger";
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import TopNav from './TopNav';
+import Sidebar from './Sidebar';
+import { supabase } from '@/lib/supabase';
+import { getUserSessions, type ChatSession } from '@/lib/supabase-chat';
+import { useUser } from '@/app/contexts/UserContext';
+
+interface PageLayoutProps {
+  title: string;
+  description: string;
+  currentPage: string;
+  // Shows a fixed Back button to this route when set
+  backHref?: string;
+  children: React.ReactNode;
+}
+
+// Top nav, sidebar and page heading shared by the report and notebook pages
+export default function PageLayout({ title, description, currentPage, backHref, children }: PageLayoutProps) {
+  const router = useRouter();
+  const { userEmail: contextUserEmail, avatarUrl: contextAvatarUrl, userId: contextUserId } = useUser();
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [conversations, setConversations] = useState<Array<{id: string, title: string, timestamp: string}>>([]);
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
+
+  // Load conversations for the sidebar
+  useEffect(() => {
+    const loadConversations = async () => {
+      try {
+        if (supabase && contextUserId) {
+          const dbSessions = await getUserSessions(contextUserId);
+          const formattedConversations = dbSessions.map((session: ChatSession) => ({
+            id: session.id,
+            title: session.title && session.title.trim() !== '' ? session.title : 'New Chat',
+            timestamp: new Date(session.created_at).toLocaleString(),
+          }));
+          setConversations(formattedConversations);
+          if (formattedConversations.length > 0) {
+            setSelectedConversationId(formattedConversations[0].id);
+          }
+        }
+      } catch (error) {
+        logger.error('Error loading conversations:', error);
+      }
+    };
+
+    loadConversations();
+  }, [contextUserId]);
+
+  const handleSidebarAction = (action: string) => {
+    switch (action) {
+      case 'chat':
+        router.push('/chat');
+        break;
+      case 'reports':
+        router.push('/reports');
+        break;
+      case 'settings':
+        router.push('/settings');
+        break;
+      default:
+        break;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <TopNav
+        onMenuClick={() => setIsSidebarOpen(!isSidebarOpen)}
+      />
+
+      <div className="flex">
+        <Sidebar
+          isOpen={isSidebarOpen}
+          onClose={() => setIsSidebarOpen(false)}
+          conversations={conversations}
+          selectedId={selectedConversationId}
+          onSelectConversation={(id) => {
+            setSelectedConversationId(id);
+            router.push('/chat');
+          }}
+          onNewChat={() => router.push('/chat')}
+          onAction={handleSidebarAction}
+          currentPage={currentPage}
+          userEmail={contextUserEmail || undefined}
+          avatarUrl={contextAvatarUrl || undefined}
+        />
+
+        <div className={`flex-1 p-6 pt-24 transition-all duration-300 ${isSidebarOpen ? 'lg:ml-64' : 'lg:ml-0'}`}>
+          {backHref && (
+            // Fixed Back Button - stays with top nav when scrolling
+            <div className={`fixed top-20 right-6 z-30 transition-all duration-300 ${isSidebarOpen ? 'lg:right-72' : 'lg:right-6'}`}>
+              <Button
+                onClick={() => router.push(backHref)}
+                className="bg-gray-800 hover:bg-gray-900 text-white px-3 py-2 sm:px-4 sm:py-2 rounded-md font-body text-sm shadow-lg"
+              >
+                Back
+              </Button>
+            </div>
+          )}
+
+          <div className="max-w-5xl mx-auto w-full">
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white font-title">{title}</h1>
+              <p className="text-gray-600 dark:text-gray-400 mt-2 font-body">
+                {description}
+              </p>
+            </div>
+
+            {children}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
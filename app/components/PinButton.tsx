@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Pin, PinOff } from "lucide-react";
+import { parseTags, pinMessage, unpin, updatePin, type PinSummary } from "@/lib/notebook";
+
+interface PinButtonProps {
+  messageId: string;
+  userId: string;
+  pin?: PinSummary;
+  onChange: (messageId: string, pin: PinSummary | null) => void;
+}
+
+// Pins an answer to the notebook, with an optional note and tags
+export default function PinButton({ messageId, userId, pin, onChange }: PinButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [note, setNote] = useState(pin?.note || "");
+  const [tags, setTags] = useState(pin?.tags.join(", ") || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const open = () => {
+    setNote(pin?.note || "");
+    setTags(pin?.tags.join(", ") || "");
+    setIsOpen(!isOpen);
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    const annotation = { note, tags: parseTags(tags) };
+    if (pin) {
+      if (await updatePin(pin.id, annotation)) {
+        onChange(messageId, { ...pin, note: note.trim() || null, tags: annotation.tags });
+        setIsOpen(false);
+      }
+    } else {
+      const created = await pinMessage(userId, messageId, annotation);
+      if (created) {
+        onChange(messageId, created);
+        setIsOpen(false);
+      }
+    }
+    setIsSaving(false);
+  };
+
+  const remove = async () => {
+    if (!pin) return;
+    setIsSaving(true);
+    if (await unpin(pin.id)) {
+      onChange(messageId, null);
+      setIsOpen(false);
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div ref={popoverRef} className="relative">
+      <button
+        onClick={open}
+        className={`p-1 rounded ${
+          pin
+            ? "text-slate-900 dark:text-white bg-slate-200 dark:bg-slate-600"
+            : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+        }`}
+        title={pin ? "Edit pin" : "Pin to notebook"}
+      >
+        <Pin className="w-3.5 h-3.5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-1 z-20 w-72 rounded-xl border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg p-3 text-xs text-gray-700 dark:text-gray-200">
+          <p className="font-medium mb-2">{pin ? "Pinned to your notebook" : "Pin to notebook"}</p>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            rows={2}
+            className="w-full resize-none rounded-lg border border-gray-300 dark:border-slate-600 bg-transparent px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400"
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="mt-2 w-full rounded-lg border border-gray-300 dark:border-slate-600 bg-transparent px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-400"
+          />
+          <div className="mt-2 flex items-center justify-between gap-2">
+            <Link href="/notebook" className="underline text-gray-500 hover:text-gray-900 dark:hover:text-white">
+              Open notebook
+            </Link>
+            <div className="flex gap-2">
+              {pin && (
+                <button
+                  onClick={remove}
+                  disabled={isSaving}
+                  className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-50"
+                >
+                  <PinOff className="w-3 h-3" /> Unpin
+                </button>
+              )}
+              <button
+                onClick={save}
+                disabled={isSaving}
+                className="px-2 py-1 rounded bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200 disabled:opacity-50"
+              >
+                {pin ? "Save" : "Pin"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Ban, CheckCircle2, ChevronDown, ChevronUp, ListChecks, Loader2, XCircle } from "lucide-react";
+import {
+  STAGE_LABELS,
+  formatDuration,
+  totalDuration,
+  type TimelineStatus,
+  type TimelineStep,
+} from "@/lib/progress-timeline";
+
+function StatusIcon({ status }: { status: TimelineStatus }) {
+  switch (status) {
+    case "running":
+      return <Loader2 className="w-3.5 h-3.5 text-blue-600 dark:text-blue-400 animate-spin" />;
+    case "failed":
+      return <XCircle className="w-3.5 h-3.5 text-red-600 dark:text-red-400" />;
+    case "cancelled":
+      return <Ban className="w-3.5 h-3.5 text-gray-400" />;
+    default:
+      return <CheckCircle2 className="w-3.5 h-3.5 text-green-600 dark:text-green-400" />;
+  }
+}
+
+// Collapsible list of the agent's processing steps; open while the answer is streaming
+export default function ProgressTimeline({ steps, live }: { steps: TimelineStep[]; live?: boolean }) {
+  const [isExpanded, setIsExpanded] = useState<boolean | null>(null);
+  const expanded = isExpanded ?? !!live;
+
+  if (steps.length === 0) return null;
+
+  const total = totalDuration(steps);
+  const running = steps.find((step) => step.status === "running");
+  const failed = steps.some((step) => step.status === "failed");
+
+  return (
+    <div className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+      <button
+        onClick={() => setIsExpanded(!expanded)}
+        className="flex items-center gap-1.5 hover:text-gray-900 dark:hover:text-gray-200 transition-colors"
+      >
+        <ListChecks className="w-3.5 h-3.5" />
+        <span className={running ? "text-blue-600 dark:text-blue-400" : failed ? "text-red-600 dark:text-red-400" : ""}>
+          {running ? running.message : `${steps.length} step${steps.length === 1 ? "" : "s"}`}
+        </span>
+        {!running && total !== null && <span className="font-mono opacity-75">· {formatDuration(total)}</span>}
+        {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+      </button>
+
+      {expanded && (
+        <ol className="mt-1.5 ml-1.5 border-l border-gray-300 dark:border-slate-600 space-y-1">
+          {steps.map((step, i) => (
+            <li key={i} className="flex items-center gap-2 -ml-[7px]">
+              <span className="bg-white dark:bg-slate-900 rounded-full">
+                <StatusIcon status={step.status} />
+              </span>
+              <span className="px-1.5 rounded bg-gray-100 dark:bg-slate-800 text-[10px] uppercase tracking-wide">
+                {STAGE_LABELS[step.stage]}
+              </span>
+              <span className={`flex-1 min-w-0 truncate ${step.status === "running" ? "animate-pulse" : ""}`}>{step.message}</span>
+              {step.duration_ms !== null && <span className="font-mono opacity-75">{formatDuration(step.duration_ms)}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Search, X, Loader2, MessageSquare, User } from "lucide-react";
+import { logger } from "@/lib/logger";
+import {
+  MIN_SEARCH_LENGTH,
+  searchMessages,
+  snippetSegments,
+  type MessageSearchFilters,
+  type MessageSearchResult,
+} from "@/lib/message-search";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const ROLE_OPTIONS: { value: MessageSearchFilters["role"]; label: string }[] = [
+  { value: undefined, label: "All" },
+  { value: "user", label: "Questions" },
+  { value: "assistant", label: "Answers" },
+];
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+export default function SearchPalette({ isOpen, onClose, onSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [role, setRole] = useState<MessageSearchFilters["role"]>(undefined);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  // Debounced search; a newer query discards the results of an older one
+  useEffect(() => {
+    if (!isOpen) return;
+    if (query.trim().length < MIN_SEARCH_LENGTH) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let stale = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchMessages(query, { role, from: from || undefined, to: to || undefined });
+        if (stale) return;
+        setResults(found);
+        setActiveIndex(0);
+        setError(null);
+      } catch (err: any) {
+        if (stale) return;
+        logger.error("❌ SearchPalette: search failed:", err);
+        setError(err.message || "Search failed");
+      } finally {
+        if (!stale) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, query, role, from, to]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const choose = (result: MessageSearchResult | undefined) => {
+    if (!result) return;
+    onSelect(result);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-start justify-center p-4 pt-[12vh]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl max-w-2xl w-full overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Query */}
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+          <Search className="w-5 h-5 text-slate-400 flex-shrink-0" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search all conversations…"
+            className="flex-1 bg-transparent text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none font-caslon"
+          />
+          {isSearching && <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />}
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg" title="Close (Esc)">
+            <X className="w-4 h-4 text-slate-500 dark:text-slate-400" />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-slate-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300">
+          <div className="flex rounded-lg bg-slate-100 dark:bg-slate-900 p-0.5">
+            {ROLE_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                onClick={() => setRole(option.value)}
+                className={`px-2.5 py-1 rounded-md ${
+                  role === option.value ? "bg-white dark:bg-slate-700 shadow-sm font-medium" : "hover:text-slate-900 dark:hover:text-white"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className="bg-transparent border border-slate-200 dark:border-slate-600 rounded px-1.5 py-0.5"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="bg-transparent border border-slate-200 dark:border-slate-600 rounded px-1.5 py-0.5"
+            />
+          </label>
+          {(from || to) && (
+            <button onClick={() => { setFrom(""); setTo(""); }} className="underline hover:text-slate-900 dark:hover:text-white">
+              Clear dates
+            </button>
+          )}
+        </div>
+
+        {/* Results */}
+        <div ref={listRef} className="max-h-[50vh] overflow-y-auto">
+          {error ? (
+            <p className="px-4 py-6 text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : query.trim().length < MIN_SEARCH_LENGTH ? (
+            <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">
+              Type to search questions and answers. Use quotes for phrases and <code>-word</code> to exclude.
+            </p>
+          ) : results.length === 0 && !isSearching ? (
+            <p className="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">No messages match “{query.trim()}”.</p>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={result.message_id}
+                data-index={index}
+                onClick={() => choose(result)}
+                onMouseMove={() => setActiveIndex(index)}
+                className={`w-full text-left px-4 py-3 border-b border-slate-100 dark:border-slate-700/60 ${
+                  index === activeIndex ? "bg-slate-100 dark:bg-slate-700" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between gap-3 text-xs text-slate-500 dark:text-slate-400 mb-1">
+                  <span className="flex items-center gap-1.5 min-w-0">
+                    {result.role === "user" ? <User className="w-3.5 h-3.5 flex-shrink-0" /> : <MessageSquare className="w-3.5 h-3.5 flex-shrink-0" />}
+                    <span className="truncate font-medium text-slate-700 dark:text-slate-200">{result.session_title || "Untitled chat"}</span>
+                  </span>
+                  <span className="flex-shrink-0">{new Date(result.created_at).toLocaleDateString()}</span>
+                </div>
+                <p className="text-sm text-slate-700 dark:text-slate-200 line-clamp-2 font-caslon">
+                  {snippetSegments(result.snippet).map((segment, i) =>
+                    segment.highlight ? (
+                      <mark key={i} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+                    ) : (
+                      <span key={i}>{segment.text}</span>
+                    )
+                  )}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-4 py-2 text-[11px] text-slate-400 border-t border-slate-200 dark:border-slate-700">
+          <span>↑↓ to navigate</span>
+          <span>↵ to open</span>
+          <span>Esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SlidersHorizontal, X } from "lucide-react";
+import {
+  ANSWER_STYLES,
+  DEFAULT_SESSION_SETTINGS,
+  MAX_RETRIEVAL_K,
+  MIN_RETRIEVAL_K,
+  type SessionSettings,
+} from "@/lib/session-settings";
+
+interface SessionSettingsDrawerProps {
+  isOpen: boolean;
+  settings: SessionSettings;
+  /** Product groups in the dataset, offered as retrieval filters */
+  productGroups: string[];
+  onSave: (settings: SessionSettings) => void;
+  onClose: () => void;
+}
+
+// Retrieval depth, filters and answer style for the current conversation
+export default function SessionSettingsDrawer({ isOpen, settings, productGroups, onSave, onClose }: SessionSettingsDrawerProps) {
+  const [draft, setDraft] = useState<SessionSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  const update = (changes: Partial<SessionSettings>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleGroup = (group: string) => {
+    update({
+      product_groups: draft.product_groups.includes(group)
+        ? draft.product_groups.filter((g) => g !== group)
+        : [...draft.product_groups, group],
+    });
+  };
+
+  // Groups saved earlier stay selectable even if the dataset no longer lists them
+  const groupOptions = Array.from(new Set(productGroups.concat(draft.product_groups)));
+  const invalidRange = !!(draft.date_from && draft.date_to && draft.date_from > draft.date_to);
+
+  const labelClass = "block text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2";
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/20 z-40" onClick={onClose} />}
+
+      <div
+        className={`fixed top-16 right-0 bottom-0 w-full sm:w-96 z-50 bg-white dark:bg-slate-900 border-l border-gray-200 dark:border-slate-700 shadow-2xl transition-transform duration-300 flex flex-col ${
+          isOpen ? "translate-x-0" : "translate-x-full"
+        }`}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-slate-700">
+          <div className="flex items-center gap-2 text-gray-900 dark:text-white">
+            <SlidersHorizontal className="w-4 h-4" />
+            <h2 className="font-semibold font-body">Conversation settings</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg" title="Close">
+            <X className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-6 text-sm text-gray-900 dark:text-white font-body">
+          <div>
+            <label className={labelClass}>Retrieval depth</label>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min={MIN_RETRIEVAL_K}
+                max={MAX_RETRIEVAL_K}
+                value={draft.k}
+                onChange={(e) => update({ k: Number(e.target.value) })}
+                className="flex-1 accent-black dark:accent-white"
+              />
+              <span className="w-8 text-right font-mono">{draft.k}</span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Chunks retrieved per question. More gives broader context but slower answers.
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Product groups</label>
+            {groupOptions.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No product groups in the dataset yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {groupOptions.map((group) => (
+                  <button
+                    key={group}
+                    onClick={() => toggleGroup(group)}
+                    className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${
+                      draft.product_groups.includes(group)
+                        ? "bg-black text-white border-black dark:bg-white dark:text-black dark:border-white"
+                        : "border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-800"
+                    }`}
+                  >
+                    {group}
+                  </button>
+                ))}
+              </div>
+            )}
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">None selected searches every group.</p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Date range</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={draft.date_from || ""}
+                max={draft.date_to || undefined}
+                onChange={(e) => update({ date_from: e.target.value || null })}
+                className="flex-1 bg-transparent border border-gray-300 dark:border-slate-600 rounded-lg px-2 py-1.5"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="date"
+                value={draft.date_to || ""}
+                min={draft.date_from || undefined}
+                onChange={(e) => update({ date_to: e.target.value || null })}
+                className="flex-1 bg-transparent border border-gray-300 dark:border-slate-600 rounded-lg px-2 py-1.5"
+              />
+            </div>
+            {invalidRange && <p className="mt-1 text-xs text-red-600 dark:text-red-400">The start date is after the end date.</p>}
+          </div>
+
+          <div>
+            <label className={labelClass}>Answer style</label>
+            <div className="space-y-1.5">
+              {ANSWER_STYLES.map((style) => (
+                <label
+                  key={style.value}
+                  className={`flex items-start gap-2 px-3 py-2 rounded-lg border cursor-pointer ${
+                    draft.answer_style === style.value
+                      ? "border-black dark:border-white"
+                      : "border-gray-200 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-800"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="answer-style"
+                    checked={draft.answer_style === style.value}
+                    onChange={() => update({ answer_style: style.value })}
+                    className="mt-0.5 accent-black dark:accent-white"
+                  />
+                  <span>
+                    <span className="block font-medium">{style.label}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{style.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-gray-200 dark:border-slate-700 text-sm">
+          <button
+            onClick={() => setDraft(DEFAULT_SESSION_SETTINGS)}
+            className="underline text-gray-500 hover:text-gray-900 dark:hover:text-white"
+          >
+            Reset to defaults
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={invalidRange}
+            className="px-4 py-1.5 rounded-lg bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
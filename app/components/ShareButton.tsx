@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { Check, Copy, Loader2, Share2 } from "lucide-react";
+import { logger } from "@/lib/logger";
+import { getOrCreateShareLink, shareUrl } from "@/lib/session-shares";
+
+interface ShareButtonProps {
+  sessionId: string;
+  userId: string;
+}
+
+// Creates (or reuses) the session's read-only link and offers it for copying
+export default function ShareButton({ sessionId, userId }: ShareButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  // A different conversation needs its own link
+  useEffect(() => {
+    setUrl(null);
+    setIsOpen(false);
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const copy = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      logger.error("Failed to copy share link: ", err);
+    }
+  };
+
+  const handleShare = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    if (url) return;
+
+    setIsCreating(true);
+    const share = await getOrCreateShareLink(userId, sessionId);
+    setIsCreating(false);
+    if (!share) {
+      setIsOpen(false);
+      alert("Failed to create a share link. Please try again.");
+      return;
+    }
+    const link = shareUrl(share.token);
+    setUrl(link);
+    copy(link);
+  };
+
+  return (
+    <div ref={popoverRef} className="relative">
+      <button
+        onClick={handleShare}
+        className="p-1.5 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-800 rounded-lg"
+        title="Share read-only link"
+      >
+        <Share2 className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-80 z-50 rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg p-3 text-sm text-gray-900 dark:text-white">
+          {isCreating || !url ? (
+            <div className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" /> Creating link…
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 rounded border border-gray-300 dark:border-slate-600 bg-transparent px-2 py-1 text-xs font-mono"
+                />
+                <button
+                  onClick={() => copy(url)}
+                  className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-slate-700"
+                  title={copied ? "Copied!" : "Copy link"}
+                >
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Anyone with the link can read this conversation, including later messages. Revoke it in{" "}
+                <Link href="/settings" className="underline hover:text-gray-900 dark:hover:text-white">
+                  Settings
+                </Link>
+                .
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Check, Copy, Link2 } from "lucide-react";
+import { logger } from "@/lib/logger";
+import { getShareLinks, revokeShareLink, shareUrl, type SessionShare } from "@/lib/session-shares";
+
+// Active read-only share links, with copy and revoke
+export default function SharedLinksCard({ userId }: { userId: string | null }) {
+  const [links, setLinks] = useState<SessionShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    setLoading(true);
+    getShareLinks(userId)
+      .then(setLinks)
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const copy = async (link: SessionShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      logger.error("Failed to copy share link: ", err);
+    }
+  };
+
+  const revoke = async (link: SessionShare) => {
+    setRevoking(link.id);
+    if (await revokeShareLink(link.id)) {
+      setLinks((current) => current.filter((l) => l.id !== link.id));
+    } else {
+      alert("Failed to revoke the link. Please try again.");
+    }
+    setRevoking(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-gray-200 dark:border-slate-700 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Link2 className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 font-body">Shared links</h3>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-5 bg-gray-200 dark:bg-slate-700 rounded animate-pulse" />
+          ))}
+        </div>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 font-body">
+          No active links. Use the share button in a conversation&apos;s header to create one.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+          {links.map((link) => (
+            <li key={link.id} className="flex items-center justify-between gap-3 py-2.5">
+              <div className="min-w-0">
+                <Link
+                  href={`/share/${link.token}`}
+                  target="_blank"
+                  className="block text-sm font-medium text-gray-900 dark:text-gray-100 font-body truncate hover:underline"
+                >
+                  {link.session_title || "Untitled chat"}
+                </Link>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Created {new Date(link.created_at).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => copy(link)}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                  title={copiedId === link.id ? "Copied!" : "Copy link"}
+                >
+                  {copiedId === link.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => revoke(link)}
+                  disabled={revoking === link.id}
+                  className="px-3 py-1 text-xs rounded-lg border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
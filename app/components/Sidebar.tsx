@@ -1,11 +1,12 @@
 "use client";
 
-import { useState } from "react";
-import { Plus, MessageSquare, X, User, Settings, Trash2, BarChart3 } from "lucide-react";
+import { useRef, useState } from "react";
+import { Plus, MessageSquare, X, User, Settings, Trash2, BarChart3, Search, FileUp } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import ExportMenu from "./ExportMenu";
 
 interface Conversation {
   id: string;
@@ -21,6 +22,9 @@ interface SidebarProps {
   onSelectConversation?: (id: string) => void;
   onNewChat?: () => void;
   onDeleteConversation?: (id: string) => void;
+  onSearch?: () => void;
+  /** Receives a JSON file picked from "Import conversation" */
+  onImportConversation?: (file: File) => void;
   onAction?: (action: string) => void;
   currentPage?: string;
   userEmail?: string;
@@ -35,11 +39,15 @@ export default function Sidebar({
   onSelectConversation,
   onNewChat,
   onDeleteConversation,
+  onSearch,
+  onImportConversation,
   onAction,
   currentPage,
   userEmail,
   avatarUrl,
 }: SidebarProps) {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   return (
     <>
       {/* Overlay */}
@@ -122,6 +130,48 @@ export default function Sidebar({
                 </button>
               )}
 
+              {/* Message Search */}
+              {onSearch && (
+                <button
+                  onClick={() => {
+                    onSearch();
+                    onClose();
+                  }}
+                  className="w-full flex items-center gap-3 px-4 py-2.5 text-white/70 bg-black/20 backdrop-blur-md rounded-xl hover:bg-black/30 hover:text-white transition-all"
+                >
+                  <Search className="w-4 h-4" />
+                  <span className="flex-1 text-left font-caslon text-sm">Search messages…</span>
+                  <kbd className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-white/10">⌘K</kbd>
+                </button>
+              )}
+
+              {/* Import a JSON export */}
+              {onImportConversation && (
+                <>
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="w-full flex items-center gap-3 px-4 py-2.5 text-white/70 bg-black/20 backdrop-blur-md rounded-xl hover:bg-black/30 hover:text-white transition-all"
+                  >
+                    <FileUp className="w-4 h-4" />
+                    <span className="flex-1 text-left font-caslon text-sm">Import conversation…</span>
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) {
+                        onImportConversation(file);
+                        onClose();
+                      }
+                    }}
+                  />
+                </>
+              )}
+
               {/* Conversation List */}
               {conversations.length > 0 && onSelectConversation && onDeleteConversation && (
                 <>
@@ -160,17 +210,20 @@ export default function Sidebar({
                     </div>
                   </button>
                   
-                  {/* Delete Button */}
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onDeleteConversation(conv.id);
-                    }}
-                    className="opacity-0 group-hover:opacity-100 transition-opacity p-1.5 text-white/60 hover:text-white hover:bg-white/20 rounded-lg"
-                    title="Delete conversation"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {/* Export and Delete Buttons */}
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <ExportMenu sessionId={conv.id} title={conv.title} variant="light" />
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDeleteConversation(conv.id);
+                      }}
+                      className="p-1.5 text-white/60 hover:text-white hover:bg-white/20 rounded-lg"
+                      title="Delete conversation"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
                   ))}
                 </>
@@ -1,36 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import axios from "axios";
+import { BACKEND_BASE_URL } from "@/lib/backend-client";
+import { getSpotlightPreview, type SpotlightPreview } from "@/lib/backend-api";
 import { Loader2, Play, Pause, TrendingUp, MapPin, Package } from "lucide-react";
 import { logger } from "@/lib/logger";
 
-interface CategoryInsight {
-  category: string;
-  sales: number;
-  profit_margin: number;
-  transactions: number;
-}
-
-interface RegionInsight {
-  state: string;
-  sales: number;
-  transactions: number;
-  avg_transaction: number;
-}
-
-interface SpotlightData {
-  narrative: string;
-  audio_url: string;
-  timestamp: string;
-  insights: {
-    top_categories: CategoryInsight[];
-    top_regions: RegionInsight[];
-  };
-}
-
 export default function SpotlightPanel() {
-  const [spotlight, setSpotlight] = useState<SpotlightData | null>(null);
+  const [spotlight, setSpotlight] = useState<SpotlightPreview | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -45,21 +22,19 @@ export default function SpotlightPanel() {
     setError(null);
 
     try {
-      const response = await axios.get(
-        `${process.env.NEXT_PUBLIC_API_URL}/v1/spotlight/preview`
-      );
-      setSpotlight(response.data);
+      const data = await getSpotlightPreview();
+      setSpotlight(data);
 
       // Prepare audio if available
-      if (response.data.audio_url) {
-        const audioUrl = `${process.env.NEXT_PUBLIC_API_URL}${response.data.audio_url}`;
+      if (data.audio_url) {
+        const audioUrl = `${BACKEND_BASE_URL}${data.audio_url}`;
         const audioElement = new Audio(audioUrl);
         audioElement.addEventListener("ended", () => setIsPlaying(false));
         setAudio(audioElement);
       }
     } catch (error: any) {
       logger.error("Error fetching spotlight:", error);
-      setError(error.response?.data?.detail || error.message || "Failed to load spotlight");
+      setError(error.message || "Failed to load spotlight");
     } finally {
       setIsLoading(false);
     }
@@ -173,7 +148,7 @@ export default function SpotlightPanel() {
           </h3>
         </div>
         <div className="space-y-3">
-          {spotlight.insights.top_categories.map((category, index) => (
+          {(spotlight.insights.top_categories ?? []).map((category, index) => (
             <div
               key={index}
               className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg"
@@ -183,7 +158,7 @@ export default function SpotlightPanel() {
                   {category.category}
                 </p>
                 <p className="text-sm text-slate-500">
-                  {category.profit_margin.toFixed(1)}% margin • {category.transactions} transactions
+                  {(category.profit_margin ?? 0).toFixed(1)}% margin • {category.transactions ?? category.count ?? 0} transactions
                 </p>
               </div>
               <div className="text-right">
@@ -205,7 +180,7 @@ export default function SpotlightPanel() {
           </h3>
         </div>
         <div className="space-y-3">
-          {spotlight.insights.top_regions.map((region, index) => (
+          {(spotlight.insights.top_regions ?? []).map((region, index) => (
             <div
               key={index}
               className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg"
@@ -215,7 +190,7 @@ export default function SpotlightPanel() {
                   {region.state}
                 </p>
                 <p className="text-sm text-slate-500">
-                  {region.transactions} transactions • ${formatNumber(region.avg_transaction)} avg
+                  {region.transactions ?? 0} transactions • ${formatNumber(region.avg_transaction ?? 0)} avg
                 </p>
               </div>
               <div className="text-right">
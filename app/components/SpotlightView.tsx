@@ -1,22 +1,12 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import axios from "axios";
+import { getSpotlightPreview, type SpotlightPreview } from "@/lib/backend-api";
 import { Play, Pause, TrendingUp, Loader2 } from "lucide-react";
 import { logger } from "@/lib/logger";
 
-interface SpotlightData {
-  narrative: string;
-  timestamp: string;
-  insights: {
-    top_categories?: Array<{ category: string; sales: number; count: number }>;
-    regional_trends?: Array<{ state: string; sales: number }>;
-    brand_performance?: Array<{ product: string; profit: number }>;
-  };
-}
-
 export default function SpotlightView() {
-  const [spotlight, setSpotlight] = useState<SpotlightData | null>(null);
+  const [spotlight, setSpotlight] = useState<SpotlightPreview | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -29,9 +19,8 @@ export default function SpotlightView() {
     setError(null);
 
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
-      const response = await axios.get(`${apiUrl}/v1/spotlight/preview`);
-      setSpotlight(response.data);
+      const data = await getSpotlightPreview();
+      setSpotlight(data);
     } catch (err) {
       logger.error("Failed to load spotlight:", err);
       setError("Failed to load spotlight data");
@@ -1,6 +1,6 @@
 "use client";
 
-import { MessageSquare, FileText, TrendingUp, Settings, Menu, User, LogOut, ChevronDown } from "lucide-react";
+import { MessageSquare, FileText, TrendingUp, Notebook, Settings, Menu, User, LogOut, ChevronDown } from "lucide-react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import Image from "next/image";
@@ -53,6 +53,7 @@ export default function TopNav({ onMenuClick, userEmail: propUserEmail, avatarUr
     { href: "/chat", label: "Chat", icon: MessageSquare },
     { href: "/reports", label: "Reports", icon: FileText },
     { href: "/spotlight", label: "Spotlight", icon: TrendingUp },
+    { href: "/notebook", label: "Notebook", icon: Notebook },
     { href: "/settings", label: "Settings", icon: Settings },
   ];
 
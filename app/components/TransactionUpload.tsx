@@ -0,0 +1,300 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Upload, FileSpreadsheet, AlertTriangle, CheckCircle2, Loader2, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { logger } from "@/lib/logger";
+import { readApiError } from "@/lib/api-errors";
+import { authHeaders } from "@/lib/supabase";
+import { recordIngestion } from "@/lib/dataset-stats";
+import { useUser } from "@/app/contexts/UserContext";
+import {
+  TRANSACTION_COLUMNS,
+  UPLOAD_EXTENSIONS,
+  isSupportedUpload,
+  type UploadPreview,
+  type UploadResult,
+} from "@/lib/transaction-upload";
+
+async function postUpload(file: File, action: "preview" | "upload", skipInvalidRows = false) {
+  const formData = new FormData();
+  formData.append("action", action);
+  formData.append("file", file);
+  if (skipInvalidRows) {
+    formData.append("skipInvalidRows", "true");
+  }
+
+  const response = await fetch("/api/data", { method: "POST", headers: await authHeaders(), body: formData });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response.json();
+}
+
+export default function TransactionUpload() {
+  const { userId } = useUser();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<UploadPreview | null>(null);
+  const [result, setResult] = useState<UploadResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const selectFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    reset();
+
+    if (!isSupportedUpload(selected.name)) {
+      setError(`Only ${UPLOAD_EXTENSIONS.join(" and ")} files are supported.`);
+      return;
+    }
+
+    setFile(selected);
+    setIsValidating(true);
+    try {
+      logger.log("📤 [Upload] Validating", selected.name);
+      const data: UploadPreview = await postUpload(selected, "preview");
+      setPreview(data);
+      logger.log(`✅ [Upload] ${data.validRows}/${data.totalRows} rows valid`);
+    } catch (err: any) {
+      logger.error("❌ [Upload] Validation failed:", err);
+      setError(err.message || "Failed to validate the file");
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const confirmUpload = async () => {
+    if (!file || !preview) return;
+    setIsUploading(true);
+    setError(null);
+    try {
+      const data: UploadResult = await postUpload(file, "upload", preview.invalidRows > 0);
+      setResult(data);
+      if (userId) {
+        await recordIngestion(userId, preview);
+      }
+      logger.log(`✅ [Upload] Ingested ${data.ingestedRows} rows from ${data.filename}`);
+    } catch (err: any) {
+      logger.error("❌ [Upload] Ingestion failed:", err);
+      setError(err.message || "Failed to upload the file");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const canUpload = !!preview && preview.missingColumns.length === 0 && preview.validRows > 0 && !result;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-body flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5" />
+          Upload Transactions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Drop zone */}
+        <div
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            selectFile(e.dataTransfer.files[0]);
+          }}
+          className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+            isDragging
+              ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+              : "border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500"
+          }`}
+        >
+          <Upload className="w-8 h-8 mx-auto mb-3 text-gray-400" />
+          <p className="font-body text-gray-700 dark:text-gray-300">
+            {file ? file.name : "Drop a monthly extract here, or click to choose a file"}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 font-body">
+            CSV or XLSX with columns: {TRANSACTION_COLUMNS.join(", ")}
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={UPLOAD_EXTENSIONS.join(",")}
+            className="hidden"
+            onChange={(e) => selectFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {isValidating && (
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 font-body">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Validating {file?.name}...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {result && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-300">
+            <CheckCircle2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Uploaded {result.ingestedRows.toLocaleString()} rows from {result.filename}
+              {result.skippedRows > 0 && ` (${result.skippedRows.toLocaleString()} invalid rows skipped)`}.
+            </span>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Rows</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-gray-100">{preview.totalRows.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Valid</p>
+                <p className="text-xl font-bold text-green-600">{preview.validRows.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Invalid</p>
+                <p className={`text-xl font-bold ${preview.invalidRows > 0 ? "text-red-600" : "text-gray-900 dark:text-gray-100"}`}>
+                  {preview.invalidRows.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">Period</p>
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mt-1">
+                  {preview.summary.periodStart
+                    ? `${preview.summary.periodStart} → ${preview.summary.periodEnd}`
+                    : "—"}
+                </p>
+              </div>
+            </div>
+            {preview.validRows > 0 && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 font-body">
+                {preview.summary.entities.toLocaleString()} entities across product groups{" "}
+                {preview.summary.productGroups.join(", ")}
+              </p>
+            )}
+
+            {preview.missingColumns.length > 0 && (
+              <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+                Missing required columns: <span className="font-mono">{preview.missingColumns.join(", ")}</span>.
+                Found: <span className="font-mono">{preview.columns.join(", ") || "none"}</span>
+              </div>
+            )}
+
+            {/* Row errors */}
+            {preview.errors.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2 font-body">
+                  Row errors
+                  {preview.errorCount > preview.errors.length &&
+                    ` (showing ${preview.errors.length} of ${preview.errorCount.toLocaleString()})`}
+                </h4>
+                <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+                      <tr>
+                        <th className="text-left px-3 py-2">Row</th>
+                        <th className="text-left px-3 py-2">Column</th>
+                        <th className="text-left px-3 py-2">Value</th>
+                        <th className="text-left px-3 py-2">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.errors.map((rowError, i) => (
+                        <tr key={i} className="border-t border-gray-100 dark:border-gray-700">
+                          <td className="px-3 py-1.5 font-mono">{rowError.row}</td>
+                          <td className="px-3 py-1.5 font-mono">{rowError.column}</td>
+                          <td className="px-3 py-1.5 font-mono text-red-600">{rowError.value || "(empty)"}</td>
+                          <td className="px-3 py-1.5">{rowError.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Preview of valid rows */}
+            {preview.preview.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2 font-body">
+                  Preview (first {preview.preview.length} valid rows)
+                </h4>
+                <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        {TRANSACTION_COLUMNS.map((column) => (
+                          <th key={column} className="text-left px-3 py-2 font-mono">{column}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.preview.map((row, i) => (
+                        <tr key={i} className="border-t border-gray-100 dark:border-gray-700">
+                          {TRANSACTION_COLUMNS.map((column) => (
+                            <td key={column} className="px-3 py-1.5 font-mono">{String(row[column])}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-3">
+              <Button
+                onClick={reset}
+                className="bg-white hover:bg-gray-100 text-gray-800 border border-gray-300 px-4 py-2 rounded-lg font-body"
+              >
+                <X className="w-4 h-4 mr-1" />
+                {result ? "Upload another file" : "Cancel"}
+              </Button>
+              {canUpload && (
+                <Button
+                  onClick={confirmUpload}
+                  disabled={isUploading}
+                  className="bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-lg font-body"
+                >
+                  {isUploading ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <Upload className="w-4 h-4 mr-1" />
+                  )}
+                  {preview.invalidRows > 0
+                    ? `Upload ${preview.validRows.toLocaleString()} valid rows`
+                    : `Upload ${preview.validRows.toLocaleString()} rows`}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
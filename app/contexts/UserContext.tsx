@@ -3,11 +3,18 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { logger } from "@/lib/logger";
 import { supabase, getCurrentUser } from '@/lib/supabase';
+import { LOCAL_USER_ID, localChatAvailable } from '@/lib/chat-store';
 
 interface UserContextType {
   userEmail: string | null;
   avatarUrl: string | null;
+  /** The signed-in Supabase user; null when signed out */
   userId: string | null;
+  /**
+   * Owner to pass to the chat history (lib/supabase-chat): the Supabase user, or LOCAL_USER_ID
+   * for history kept in this browser. Only for chat-store calls; everything else uses userId.
+   */
+  chatOwnerId: string | null;
   isLoading: boolean;
 }
 
@@ -15,6 +22,7 @@ const UserContext = createContext<UserContextType>({
   userEmail: null,
   avatarUrl: null,
   userId: null,
+  chatOwnerId: null,
   isLoading: true,
 });
 
@@ -66,6 +74,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
           if (cachedEmail) {
             setUserEmail(cachedEmail);
           }
+          setUserId(null);
         }
       } catch (error) {
         logger.error('Error loading user:', error);
@@ -114,8 +123,11 @@ export function UserProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Not signed in (or no Supabase at all): chat history lives in this browser
+  const chatOwnerId = userId ?? (!isLoading && localChatAvailable() ? LOCAL_USER_ID : null);
+
   return (
-    <UserContext.Provider value={{ userEmail, avatarUrl, userId, isLoading }}>
+    <UserContext.Provider value={{ userEmail, avatarUrl, userId, chatOwnerId, isLoading }}>
       {children}
     </UserContext.Provider>
   );
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import CookieConsent from "./components/CookieConsent";
+import BackendStatusBanner from "./components/BackendStatusBanner";
 import { UserProvider } from "./contexts/UserContext";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -28,6 +29,7 @@ export default function RootLayout({
       </head>
       <body className={inter.className}>
         <UserProvider>
+          <BackendStatusBanner />
           {children}
           <CookieConsent />
         </UserProvider>
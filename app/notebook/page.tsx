@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import PageLayout from '../components/PageLayout';
+import NotebookView from '../components/NotebookView';
+import { useUser } from '@/app/contexts/UserContext';
+
+export default function NotebookPage() {
+  const { userId: contextUserId } = useUser();
+
+  return (
+    <PageLayout
+      title="Notebook"
+      description="Answers you pinned from any conversation, with your notes and tags"
+      currentPage="notebook"
+    >
+      <NotebookView userId={contextUserId} />
+    </PageLayout>
+  );
+}
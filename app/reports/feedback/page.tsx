@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+import PageLayout from '../../components/PageLayout';
+import FeedbackReview from '../../components/FeedbackReview';
+import { useUser } from '@/app/contexts/UserContext';
+
+export default function FeedbackReviewPage() {
+  const { userId: contextUserId } = useUser();
+
+  return (
+    <PageLayout
+      title="Answer Feedback"
+      description="Thumbs-down answers with the question, reasons and comments, newest first"
+      currentPage="reports"
+      backHref="/reports"
+    >
+      <FeedbackReview userId={contextUserId} />
+    </PageLayout>
+  );
+}
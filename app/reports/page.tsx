@@ -18,40 +18,10 @@ import { supabase, getCurrentUser } from '@/lib/supabase';
 import { useEntityFetcher } from '@/lib/useEntityFetcher';
 import { getUserSessions, type ChatSession } from '@/lib/supabase-chat';
 import { useUser } from '@/app/contexts/UserContext';
+import { ApiError } from '@/lib/api-errors';
+import { downloadEntityReportPdf, getEntityReport, type EntityReport } from '@/lib/backend-api';
+import { rankEntities } from '@/lib/entity-search';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface EntityKPI {
-  entity_id: string;
-  total_sales: number;
-  avg_sales_per_transaction: number;
-  top_product_group: string;
-  top_product_group_sales: number;
-  sales_growth_rate?: number;
-  period_start: string;
-  period_end: string;
-}
-
-interface ProductGroupPerformance {
-  product_group_code: string;
-  total_sales: number;
-  percentage_of_total: number;
-}
-
-interface SalesTrend {
-  period_end: string;
-  total_sales: number;
-}
-
-interface SpotlightReport {
-  entity_id: string;
-  report_period: string;
-  kpis: EntityKPI;
-  product_group_performance: ProductGroupPerformance[];
-  sales_trends: SalesTrend[];
-  ai_summary: string;
-  generated_at: string;
-}
 
 export default function ReportGeneratorPage() {
   const router = useRouter();
@@ -64,7 +34,7 @@ export default function ReportGeneratorPage() {
   });
   
   const [selectedEntity, setSelectedEntity] = useState<string>('');
-  const [report, setReport] = useState<SpotlightReport | null>(null);
+  const [report, setReport] = useState<EntityReport | null>(null);
   const [loading, setLoading] = useState(false);
   const [periodMonths, setPeriodMonths] = useState(12);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -183,6 +153,16 @@ export default function ReportGeneratorPage() {
     }
   }, [periodMonths]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Deep links such as /reports?entity=S001 (entity chips in chat) open that report directly
+  useEffect(() => {
+    const entity = new URLSearchParams(window.location.search).get('entity');
+    if (!entity) return;
+    logger.log('🔗 Opening report from link for entity:', entity);
+    setSelectedEntity(entity);
+    setSearchQuery(entity);
+    generateReport(entity);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
   const handleSidebarAction = (action: string) => {
     switch (action) {
       case 'chat':
@@ -199,28 +179,19 @@ export default function ReportGeneratorPage() {
     }
   };
 
-  const generateReport = async () => {
-    if (!selectedEntity) return;
+  const generateReport = async (entity: string = selectedEntity) => {
+    if (!entity) return;
 
     setLoading(true);
     try {
-      const url = `${API_BASE_URL}/v1/report/report/${selectedEntity}?period_months=${periodMonths}`;
-      logger.log('📊 Generating report for entity:', selectedEntity, 'with period_months:', periodMonths);
-      logger.log('📡 Request URL:', url);
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          alert(`No data found for entity "${selectedEntity}". Please select a different entity.`);
-          return;
-        } else {
-          throw new Error(`Server responded with status: ${response.status}`);
-        }
-      }
-      
-      const data = await response.json();
+      logger.log('📊 Generating report for entity:', entity, 'with period_months:', periodMonths);
+      const data = await getEntityReport(entity, periodMonths);
       setReport(data);
     } catch (error) {
+      if (error instanceof ApiError && error.details?.backendStatus === 404) {
+        alert(`No data found for entity "${entity}". Please select a different entity.`);
+        return;
+      }
       logger.error('Error generating report:', error);
       alert('Failed to generate report. Please try again.');
     } finally {
@@ -229,68 +200,6 @@ export default function ReportGeneratorPage() {
   };
 
 
-  // Optimized similarity search function with early returns
-  const getSimilarityScore = (entity: string, query: string): number => {
-    if (!query) return 0;
-    
-    const entityLower = entity.toLowerCase();
-    const queryLower = query.toLowerCase();
-    
-    // Exact match (highest priority) - early return
-    if (entityLower === queryLower) return 1000;
-    
-    // Starts with query (very high priority) - early return
-    if (entityLower.startsWith(queryLower)) {
-      return 500;
-    }
-    
-    // Contains query as substring (high priority) - early return
-    if (entityLower.includes(queryLower)) {
-      return 300;
-    }
-    
-    // For short queries, only exact/prefix/contains matches
-    if (queryLower.length <= 2) {
-      return 0;
-    }
-    
-    // Fast fuzzy matching with early termination
-    let matchCount = 0;
-    let consecutiveMatches = 0;
-    let lastMatchIndex = -1;
-    
-    // Use indexOf with start position for better performance
-    for (let i = 0; i < queryLower.length; i++) {
-      const char = queryLower[i];
-      const index = entityLower.indexOf(char, lastMatchIndex + 1);
-      
-      if (index === -1) {
-        // Early termination if we can't find a character
-        return 0;
-      }
-      
-      matchCount++;
-      
-      // Check for consecutive matches
-      if (index === lastMatchIndex + 1) {
-        consecutiveMatches++;
-      }
-      
-      lastMatchIndex = index;
-    }
-    
-    // Calculate score only if all characters matched
-    const matchRatio = matchCount / queryLower.length;
-    let score = matchRatio * 100;
-    score += consecutiveMatches * 20;
-    
-    // Light penalty for length difference
-    const lengthDiff = Math.abs(entity.length - query.length);
-    score -= lengthDiff * 0.1;
-    
-    return Math.max(0, score);
-  };
-
   // Debug entities state (optional - can be removed if not needed)
   React.useEffect(() => {
     if (entities.length > 0) {
@@ -308,44 +217,9 @@ export default function ReportGeneratorPage() {
       return result;
     }
     
-    // Use a more efficient approach for large datasets
-    const queryLower = debouncedSearchQuery.toLowerCase();
-    
-    // First pass: collect exact matches, prefix matches, and contains matches
-    const exactMatches = [];
-    const prefixMatches = [];
-    const containsMatches = [];
-    const fuzzyMatches = [];
-    
-    for (const entity of entities) {
-      const entityLower = entity.toLowerCase();
-      
-      if (entityLower === queryLower) {
-        exactMatches.push({ entity, score: 1000 });
-      } else if (entityLower.startsWith(queryLower)) {
-        prefixMatches.push({ entity, score: 500 });
-      } else if (entityLower.includes(queryLower)) {
-        containsMatches.push({ entity, score: 300 });
-      } else if (queryLower.length > 2) {
-        // Only do fuzzy matching for longer queries
-        const score = getSimilarityScore(entity, debouncedSearchQuery);
-        if (score > 0) {
-          fuzzyMatches.push({ entity, score });
-        }
-      }
-    }
-    
-    // Combine all matches in priority order
-    const allMatches = [
-      ...exactMatches,
-      ...prefixMatches,
-      ...containsMatches,
-      ...fuzzyMatches.sort((a, b) => b.score - a.score) // Sort fuzzy matches by score
-    ];
-    
-    const result = allMatches.map(item => item.entity);
+    // Exact, then prefix, then substring, then fuzzy matches (fuzzy only for 3+ characters)
+    const result = rankEntities(entities, debouncedSearchQuery);
     logger.log('✨ Filtered entities:', result.length, 'matches for query:', debouncedSearchQuery);
-    logger.log(`   📊 Breakdown: ${exactMatches.length} exact, ${prefixMatches.length} prefix, ${containsMatches.length} contains, ${fuzzyMatches.length} fuzzy`);
     
     return result;
   }, [entities, debouncedSearchQuery]);
@@ -444,15 +318,7 @@ export default function ReportGeneratorPage() {
     if (!report) return;
     
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/v1/report/download-pdf/${report.entity_id}?period_months=${periodMonths}`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to generate PDF');
-      }
-      
-      const blob = await response.blob();
+      const blob = await downloadEntityReportPdf(report.entity_id, periodMonths);
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -512,12 +378,32 @@ export default function ReportGeneratorPage() {
                   Generate comprehensive analytics reports for retail entities and analyze transaction data
                 </p>
               </div>
-              <Button 
-                onClick={() => router.push('/reports/sales')}
-                className="bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-lg font-body"
-              >
-                View Sales Overview
-              </Button>
+              <div className="flex items-center gap-3">
+                <Button 
+                  onClick={() => router.push('/reports/upload')}
+                  className="bg-white hover:bg-gray-100 text-gray-800 border border-gray-300 px-4 py-2 rounded-lg font-body"
+                >
+                  Upload Data
+                </Button>
+                <Button 
+                  onClick={() => router.push('/reports/quality')}
+                  className="bg-white hover:bg-gray-100 text-gray-800 border border-gray-300 px-4 py-2 rounded-lg font-body"
+                >
+                  Data Quality
+                </Button>
+                <Button 
+                  onClick={() => router.push('/reports/feedback')}
+                  className="bg-white hover:bg-gray-100 text-gray-800 border border-gray-300 px-4 py-2 rounded-lg font-body"
+                >
+                  Answer Feedback
+                </Button>
+                <Button 
+                  onClick={() => router.push('/reports/sales')}
+                  className="bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-lg font-body"
+                >
+                  View Sales Overview
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -611,7 +497,7 @@ export default function ReportGeneratorPage() {
                         </Select>
                       </div>
                       <Button 
-                        onClick={generateReport} 
+                        onClick={() => generateReport()} 
                         disabled={!selectedEntity || loading}
                         className={`h-10 px-6 rounded-full transition-all duration-200 ${
                           loading 
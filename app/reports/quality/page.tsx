@@ -0,0 +1,18 @@
+'use client';
+
+import React from 'react';
+import PageLayout from '../../components/PageLayout';
+import DataQualityReport from '../../components/DataQualityReport';
+
+export default function DataQualityPage() {
+  return (
+    <PageLayout
+      title="Data Quality"
+      description="Check an extract for missing values, duplicates, outliers and coverage gaps before it reaches the chat"
+      currentPage="reports"
+      backHref="/reports"
+    >
+      <DataQualityReport />
+    </PageLayout>
+  );
+}
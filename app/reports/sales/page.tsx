@@ -14,30 +14,17 @@ import Sidebar from '../../components/Sidebar';
 import { supabase, getCurrentUser } from '@/lib/supabase';
 import { getUserSessions, type ChatSession } from '@/lib/supabase-chat';
 import { useUser } from '@/app/contexts/UserContext';
+import {
+  getOverviewByEntity,
+  getOverviewHeatmap,
+  getOverviewKpis,
+  getOverviewTimeSeries,
+  type EntityTotalSales,
+  type OverallKPI,
+  type SalesHeatmap,
+  type TimeSeriesPoint,
+} from '@/lib/backend-api';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
-
-interface TimeSeriesPoint {
-  period: string;
-  total_sales: number;
-}
-
-interface EntityTotalSales {
-  entity_id: string;
-  total_sales: number;
-}
-
-interface OverallKPI {
-  total_sales: number;
-  total_transactions: number;
-  avg_sales_per_transaction: number;
-  total_entities: number;
-  top_product_group: string;
-  top_product_group_sales: number;
-  sales_growth_rate?: number;
-  period_start: string;
-  period_end: string;
-}
 
 export default function SalesOverviewPage() {
   const router = useRouter();
@@ -48,7 +35,7 @@ export default function SalesOverviewPage() {
   const [mode, setMode] = useState<'aggregate'|'points'>('points');
   const [overviewSeries, setOverviewSeries] = useState<TimeSeriesPoint[]>([]);
   const [overviewByEntity, setOverviewByEntity] = useState<EntityTotalSales[]>([]);
-  const [heatmapData, setHeatmapData] = useState<any[]>([]);
+  const [heatmapData, setHeatmapData] = useState<SalesHeatmap['heatmap']>([]);
   const [heatmapProductGroups, setHeatmapProductGroups] = useState<string[]>([]);
   const [overallKPIs, setOverallKPIs] = useState<OverallKPI | null>(null);
   const [loading, setLoading] = useState(false);
@@ -262,47 +249,27 @@ export default function SalesOverviewPage() {
       
       try {
         // Fetch all data in parallel for speed
-        const byEntityUrl = `${API_BASE_URL}/v1/report/overview/by-entity?period_months=${periodMonths}&limit=${entityLimit}&product_group=${encodeURIComponent(productGroup)}`;
-        logger.log(`🔗 Fetching by-entity: ${byEntityUrl}`);
-        
-        const [tsResp, beResp, hmResp, kpiResp] = await Promise.all([
-          fetch(`${API_BASE_URL}/v1/report/overview/time-series?granularity=${granularity}&period_months=${periodMonths}&product_group=${encodeURIComponent(productGroup)}&mode=${mode}`),
-          fetch(byEntityUrl),
-          fetch(`${API_BASE_URL}/v1/report/overview/heatmap?period_months=${periodMonths}`),
-          fetch(`${API_BASE_URL}/v1/report/overview/kpis?period_months=${periodMonths}&product_group=${encodeURIComponent(productGroup)}&entity_limit=${entityLimit}`)
-        ]);
-        
-        // Check all responses
-        if (!tsResp.ok) throw new Error(`Time-series failed: ${tsResp.status}`);
-        if (!beResp.ok) throw new Error(`By-entity failed: ${beResp.status}`);
-        if (!hmResp.ok) throw new Error(`Heatmap failed: ${hmResp.status}`);
-        if (!kpiResp.ok) throw new Error(`KPIs failed: ${kpiResp.status}`);
-        
-        // Parse all data
+        // Responses are validated by the typed API module; any mismatch rejects here
         const [tsData, beData, hmData, kpiData] = await Promise.all([
-          tsResp.json(),
-          beResp.json(),
-          hmResp.json(),
-          kpiResp.json()
+          getOverviewTimeSeries({ granularity, periodMonths, productGroup, mode }),
+          getOverviewByEntity({ periodMonths, limit: entityLimit, productGroup }),
+          getOverviewHeatmap(periodMonths),
+          getOverviewKpis({ periodMonths, productGroup, entityLimit })
         ]);
         
         // Update all state at once - only show final complete data
-        logger.log(`✅ Data received: timeSeries=${Array.isArray(tsData) ? tsData.length : 0}, byEntity=${Array.isArray(beData) ? beData.length : 0}, KPIs=${kpiData ? 'ok' : 'null'}`);
-        setOverviewSeries(Array.isArray(tsData) ? tsData : []);
-        setOverviewByEntity(Array.isArray(beData) ? beData : []);
+        logger.log(`✅ Data received: timeSeries=${tsData.length}, byEntity=${beData.length}, KPIs=ok`);
+        setOverviewSeries(tsData);
+        setOverviewByEntity(beData);
         setOverallKPIs(kpiData);
-        if (hmData.heatmap && Array.isArray(hmData.heatmap)) {
-          setHeatmapData(hmData.heatmap);
-          setHeatmapProductGroups(Array.isArray(hmData.product_groups) ? hmData.product_groups : []);
-        } else {
-          setHeatmapData([]);
-          setHeatmapProductGroups([]);
-        }
+        setHeatmapData(hmData.heatmap);
+        setHeatmapProductGroups(hmData.product_groups);
         setCurrentPage(1);
         
         // Mark data as ready - now show it
         setDataReady(true);
       } catch (e) {
+        logger.error('❌ Failed to load sales overview:', e);
         // On error, set empty states
         setOverviewSeries([]);
         setOverviewByEntity([]);
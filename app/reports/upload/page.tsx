@@ -0,0 +1,18 @@
+'use client';
+
+import React from 'react';
+import PageLayout from '../../components/PageLayout';
+import TransactionUpload from '../../components/TransactionUpload';
+
+export default function UploadTransactionsPage() {
+  return (
+    <PageLayout
+      title="Upload Transactions"
+      description="Validate a monthly transaction extract and load it into the knowledge base"
+      currentPage="reports"
+      backHref="/reports"
+    >
+      <TransactionUpload />
+    </PageLayout>
+  );
+}
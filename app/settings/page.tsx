@@ -13,8 +13,17 @@ import { supabase, getCurrentUser, signOut } from "@/lib/supabase";
 import { getUserSessions, type ChatSession } from "@/lib/supabase-chat";
 import { useUser } from "@/app/contexts/UserContext";
 import Notification, { useNotifications } from "../components/Notification";
+import DatasetCard from "../components/DatasetCard";
+import SharedLinksCard from "../components/SharedLinksCard";
+import {
+  getEmailSubscription,
+  listChatSummaries,
+  sendSpotlightEmail,
+  updateEmailSubscription,
+  backendErrorDetail,
+  type ChatSummaryListItem,
+} from "@/lib/backend-api";
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
 export default function SettingsPage() {
   const router = useRouter();
@@ -38,13 +47,7 @@ export default function SettingsPage() {
   // Email Management state
   const [useCustomEmail, setUseCustomEmail] = useState(false);
   const [customEmail, setCustomEmail] = useState<string>('');
-  const [availableSummaries, setAvailableSummaries] = useState<Array<{
-    period_start: string;
-    period_end: string;
-    time_range: string;
-    message_count: number;
-    created_at?: string;
-  }>>([]);
+  const [availableSummaries, setAvailableSummaries] = useState<ChatSummaryListItem[]>([]);
   const [summariesLoading, setSummariesLoading] = useState(false);
   const [sendingEmail, setSendingEmail] = useState<string | null>(null); // Track which summary is being sent
   const [isEmailManagementExpanded, setIsEmailManagementExpanded] = useState(false);
@@ -261,39 +264,24 @@ export default function SettingsPage() {
 
   const loadSubscriptionStatus = async (uid: string) => {
     try {
-      // Make request with timeout to ensure it completes quickly
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+      // Short timeout so the toggle never waits on a cold backend
+      const data = await getEmailSubscription(uid, { timeoutMs: 5000 });
       
-      const response = await fetch(`${API_BASE_URL}/v1/email-subscription?user_id=${uid}`, {
-        signal: controller.signal
-      });
-      clearTimeout(timeoutId);
+      setIsSubscribed(data.subscribed);
+      setSubscriptionFrequency(data.frequency);
       
-      if (response.ok) {
-        const data = await response.json();
-        const newSubscribed = data.subscribed || false;
-        const newFrequency = data.frequency || 'week';
-        
-        setIsSubscribed(newSubscribed);
-        setSubscriptionFrequency(newFrequency);
-        
-        // Cache in localStorage for instant load on next visit
-        localStorage.setItem('emailSubscription', JSON.stringify({
-          subscribed: newSubscribed,
-          frequency: newFrequency,
-          userId: uid,
-          updatedAt: Date.now()
-        }));
-        
-        setSubscriptionLoaded(true);
-      } else {
-        // If backend fails, keep cached value and mark as loaded to avoid flash
-        setSubscriptionLoaded(true);
-      }
+      // Cache in localStorage for instant load on next visit
+      localStorage.setItem('emailSubscription', JSON.stringify({
+        subscribed: data.subscribed,
+        frequency: data.frequency,
+        userId: uid,
+        updatedAt: Date.now()
+      }));
+      
+      setSubscriptionLoaded(true);
     } catch (error) {
       logger.error("Error loading subscription status:", error);
-      // On error, mark as loaded to use cached value (prevents infinite loading state)
+      // On error, keep the cached value and mark as loaded (prevents infinite loading state)
       setSubscriptionLoaded(true);
     }
   };
@@ -306,11 +294,7 @@ export default function SettingsPage() {
   const loadAvailableSummaries = async (uid: string) => {
     try {
       setSummariesLoading(true);
-      const response = await fetch(`${API_BASE_URL}/v1/chat-summaries/list?user_id=${uid}`);
-      if (response.ok) {
-        const data = await response.json();
-        setAvailableSummaries(data.summaries || []);
-      }
+      setAvailableSummaries(await listChatSummaries(uid));
     } catch (error) {
       logger.error("Error loading summaries:", error);
     } finally {
@@ -332,31 +316,19 @@ export default function SettingsPage() {
     setSendingEmail(summaryKey);
     
     try {
-      const response = await fetch(`${API_BASE_URL}/v1/send-spotlight-email`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          period_start: summary.period_start,
-          period_end: summary.period_end,
-          time_range: summary.time_range,
-          custom_email: emailToUse || undefined
-        }),
+      await sendSpotlightEmail({
+        user_id: userId,
+        period_start: summary.period_start,
+        period_end: summary.period_end,
+        time_range: summary.time_range,
+        custom_email: emailToUse || undefined
       });
 
-              if (response.ok) {
-                const data = await response.json();
-                const emailAddress = emailToUse || userEmail || 'your email';
-                showNotification(`Email sent successfully to ${emailAddress}!`, 'success');
-              } else {
-                const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }));
-                throw new Error(errorData.detail || 'Failed to send email');
-              }
+              const emailAddress = emailToUse || userEmail || 'your email';
+              showNotification(`Email sent successfully to ${emailAddress}!`, 'success');
             } catch (error: any) {
               logger.error("Error sending email:", error);
-              showNotification(`Failed to send email: ${error.message || 'Unknown error'}`, 'error');
+              showNotification(`Failed to send email: ${backendErrorDetail(error)}`, 'error');
             } finally {
               setSendingEmail(null);
             }
@@ -367,40 +339,29 @@ export default function SettingsPage() {
     
     setSubscriptionLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/v1/email-subscription`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          subscribed,
-          frequency,
-        }),
+      const data = await updateEmailSubscription({
+        user_id: userId,
+        subscribed,
+        frequency,
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        setIsSubscribed(data.subscribed);
-        setSubscriptionFrequency(data.frequency);
-        
-        // Update localStorage cache immediately
-        if (userId) {
-          localStorage.setItem('emailSubscription', JSON.stringify({
-            subscribed: data.subscribed,
-            frequency: data.frequency,
-            userId: userId,
-            updatedAt: Date.now()
-          }));
-        }
-        
-        if (subscribed) {
-          showNotification(`Successfully subscribed to ${frequency === 'week' ? 'weekly' : 'monthly'} Spotlight emails!`, 'success');
-        } else {
-          showNotification('Successfully unsubscribed from Spotlight emails.', 'success');
-        }
+      setIsSubscribed(data.subscribed);
+      setSubscriptionFrequency(data.frequency);
+      
+      // Update localStorage cache immediately
+      if (userId) {
+        localStorage.setItem('emailSubscription', JSON.stringify({
+          subscribed: data.subscribed,
+          frequency: data.frequency,
+          userId: userId,
+          updatedAt: Date.now()
+        }));
+      }
+      
+      if (subscribed) {
+        showNotification(`Successfully subscribed to ${frequency === 'week' ? 'weekly' : 'monthly'} Spotlight emails!`, 'success');
       } else {
-        throw new Error('Failed to update subscription');
+        showNotification('Successfully unsubscribed from Spotlight emails.', 'success');
       }
     } catch (error) {
       logger.error("Error updating subscription:", error);
@@ -963,6 +924,16 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          {/* Dataset Section */}
+          <div className="max-w-2xl mx-auto px-4 sm:px-6 pb-6 sm:pb-8">
+            <DatasetCard />
+          </div>
+
+          {/* Shared Links Section */}
+          <div className="max-w-2xl mx-auto px-4 sm:px-6 pb-6 sm:pb-8">
+            <SharedLinksCard userId={contextUserId} />
+          </div>
+
           {/* Spacer to push sign out button down */}
           <div className="h-16"></div>
         </div>
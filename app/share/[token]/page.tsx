@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Image from "next/image";
+import { Loader2, Paperclip } from "lucide-react";
+import { logger } from "@/lib/logger";
+import { activeBranch } from "@/lib/message-tree";
+import { splitAttachmentNote } from "@/lib/supabase-chat";
+import { getSharedConversation, type SharedConversation } from "@/lib/session-shares";
+import { AnswerMarkdown, CollapsibleSources, MentionText } from "../../components/MessageContent";
+import CitationPanel from "../../components/CitationPanel";
+import ThemeToggle from "../../components/ThemeToggle";
+
+// Public, read-only view of a conversation shared with a link; no account or composer
+export default function SharedConversationPage() {
+  const params = useParams<{ token: string }>();
+  const token = params?.token;
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openCitation, setOpenCitation] = useState<{ messageIndex: number; sourceIndex: number } | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    getSharedConversation(token)
+      .then((shared) => {
+        setConversation(shared);
+        if (!shared) setError("This link is invalid or has been revoked.");
+      })
+      .catch((err: any) => {
+        logger.error("❌ SharedConversationPage: load failed:", err);
+        setError(err.message || "Could not load the conversation");
+      })
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  // The thread the owner last worked on; other branches are not shown
+  const messages = conversation
+    ? activeBranch(conversation.messages.map((message) => ({ ...message, parentId: message.parent_id })))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-slate-900">
+      <nav className="fixed top-0 left-0 right-0 h-16 bg-white/80 dark:bg-slate-900/80 backdrop-blur-md z-40 border-b border-gray-200 dark:border-slate-700">
+        <div className="h-full max-w-4xl mx-auto px-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Image src="/pure-icon.png" alt="Retail Assistant" width={32} height={32} className="w-10 h-10" />
+            <div className="min-w-0">
+              <h1 className="text-lg font-semibold text-gray-900 dark:text-white font-title truncate">
+                {conversation?.title || "Shared conversation"}
+              </h1>
+              {conversation && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 font-body">
+                  Read-only · shared {new Date(conversation.sharedAt).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </nav>
+
+      <main className="max-w-4xl mx-auto px-6 pt-24 pb-16 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-16 text-gray-500 dark:text-gray-400 font-body">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading conversation…
+          </div>
+        ) : error ? (
+          <p className="py-16 text-center text-gray-600 dark:text-gray-400 font-body">{error}</p>
+        ) : (
+          messages.map((message, index) => {
+            const { text, attachments } =
+              message.role === "user" ? splitAttachmentNote(message.content) : { text: message.content, attachments: [] };
+            return (
+              <div key={message.id} className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+                <div
+                  className={`max-w-[75%] rounded-2xl px-4 py-2.5 font-caslon ${
+                    message.role === "user" ? "bg-black text-white" : "bg-gray-200 dark:bg-slate-700 text-gray-900 dark:text-white"
+                  }`}
+                >
+                  {attachments.length > 0 && (
+                    <div className="mb-1 flex flex-wrap gap-2 text-xs opacity-75">
+                      {attachments.map((name) => (
+                        <span key={name} className="flex items-center gap-1">
+                          <Paperclip className="w-3 h-3" /> {name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {message.role === "user" ? (
+                    // Entity reports need an account, so mentions are not links here
+                    <MentionText text={text} linked={false} />
+                  ) : message.cancelled && !message.content ? (
+                    <p className="text-sm italic opacity-75">Response cancelled</p>
+                  ) : (
+                    <div className="prose prose-sm max-w-none dark:prose-invert">
+                      <AnswerMarkdown
+                        content={message.content}
+                        sources={message.sources}
+                        onCite={(sourceIndex) => setOpenCitation({ messageIndex: index, sourceIndex })}
+                      />
+                    </div>
+                  )}
+                  {message.sources && message.sources.length > 0 && (
+                    <CollapsibleSources
+                      sources={message.sources}
+                      onOpen={(sourceIndex) => setOpenCitation({ messageIndex: index, sourceIndex })}
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </main>
+
+      <CitationPanel
+        sources={openCitation ? messages[openCitation.messageIndex]?.sources || [] : []}
+        activeIndex={openCitation?.sourceIndex ?? null}
+        onSelect={(sourceIndex) => setOpenCitation((current) => (current ? { ...current, sourceIndex } : current))}
+        onClose={() => setOpenCitation(null)}
+      />
+    </div>
+  );
+}
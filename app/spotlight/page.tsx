@@ -11,14 +11,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import TopNav from '../components/TopNav';
 import Sidebar from '../components/Sidebar';
 import { supabase, getCurrentUser } from '@/lib/supabase';
-import { getUserSessions, getSessionMessages, type ChatSession } from '@/lib/supabase-chat';
+import { currentBranch, getUserSessions, getSessionMessages, type ChatSession } from '@/lib/supabase-chat';
+import type { SourceCitation } from '@/lib/citations';
+import { backendFetch, BACKEND_BASE_URL } from '@/lib/backend-client';
+import { summaryPeriod, periodDate } from '@/lib/summary-periods';
+import { getChatSummary, textToSpeech, type ChatSummary, type TextToSpeechRequest } from '@/lib/backend-api';
 import { useUser } from '@/app/contexts/UserContext';
 import { MessageSquare, Calendar, ArrowRight, ChevronDown, ChevronUp, Loader2, ArrowUpDown, SortAsc, SortDesc, Play, Pause, Volume2 } from 'lucide-react';
 import Image from 'next/image';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
 interface Message {
   id: number;
@@ -26,7 +29,7 @@ interface Message {
   session_id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: string[] | null;
+  sources?: SourceCitation[] | null;
 }
 
 interface GroupedMessages {
@@ -166,7 +169,7 @@ export default function SpotlightPage() {
         }> = [];
 
         for (const session of sessions) {
-          const messages = await getSessionMessages(session.id);
+          const messages = currentBranch(await getSessionMessages(session.id));
           const sessionTitle = session.title || `Chat ${new Date(session.created_at).toLocaleDateString()}`;
           
           for (const msg of messages) {
@@ -241,27 +244,13 @@ export default function SpotlightPage() {
       const date = new Date(message.created_at);
       let periodKey: string;
       let periodLabel: string;
-      let startDate: Date;
-      let endDate: Date;
+      // Weeks start on Sunday
+      const { startDate, endDate } = summaryPeriod(date, range);
 
       if (range === 'week') {
-        // Get start of week (Sunday)
-        const day = date.getDay();
-        const diff = date.getDate() - day;
-        startDate = new Date(date);
-        startDate.setDate(startDate.getDate() - day);
-        startDate.setHours(0, 0, 0, 0);
-        
-        endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + 6);
-        endDate.setHours(23, 59, 59, 999);
-        
         periodKey = `week-${startDate.getFullYear()}-W${getWeekNumber(startDate)}`;
         periodLabel = `${startDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${endDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
       } else {
-        // Get start of month
-        startDate = new Date(date.getFullYear(), date.getMonth(), 1);
-        endDate = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
         periodKey = `month-${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
         periodLabel = date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
       }
@@ -287,9 +276,10 @@ export default function SpotlightPage() {
 
     // Test backend connection first
     try {
-      const healthCheck = await fetch(`${API_BASE_URL}/health`, { 
+      const healthCheck = await backendFetch('/health', { 
         method: 'GET',
-        signal: AbortSignal.timeout(5000) // 5 second timeout for health check
+        timeoutMs: 5000, // 5 second timeout for health check
+        retries: 0
       });
       if (!healthCheck.ok) {
         logger.warn('[Spotlight] ⚠️ Backend health check failed:', healthCheck.status);
@@ -371,69 +361,53 @@ export default function SpotlightPage() {
           messages_sample: messagesForSummary.slice(0, 2)
         });
 
-        // Create abort controller for timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
-
-        let response;
+        // The typed API applies the chat-summary timeout and validates the response
+        let data: ChatSummary;
         try {
-          response = await fetch(`${API_BASE_URL}/v1/chat-summary`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              user_id: userId,
-              period_start: group.startDate.toISOString().split('T')[0],
-              period_end: group.endDate.toISOString().split('T')[0],
-              time_range: timeRange,
-              message_count: group.messages.length,
-              messages: messagesForSummary
-            }),
-            signal: controller.signal
+          data = await getChatSummary({
+            user_id: userId,
+            period_start: periodDate(group.startDate),
+            period_end: periodDate(group.endDate),
+            time_range: timeRange,
+            message_count: group.messages.length,
+            messages: messagesForSummary
           });
-          clearTimeout(timeoutId);
         } catch (fetchError: any) {
-          clearTimeout(timeoutId);
-          if (fetchError.name === 'AbortError') {
-            logger.error(`[Spotlight] ⏱️ Request timeout after 60 seconds`);
+          if (fetchError?.code === 'BACKEND_TIMEOUT') {
+            logger.error(`[Spotlight] ⏱️ Request timeout`);
             throw new Error('Request timeout: Backend took too long to respond');
           }
+          if (fetchError?.code === 'BACKEND_ERROR') {
+            logger.error(`[Spotlight] ❌ Failed to generate summary:`, fetchError.details);
+            setSummaries(prev => {
+              const newMap = new Map(prev);
+              newMap.set(periodKey, {
+                summary: '',
+                cached: false,
+                loading: false
+              });
+              return newMap;
+            });
+            continue;
+          }
           throw fetchError;
         }
 
-        logger.log(`[Spotlight] 📡 Summary response:`, response.status, response.statusText);
-
-        if (response.ok) {
-          const data = await response.json();
-          logger.log(`[Spotlight] ✅ Summary received:`, { 
-            cached: data.cached, 
-            summary_length: data.summary?.length || 0,
-            summary_preview: data.summary?.substring(0, 100) || 'empty'
-          });
-          
-          setSummaries(prev => {
-            const newMap = new Map(prev);
-            newMap.set(periodKey, {
-              summary: data.summary || '',
-              cached: data.cached || false,
-              loading: false
-            });
-            return newMap;
-          });
-        } else {
-          const errorText = await response.text().catch(() => 'Unknown error');
-          logger.error(`[Spotlight] ❌ Failed to generate summary: ${response.status} ${response.statusText}`, errorText);
-          setSummaries(prev => {
-            const newMap = new Map(prev);
-            newMap.set(periodKey, {
-              summary: '',
-              cached: false,
-              loading: false
-            });
-            return newMap;
+        logger.log(`[Spotlight] ✅ Summary received:`, { 
+          cached: data.cached, 
+          summary_length: data.summary.length,
+          summary_preview: data.summary.substring(0, 100) || 'empty'
+        });
+        
+        setSummaries(prev => {
+          const newMap = new Map(prev);
+          newMap.set(periodKey, {
+            summary: data.summary,
+            cached: data.cached,
+            loading: false
           });
-        }
+          return newMap;
+        });
       } catch (error: any) {
         logger.error('[Spotlight] ❌ Error fetching summary:', error);
         logger.error('[Spotlight] ❌ Error details:', {
@@ -446,7 +420,7 @@ export default function SpotlightPage() {
         setSummaries(prev => {
           const newMap = new Map(prev);
           newMap.set(periodKey, {
-            summary: `Error: ${errorMessage}. Please ensure the backend is running at ${API_BASE_URL}`,
+            summary: `Error: ${errorMessage}. Please ensure the backend is running at ${BACKEND_BASE_URL}`,
             cached: false,
             loading: false
           });
@@ -624,7 +598,7 @@ export default function SpotlightPage() {
       updatePlayingState(periodKey, { isPlaying: true, isPaused: false });
       
       // Build request body with caching params if available
-      const requestBody: any = {
+      const requestBody: TextToSpeechRequest = {
         text: summaryText,
         voice_id: 'JBFqnCBsd6RMkjVDRZzb',
         model_id: 'eleven_multilingual_v2'
@@ -640,92 +614,74 @@ export default function SpotlightPage() {
       }
       
       // Call backend TTS endpoint
-      const response = await fetch(`${API_BASE_URL}/v1/text-to-speech`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
-      });
+      const blob = await textToSpeech(requestBody);
 
-      if (response.ok) {
-        const blob = await response.blob();
+      // Convert blob to base64 for persistent caching
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        const base64data = reader.result as string;
         
-        // Convert blob to base64 for persistent caching
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64data = reader.result as string;
-          
-          // Create audio from base64
-          const audio = new Audio(base64data);
-          audioRefs.current.set(periodKey, audio);
+        // Create audio from base64
+        const audio = new Audio(base64data);
+        audioRefs.current.set(periodKey, audio);
+        
+        // Set up progress tracking
+        audio.addEventListener('loadedmetadata', () => {
+          const duration = audio.duration;
+          updatePlayingState(periodKey, { duration });
           
-          // Set up progress tracking
-          audio.addEventListener('loadedmetadata', () => {
-            const duration = audio.duration;
-            updatePlayingState(periodKey, { duration });
-            
-            // Clear loading state when audio is ready
-            setAudioLoading(prev => {
-              const newMap = new Map(prev);
-              newMap.delete(periodKey);
-              return newMap;
-            });
-            
-            // Cache the audio as base64
-            setAudioCache(prev => {
-              const newCache = new Map(prev);
-              newCache.set(periodKey, { dataUrl: base64data, duration });
-              
-              // Save to localStorage for page refresh
-              try {
-                const cacheData: Record<string, { dataUrl: string; duration: number }> = {};
-                newCache.forEach((value, key) => {
-                  cacheData[key] = value;
-                });
-                localStorage.setItem('audioCache', JSON.stringify(cacheData));
-                logger.log('✅ Cached audio for', periodKey);
-              } catch (e) {
-                logger.warn('Failed to cache audio to localStorage:', e);
-              }
-              
-              return newCache;
-            });
+          // Clear loading state when audio is ready
+          setAudioLoading(prev => {
+            const newMap = new Map(prev);
+            newMap.delete(periodKey);
+            return newMap;
           });
           
-          audio.addEventListener('timeupdate', () => {
-            if (isSeeking !== periodKey && audio.duration) {
-              const progress = (audio.currentTime / audio.duration) * 100;
-              updatePlayingState(periodKey, { progress });
+          // Cache the audio as base64
+          setAudioCache(prev => {
+            const newCache = new Map(prev);
+            newCache.set(periodKey, { dataUrl: base64data, duration });
+            
+            // Save to localStorage for page refresh
+            try {
+              const cacheData: Record<string, { dataUrl: string; duration: number }> = {};
+              newCache.forEach((value, key) => {
+                cacheData[key] = value;
+              });
+              localStorage.setItem('audioCache', JSON.stringify(cacheData));
+              logger.log('✅ Cached audio for', periodKey);
+            } catch (e) {
+              logger.warn('Failed to cache audio to localStorage:', e);
             }
+            
+            return newCache;
           });
-          
-          audio.addEventListener('ended', () => {
-            updatePlayingState(periodKey, { isPlaying: false, isPaused: false, progress: 0 });
-          });
-          
-          audio.addEventListener('error', (e) => {
-            logger.error('Audio playback error for', periodKey, e);
-            updatePlayingState(periodKey, { isPlaying: false, isPaused: false, progress: 0 });
-            setAudioLoading(prev => {
-              const newMap = new Map(prev);
-              newMap.delete(periodKey);
-              return newMap;
-            });
+        });
+        
+        audio.addEventListener('timeupdate', () => {
+          if (isSeeking !== periodKey && audio.duration) {
+            const progress = (audio.currentTime / audio.duration) * 100;
+            updatePlayingState(periodKey, { progress });
+          }
+        });
+        
+        audio.addEventListener('ended', () => {
+          updatePlayingState(periodKey, { isPlaying: false, isPaused: false, progress: 0 });
+        });
+        
+        audio.addEventListener('error', (e) => {
+          logger.error('Audio playback error for', periodKey, e);
+          updatePlayingState(periodKey, { isPlaying: false, isPaused: false, progress: 0 });
+          setAudioLoading(prev => {
+            const newMap = new Map(prev);
+            newMap.delete(periodKey);
+            return newMap;
           });
-          
-          audio.play();
-        };
-        reader.readAsDataURL(blob);
-      } else {
-        logger.error('TTS failed:', response.statusText);
-        updatePlayingState(periodKey, { isPlaying: false, isPaused: false });
-        setAudioLoading(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(periodKey);
-          return newMap;
         });
-      }
+        
+        audio.play();
+      };
+      reader.readAsDataURL(blob);
     } catch (error) {
       logger.error('TTS error:', error);
       updatePlayingState(periodKey, { isPlaying: false, isPaused: false });
@@ -1303,7 +1259,7 @@ export default function SpotlightPage() {
                                     {message.sources && message.sources.length > 0 && (
                                       <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600">
                                         <p className="text-xs text-gray-500 dark:text-gray-400 font-body">
-                                          Sources: {message.sources.join(', ')}
+                                          Sources: {message.sources.map(source => source.document).join(', ')}
                                         </p>
                                       </div>
                                     )}
@@ -1644,7 +1600,7 @@ export default function SpotlightPage() {
                                     {message.sources && message.sources.length > 0 && (
                                       <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-600">
                                         <p className="text-xs text-gray-500 dark:text-gray-400 font-body">
-                                          Sources: {message.sources.join(', ')}
+                                          Sources: {message.sources.map(source => source.document).join(', ')}
                                         </p>
                                       </div>
                                     )}
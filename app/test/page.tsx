@@ -1,110 +1,148 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { logger } from "@/lib/logger";
+import type { CheckStatus, DependencyName, ReadinessReport } from "@/lib/health-checks";
+
+const CHECK_LABELS: Record<DependencyName, string> = {
+  backend: "Backend API",
+  supabase_auth: "Supabase Auth",
+  supabase_db: "Supabase Database",
+  tts: "Text-to-Speech",
+  environment: "Environment Variables",
+};
+
+const CHECK_HINTS: Record<DependencyName, string> = {
+  backend: "Check BACKEND_URL and that the backend is running: curl $BACKEND_URL/health. Render backends can take ~30s to wake up.",
+  supabase_auth: "Check NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY and that the Supabase project is not paused.",
+  supabase_db: "Check that the migrations in supabase/migrations have been applied and the sessions table exists.",
+  tts: "The backend must expose POST /v1/text-to-speech with its TTS provider key configured.",
+  environment: "Copy env_local_example.txt to .env.local and fill in the missing values for the active profile (NEXT_PUBLIC_APP_PROFILE), then restart the dev server.",
+};
+
+const STATUS_STYLES: Record<CheckStatus, string> = {
+  pass: "bg-green-100 text-green-800",
+  warn: "bg-yellow-100 text-yellow-800",
+  fail: "bg-red-100 text-red-800",
+};
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: "✅",
+  warn: "⚠️",
+  fail: "❌",
+};
+
+const OVERALL_STYLES: Record<ReadinessReport["status"], string> = {
+  ready: "bg-green-100 text-green-800",
+  degraded: "bg-yellow-100 text-yellow-800",
+  unready: "bg-red-100 text-red-800",
+};
 
 export default function TestPage() {
-  const [apiUrl, setApiUrl] = useState("");
-  const [healthStatus, setHealthStatus] = useState("checking");
+  const [report, setReport] = useState<ReadinessReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
   const [error, setError] = useState("");
+  const [expanded, setExpanded] = useState<DependencyName | null>(null);
 
-  useEffect(() => {
-    const url = process.env.NEXT_PUBLIC_API_URL || "NOT SET";
-    setApiUrl(url);
-    
-    if (url !== "NOT SET") {
-      testConnection(url);
-    }
-  }, []);
-
-  const testConnection = async (url: string) => {
+  const runChecks = useCallback(async () => {
+    setIsChecking(true);
+    setError("");
     try {
-      logger.log("Testing connection to:", url);
-      const response = await fetch(`${url}/health`, {
-        method: "GET",
-        mode: "cors",
-      });
-      logger.log("Response:", response);
-      
-      if (response.ok) {
-        const data = await response.json();
-        logger.log("Data:", data);
-        setHealthStatus("connected");
-      } else {
-        setHealthStatus("error");
-        setError(`HTTP ${response.status}`);
-      }
+      // 503 still carries the report; only a missing body is an error
+      const response = await fetch("/api/health/ready", { cache: "no-store" });
+      const data: ReadinessReport = await response.json();
+      logger.log("Readiness:", data);
+      setReport(data);
     } catch (err: any) {
-      logger.error("Connection error:", err);
-      setHealthStatus("error");
-      setError(err.message);
+      logger.error("Readiness check failed:", err);
+      setError(err.message || "Could not reach /api/health/ready");
+    } finally {
+      setIsChecking(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    runChecks();
+  }, [runChecks]);
 
   return (
     <div className="min-h-screen bg-slate-50 p-8">
       <div className="max-w-4xl mx-auto bg-white rounded-lg shadow-lg p-8">
-        <h1 className="text-3xl font-bold mb-8">Backend Connection Test</h1>
-        
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold">System Diagnostics</h1>
+          <button
+            onClick={runChecks}
+            disabled={isChecking}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isChecking ? "Checking..." : "Run Checks Again"}
+          </button>
+        </div>
+
         <div className="space-y-6">
           <div>
-            <h2 className="text-xl font-semibold mb-2">Environment Variable</h2>
-            <div className="bg-slate-100 p-4 rounded font-mono text-sm">
-              NEXT_PUBLIC_API_URL = {apiUrl || "undefined"}
-            </div>
+            <h2 className="text-xl font-semibold mb-2">Overall Status</h2>
+            {error ? (
+              <div className="p-4 rounded font-semibold bg-red-100 text-red-800">❌ Error: {error}</div>
+            ) : report ? (
+              <div className={`p-4 rounded font-semibold ${OVERALL_STYLES[report.status]}`}>
+                {report.status === "ready" ? "✅ Ready" : report.status === "degraded" ? "⚠️ Degraded" : "❌ Not ready"}
+                <span className="ml-2 font-normal text-sm">
+                  checked {new Date(report.timestamp).toLocaleTimeString()}
+                </span>
+              </div>
+            ) : (
+              <div className="p-4 rounded font-semibold bg-yellow-100 text-yellow-800">🔄 Checking...</div>
+            )}
           </div>
 
-          <div>
-            <h2 className="text-xl font-semibold mb-2">Connection Status</h2>
-            <div className={`p-4 rounded font-semibold ${
-              healthStatus === "connected" ? "bg-green-100 text-green-800" :
-              healthStatus === "error" ? "bg-red-100 text-red-800" :
-              "bg-yellow-100 text-yellow-800"
-            }`}>
-              {healthStatus === "connected" ? "✅ Connected" :
-               healthStatus === "error" ? `❌ Error: ${error}` :
-               "🔄 Checking..."}
-            </div>
-          </div>
+          {report && (
+            <div>
+              <h2 className="text-xl font-semibold mb-2">Dependencies</h2>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+                {report.checks.map((check) => (
+                  <div key={check.name} className="p-4">
+                    <button
+                      onClick={() => setExpanded(expanded === check.name ? null : check.name)}
+                      className="w-full flex items-center justify-between text-left"
+                    >
+                      <div className="flex items-center gap-3">
+                        <span className={`px-2 py-1 rounded text-xs font-semibold uppercase ${STATUS_STYLES[check.status]}`}>
+                          {STATUS_ICONS[check.status]} {check.status}
+                        </span>
+                        <span className="font-semibold">{CHECK_LABELS[check.name]}</span>
+                        <span className="text-sm text-slate-600">{check.message}</span>
+                      </div>
+                      <span className="font-mono text-sm text-slate-500">{check.latencyMs} ms</span>
+                    </button>
 
-          <div>
-            <h2 className="text-xl font-semibold mb-2">Manual Test</h2>
-            <button
-              onClick={() => testConnection(apiUrl)}
-              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-            >
-              Test Connection Again
-            </button>
-          </div>
+                    {expanded === check.name && (
+                      <div className="mt-3 space-y-2 text-sm">
+                        {check.status !== "pass" && <p className="text-slate-700">{CHECK_HINTS[check.name]}</p>}
+                        {check.details && (
+                          <pre className="bg-slate-100 p-4 rounded font-mono text-xs overflow-x-auto">
+                            {JSON.stringify(check.details, null, 2)}
+                          </pre>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
 
           <div>
-            <h2 className="text-xl font-semibold mb-2">Direct Links</h2>
+            <h2 className="text-xl font-semibold mb-2">Endpoints</h2>
             <div className="space-y-2">
-              <a 
-                href={`${apiUrl}/health`}
-                target="_blank"
-                className="block text-blue-600 hover:underline"
-              >
-                {apiUrl}/health
+              <a href="/api/health/ready" target="_blank" className="block text-blue-600 hover:underline">
+                /api/health/ready
               </a>
-              <a 
-                href={`${apiUrl}/docs`}
-                target="_blank"
-                className="block text-blue-600 hover:underline"
-              >
-                {apiUrl}/docs
+              <a href="/api/health" target="_blank" className="block text-blue-600 hover:underline">
+                /api/health
               </a>
             </div>
           </div>
-
-          <div>
-            <h2 className="text-xl font-semibold mb-2">Troubleshooting</h2>
-            <ul className="list-disc list-inside space-y-2 text-sm text-slate-700">
-              <li>Check that backend is running: <code className="bg-slate-100 px-2 py-1 rounded">ps aux | grep uvicorn</code></li>
-              <li>Check backend health directly: <code className="bg-slate-100 px-2 py-1 rounded">curl http://localhost:8000/health</code></li>
-              <li>Restart frontend: <code className="bg-slate-100 px-2 py-1 rounded">pkill -f "next dev" && cd test-client && npm run dev</code></li>
-            </ul>
-          </div>
         </div>
 
         <div className="mt-8 pt-8 border-t">
@@ -114,4 +152,3 @@ export default function TestPage() {
     </div>
   );
 }
-
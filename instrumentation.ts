@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { validateConfig } = await import('./lib/config');
+    // Throws a ConfigError listing every missing or invalid variable
+    validateConfig();
+  }
+}
@@ -0,0 +1,27 @@
+import { createClient } from '@supabase/supabase-js';
+import type { NextRequest } from 'next/server';
+import { ApiError } from '@/lib/api-errors';
+import { config } from '@/lib/config';
+
+/**
+ * Server-side check of the Supabase user behind an /api request. The browser keeps its
+ * session in localStorage, so routes receive the access token as a bearer header
+ * (see authHeaders in lib/supabase).
+ */
+
+export async function requireUser(request: NextRequest): Promise<{ id: string; email: string | null }> {
+  const header = request.headers.get('authorization') || '';
+  const token = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
+  if (!token || !config.supabase) {
+    throw new ApiError('UNAUTHORIZED', 'Sign in to upload data');
+  }
+
+  const supabase = createClient(config.supabase.url, config.supabase.anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new ApiError('UNAUTHORIZED', 'Your session has expired. Please sign in again.');
+  }
+  return { id: data.user.id, email: data.user.email ?? null };
+}
@@ -0,0 +1,114 @@
+/**
+ * Error envelope returned by the /api routes.
+ * Shared by the route handlers and the browser, so it must stay free of server-only imports.
+ */
+
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'UPLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_ATTACHMENT'
+  | 'BACKEND_UNREACHABLE'
+  | 'BACKEND_TIMEOUT'
+  | 'BACKEND_ERROR'
+  | 'BACKEND_CONTRACT'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorPayload {
+  code: ApiErrorCode;
+  message: string;
+  retryable: boolean;
+  details?: Record<string, unknown>;
+}
+
+export interface ApiErrorBody {
+  error: ApiErrorPayload;
+  timestamp: string;
+}
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  UPLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_ATTACHMENT: 415,
+  BACKEND_UNREACHABLE: 503,
+  BACKEND_TIMEOUT: 504,
+  BACKEND_ERROR: 502,
+  BACKEND_CONTRACT: 502,
+  INTERNAL_ERROR: 500,
+};
+
+const RETRYABLE_CODES: ApiErrorCode[] = ['BACKEND_UNREACHABLE', 'BACKEND_TIMEOUT', 'BACKEND_ERROR', 'INTERNAL_ERROR'];
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ApiErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.code = code;
+    this.details = details;
+  }
+
+  get status(): number {
+    return API_ERROR_STATUS[this.code];
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+
+  toPayload(): ApiErrorPayload {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.details ? { details: this.details } : {}),
+    };
+  }
+
+  toBody(): ApiErrorBody {
+    return { error: this.toPayload(), timestamp: new Date().toISOString() };
+  }
+}
+
+// Classify a failed fetch to the Python backend
+export function toBackendError(error: unknown, timedOut: boolean = false): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  const err = error as { name?: string; message?: string } | undefined;
+  if (timedOut || err?.name === 'TimeoutError' || err?.name === 'AbortError') {
+    return new ApiError('BACKEND_TIMEOUT', 'The backend took too long to respond. It may be waking up from a cold start.');
+  }
+  return new ApiError('BACKEND_UNREACHABLE', 'Could not connect to the backend.', {
+    cause: err?.message ?? String(error),
+  });
+}
+
+// Build an ApiError from a non-2xx backend response
+export function fromBackendStatus(status: number, body?: string): ApiError {
+  return new ApiError('BACKEND_ERROR', `Backend responded with status ${status}`, {
+    backendStatus: status,
+    ...(body ? { backendBody: body.slice(0, 500) } : {}),
+  });
+}
+
+// Read an error envelope from an /api response, falling back to a generic error
+export async function readApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  const payload = body?.error;
+  if (payload && typeof payload === 'object' && typeof payload.code === 'string') {
+    return new ApiError(payload.code, payload.message, payload.details);
+  }
+  const code: ApiErrorCode = response.status === 401
+    ? 'UNAUTHORIZED'
+    : response.status === 413
+    ? 'UPLOAD_TOO_LARGE'
+    : response.status === 415 ? 'UNSUPPORTED_ATTACHMENT'
+    : response.status >= 500 ? 'BACKEND_ERROR' : 'BAD_REQUEST';
+  return new ApiError(code, typeof payload === 'string' ? payload : `Request failed with status ${response.status}`);
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { ApiError, type ApiErrorCode } from '@/lib/api-errors';
+
+/**
+ * Server-side helpers for returning the error envelope from route handlers
+ */
+
+export function errorResponse(error: ApiError, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ ...extra, ...error.toBody() }, { status: error.status });
+}
+
+export function errorJson(code: ApiErrorCode, message: string, details?: Record<string, unknown>) {
+  return errorResponse(new ApiError(code, message, details));
+}
+
+// Limit on the combined size of files sent through /api/chat and /api/data
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
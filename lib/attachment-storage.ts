@@ -0,0 +1,107 @@
+import { supabase } from './supabase';
+import { logger } from "@/lib/logger";
+import type { StoredAttachment } from "@/lib/attachments";
+
+/**
+ * Chat attachments in Supabase Storage (private chat-attachments bucket), so a reloaded
+ * conversation can still show and download what was sent. Objects live under the session id.
+ */
+
+export const ATTACHMENT_BUCKET = 'chat-attachments';
+
+// Signed URLs are created on load; an hour covers a normal visit
+const SIGNED_URL_SECONDS = 60 * 60;
+
+function objectPath(sessionId: string, file: File): string {
+  const unique = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  return `${sessionId}/${unique}-${file.name.replace(/[^\w.\-]+/g, '_')}`;
+}
+
+// Upload the files sent with a message; files that fail are left out (the message still saves)
+export async function uploadAttachments(sessionId: string, files: File[]): Promise<StoredAttachment[]> {
+  const client = supabase;
+  if (!client) {
+    logger.error('❌ Supabase client not initialized');
+    return [];
+  }
+
+  const uploaded = await Promise.all(files.map(async (file): Promise<StoredAttachment | null> => {
+    try {
+      const path = objectPath(sessionId, file);
+      const { error } = await client.storage
+        .from(ATTACHMENT_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined, upsert: false });
+
+      if (error) {
+        logger.error('❌ Error uploading attachment:', file.name, error);
+        return null;
+      }
+
+      return { name: file.name, type: file.type, size: file.size, path };
+    } catch (error) {
+      logger.error('❌ Exception uploading attachment:', file.name, error);
+      return null;
+    }
+  }));
+
+  const stored = uploaded.filter((attachment): attachment is StoredAttachment => attachment !== null);
+  logger.log('📎 Attachments stored:', stored.length, 'of', files.length);
+  return stored;
+}
+
+// Signed download URLs keyed by object path; missing objects are left out
+export async function getAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  try {
+    if (paths.length === 0) return {};
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return {};
+    }
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+    if (error) {
+      logger.error('❌ Error signing attachment URLs:', error);
+      return {};
+    }
+
+    const urls: Record<string, string> = {};
+    (data || []).forEach(item => {
+      if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+    });
+    return urls;
+  } catch (error) {
+    logger.error('❌ Exception signing attachment URLs:', error);
+    return {};
+  }
+}
+
+// Remove every object of a session; called by deleteSession before the session row goes
+export async function deleteSessionAttachments(sessionId: string): Promise<boolean> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return false;
+    }
+
+    const bucket = supabase.storage.from(ATTACHMENT_BUCKET);
+    const { data, error } = await bucket.list(sessionId, { limit: 1000 });
+    if (error) {
+      logger.error('❌ Error listing session attachments:', error);
+      return false;
+    }
+    if (!data || data.length === 0) return true;
+
+    const { error: removeError } = await bucket.remove(data.map(object => `${sessionId}/${object.name}`));
+    if (removeError) {
+      logger.error('❌ Error deleting session attachments:', removeError);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception deleting session attachments:', error);
+    return false;
+  }
+}
@@ -0,0 +1,163 @@
+import { ApiError } from '@/lib/api-errors';
+import { cellText, normalizeHeader } from '@/lib/transaction-upload';
+
+/**
+ * Chat attachments: the limits /api/chat enforces, the same checks run in the composer,
+ * and the table preview of CSV/XLSX files. Free of server-only imports.
+ */
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+/** Same limit as MAX_UPLOAD_BYTES in lib/api-response, which is server-only */
+export const MAX_TOTAL_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+/** Rows shown in the composer's table preview */
+export const PREVIEW_TABLE_ROWS = 50;
+
+export type AttachmentKind = 'image' | 'pdf' | 'csv' | 'excel' | 'document' | 'text';
+
+// Extension → kind and the MIME types browsers report for it. Browsers send an empty or
+// generic type for some files (CSV on Windows, XLSX without Office), so the extension
+// decides in that case.
+const ATTACHMENT_TYPES: Record<string, { kind: AttachmentKind; mime: string[] }> = {
+  '.png': { kind: 'image', mime: ['image/png'] },
+  '.jpg': { kind: 'image', mime: ['image/jpeg'] },
+  '.jpeg': { kind: 'image', mime: ['image/jpeg'] },
+  '.gif': { kind: 'image', mime: ['image/gif'] },
+  '.webp': { kind: 'image', mime: ['image/webp'] },
+  '.pdf': { kind: 'pdf', mime: ['application/pdf'] },
+  '.csv': { kind: 'csv', mime: ['text/csv', 'application/csv', 'text/x-csv', 'text/plain', 'application/vnd.ms-excel'] },
+  '.xlsx': { kind: 'excel', mime: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'] },
+  '.docx': { kind: 'document', mime: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'] },
+  '.txt': { kind: 'text', mime: ['text/plain'] },
+};
+
+// Types that say nothing about the content
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+/** For the file input's accept attribute */
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).join(',');
+
+/** Attachment metadata kept with a user message (messages.attachments) */
+export interface StoredAttachment {
+  name: string;
+  type: string;
+  size: number;
+  /** Object path in the chat-attachments bucket */
+  path: string;
+}
+
+export interface TablePreview {
+  columns: string[];
+  rows: string[][];
+  totalRows: number;
+}
+
+type FileLike = Pick<File, 'name' | 'type' | 'size'>;
+
+function extension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+}
+
+export function attachmentKind(file: Pick<File, 'name' | 'type'>): AttachmentKind | null {
+  const entry = ATTACHMENT_TYPES[extension(file.name)];
+  return entry ? entry.kind : null;
+}
+
+export function isTableAttachment(file: Pick<File, 'name' | 'type'>): boolean {
+  const kind = attachmentKind(file);
+  return kind === 'csv' || kind === 'excel';
+}
+
+function formatMb(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Reason a single file is refused, or null when it is fine
+export function attachmentProblem(file: FileLike): string | null {
+  const entry = ATTACHMENT_TYPES[extension(file.name)];
+  if (!entry || (!GENERIC_MIME_TYPES.includes(file.type) && !entry.mime.includes(file.type))) {
+    return `${file.name} is not a supported file type`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatMb(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+}
+
+// Server-side check of everything sent with one message
+export function validateAttachments(files: FileLike[]): void {
+  if (files.length > MAX_ATTACHMENTS) {
+    throw new ApiError('BAD_REQUEST', `Attach at most ${MAX_ATTACHMENTS} files per message`, {
+      count: files.length,
+      limit: MAX_ATTACHMENTS,
+    });
+  }
+  for (let i = 0; i < files.length; i++) {
+    const problem = attachmentProblem(files[i]);
+    if (problem) {
+      const tooLarge = files[i].size > MAX_ATTACHMENT_BYTES;
+      throw new ApiError(tooLarge ? 'UPLOAD_TOO_LARGE' : 'UNSUPPORTED_ATTACHMENT', problem, {
+        name: files[i].name,
+        type: files[i].type,
+        size: files[i].size,
+      });
+    }
+  }
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total > MAX_TOTAL_ATTACHMENT_BYTES) {
+    throw new ApiError('UPLOAD_TOO_LARGE', `Attachments exceed the ${formatMb(MAX_TOTAL_ATTACHMENT_BYTES)} limit`, {
+      size: total,
+      limit: MAX_TOTAL_ATTACHMENT_BYTES,
+    });
+  }
+}
+
+// Composer-side split of newly picked files into accepted ones and the reasons for the rest
+export function screenAttachments(picked: File[], alreadyAttached: File[]): { accepted: File[]; rejected: string[] } {
+  const accepted: File[] = [];
+  const rejected: string[] = [];
+  let total = alreadyAttached.reduce((sum, file) => sum + file.size, 0);
+  picked.forEach(file => {
+    const problem = attachmentProblem(file);
+    if (problem) {
+      rejected.push(problem);
+    } else if (alreadyAttached.length + accepted.length >= MAX_ATTACHMENTS) {
+      rejected.push(`${file.name} was not added: at most ${MAX_ATTACHMENTS} files per message`);
+    } else if (total + file.size > MAX_TOTAL_ATTACHMENT_BYTES) {
+      rejected.push(`${file.name} was not added: attachments are limited to ${formatMb(MAX_TOTAL_ATTACHMENT_BYTES)} in total`);
+    } else {
+      accepted.push(file);
+      total += file.size;
+    }
+  });
+  return { accepted, rejected };
+}
+
+// Parse a CSV/XLSX attachment in the browser; the reader (and exceljs) loads on first use
+export async function readTablePreview(file: File): Promise<TablePreview> {
+  const { readSpreadsheet } = await import('@/lib/spreadsheet');
+  const sheet = await readSpreadsheet(file);
+  const keys = sheet.columns.map(normalizeHeader);
+  return {
+    columns: sheet.columns,
+    rows: sheet.rows.slice(0, PREVIEW_TABLE_ROWS).map(row => keys.map(key => cellText(row[key]))),
+    totalRows: sheet.rows.length,
+  };
+}
+
+// Stored rows, tolerating partial ones
+export function normalizeAttachments(raw: unknown): StoredAttachment[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((item: any) => item && typeof item.name === 'string' && typeof item.path === 'string')
+    .map((item: any) => ({
+      name: item.name,
+      type: typeof item.type === 'string' ? item.type : '',
+      size: typeof item.size === 'number' ? item.size : 0,
+      path: item.path,
+    }));
+}
@@ -0,0 +1,494 @@
+import { ApiError, fromBackendStatus } from '@/lib/api-errors';
+import { backendFetch, backendJson, type BackendRequestInit } from '@/lib/backend-client';
+import { logger } from "@/lib/logger";
+import {
+  arrayOf,
+  bool,
+  literal,
+  nullable,
+  num,
+  objectOf,
+  oneOf,
+  optional,
+  parse,
+  recordOf,
+  str,
+  unknownValue,
+  withDefault,
+  SchemaError,
+  type Infer,
+  type Schema,
+} from '@/lib/schema';
+import type { AnswerStyle } from '@/lib/session-settings';
+
+/**
+ * Typed access to every /v1 endpoint the app calls.
+ * Response shapes are declared once as schemas and checked at runtime, so a backend
+ * contract change surfaces here as a BACKEND_CONTRACT error instead of as blank charts.
+ */
+
+// ---------------------------------------------------------------------------
+// Reports
+// ---------------------------------------------------------------------------
+
+const entityListSchema = objectOf({
+  entities: arrayOf(str),
+});
+
+const entityKpiSchema = objectOf({
+  entity_id: str,
+  total_sales: num,
+  avg_sales_per_transaction: num,
+  top_product_group: str,
+  top_product_group_sales: num,
+  sales_growth_rate: optional(num),
+  period_start: str,
+  period_end: str,
+});
+
+const productGroupPerformanceSchema = objectOf({
+  product_group_code: str,
+  total_sales: num,
+  percentage_of_total: num,
+});
+
+const salesTrendSchema = objectOf({
+  period_end: str,
+  total_sales: num,
+});
+
+const entityReportSchema = objectOf({
+  entity_id: str,
+  report_period: str,
+  kpis: entityKpiSchema,
+  product_group_performance: arrayOf(productGroupPerformanceSchema),
+  sales_trends: arrayOf(salesTrendSchema),
+  ai_summary: str,
+  generated_at: str,
+});
+
+const timeSeriesPointSchema = objectOf({
+  period: str,
+  total_sales: num,
+});
+
+const entityTotalSalesSchema = objectOf({
+  entity_id: str,
+  total_sales: num,
+});
+
+const overallKpiSchema = objectOf({
+  total_sales: num,
+  total_transactions: num,
+  avg_sales_per_transaction: num,
+  total_entities: num,
+  top_product_group: str,
+  top_product_group_sales: num,
+  sales_growth_rate: optional(num),
+  period_start: str,
+  period_end: str,
+});
+
+// One row per month, with a column per product group
+const heatmapSchema = objectOf({
+  heatmap: withDefault(arrayOf(recordOf(nullable(oneOf(num, str)))), []),
+  product_groups: withDefault(arrayOf(str), []),
+});
+
+// Newer backends summarize the dataset and the vector store in one call
+const datasetStatsSchema = objectOf({
+  total_rows: num,
+  total_entities: num,
+  product_groups: withDefault(arrayOf(str), []),
+  period_start: nullable(str),
+  period_end: nullable(str),
+  last_ingested_at: nullable(str),
+  collection_name: nullable(str),
+  collection_size: nullable(num),
+});
+
+export type EntityKPI = Infer<typeof entityKpiSchema>;
+export type ProductGroupPerformance = Infer<typeof productGroupPerformanceSchema>;
+export type SalesTrend = Infer<typeof salesTrendSchema>;
+export type EntityReport = Infer<typeof entityReportSchema>;
+export type TimeSeriesPoint = Infer<typeof timeSeriesPointSchema>;
+export type EntityTotalSales = Infer<typeof entityTotalSalesSchema>;
+export type OverallKPI = Infer<typeof overallKpiSchema>;
+export type SalesHeatmap = Infer<typeof heatmapSchema>;
+export type BackendDatasetStats = Infer<typeof datasetStatsSchema>;
+
+export interface OverviewParams {
+  periodMonths: number;
+  productGroup?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Spotlight
+// ---------------------------------------------------------------------------
+
+// Older and newer backends return different insight lists, so all of them are optional
+const spotlightInsightsSchema = objectOf({
+  top_categories: optional(arrayOf(objectOf({
+    category: str,
+    sales: num,
+    count: optional(num),
+    profit_margin: optional(num),
+    transactions: optional(num),
+  }))),
+  top_regions: optional(arrayOf(objectOf({
+    state: str,
+    sales: num,
+    transactions: optional(num),
+    avg_transaction: optional(num),
+  }))),
+  regional_trends: optional(arrayOf(objectOf({
+    state: str,
+    sales: num,
+  }))),
+  brand_performance: optional(arrayOf(objectOf({
+    product: str,
+    profit: num,
+  }))),
+});
+
+const spotlightPreviewSchema = objectOf({
+  narrative: str,
+  timestamp: str,
+  audio_url: optional(str),
+  insights: (value, path) => spotlightInsightsSchema(value ?? {}, path),
+});
+
+const chatSummarySchema = objectOf({
+  summary: withDefault(str, ''),
+  cached: withDefault(bool, false),
+});
+
+const chatSummaryListSchema = objectOf({
+  summaries: withDefault(arrayOf(objectOf({
+    period_start: str,
+    period_end: str,
+    time_range: str,
+    message_count: num,
+    created_at: optional(str),
+  })), []),
+});
+
+export type SpotlightPreview = Infer<typeof spotlightPreviewSchema>;
+export type ChatSummary = Infer<typeof chatSummarySchema>;
+export type ChatSummaryListItem = Infer<typeof chatSummaryListSchema>['summaries'][number];
+
+export interface ChatSummaryRequest {
+  user_id: string;
+  period_start: string;
+  period_end: string;
+  time_range: string;
+  message_count: number;
+  messages: Array<{ role: string; content: string }>;
+}
+
+export interface TextToSpeechRequest {
+  text: string;
+  voice_id?: string;
+  model_id?: string;
+  user_id?: string;
+  period_start?: string;
+  period_end?: string;
+  time_range?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Email
+// ---------------------------------------------------------------------------
+
+const emailSubscriptionSchema = objectOf({
+  subscribed: withDefault(bool, false),
+  frequency: withDefault(literal('week', 'month'), 'week'),
+});
+
+const sendSpotlightEmailSchema = objectOf({
+  message: optional(str),
+});
+
+export type EmailSubscription = Infer<typeof emailSubscriptionSchema>;
+
+export interface SendSpotlightEmailRequest {
+  user_id: string;
+  period_start: string;
+  period_end: string;
+  time_range: string;
+  custom_email?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Chat helpers
+// ---------------------------------------------------------------------------
+
+// The endpoint has returned both a bare list and { questions }
+const suggestedQuestionsSchema: Schema<string[]> = (value, path) =>
+  Array.isArray(value)
+    ? arrayOf(str)(value, path)
+    : withDefault(arrayOf(str), [])((value as { questions?: unknown } | null)?.questions, `${path}.questions`);
+
+const cachedSuggestionsSchema = objectOf({
+  cached: withDefault(bool, false),
+  questions: withDefault(arrayOf(str), []),
+});
+
+const generatedTitleSchema = objectOf({
+  title: withDefault(str, ''),
+});
+
+const askResponseSchema = objectOf({
+  answer: withDefault(str, ''),
+  sources: withDefault(arrayOf(unknownValue), []),
+  progress_steps: withDefault(arrayOf(unknownValue), []),
+});
+
+export type AskResponse = Infer<typeof askResponseSchema>;
+
+// Structured filters sent alongside a question: @-mentioned entities and the session's retrieval filters
+export const askFiltersSchema = objectOf({
+  entity_ids: withDefault(arrayOf(str), []),
+  product_groups: optional(arrayOf(str)),
+  /** Inclusive YYYY-MM-DD bounds on the period of retrieved rows */
+  date_from: optional(str),
+  date_to: optional(str),
+});
+
+export type AskFilters = Infer<typeof askFiltersSchema>;
+
+export interface AskRequest {
+  message: string;
+  k: number;
+  session_id: string | null;
+  stream: boolean;
+  conversation_history: Array<{ role: string; content: string }>;
+  filters?: AskFilters;
+  answer_style?: AnswerStyle;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export function contractError(endpoint: string, error: SchemaError): ApiError {
+  logger.error(`❌ [BackendAPI] ${endpoint} broke its contract at ${error.path}: expected ${error.expected}, got ${error.received}`);
+  return new ApiError('BACKEND_CONTRACT', `Unexpected response from ${endpoint}`, {
+    endpoint,
+    path: error.path,
+    expected: error.expected,
+    received: error.received,
+  });
+}
+
+export function validateResponse<T>(endpoint: string, schema: Schema<T>, data: unknown): T {
+  try {
+    return parse(schema, data);
+  } catch (error) {
+    if (error instanceof SchemaError) throw contractError(endpoint, error);
+    throw error;
+  }
+}
+
+// Best human-readable message for a failed call, preferring FastAPI's { detail } body
+export function backendErrorDetail(error: unknown): string {
+  if (error instanceof ApiError) {
+    const body = error.details?.backendBody;
+    if (typeof body === 'string') {
+      try {
+        const detail = JSON.parse(body)?.detail;
+        if (typeof detail === 'string' && detail) return detail;
+      } catch {
+        // Not JSON; fall through to the error message
+      }
+    }
+    return error.message;
+  }
+  return error instanceof Error && error.message ? error.message : 'Unknown error';
+}
+
+async function request<T>(path: string, schema: Schema<T>, init: BackendRequestInit = {}): Promise<T> {
+  const endpoint = path.split('?')[0];
+  return validateResponse(endpoint, schema, await backendJson(path, init));
+}
+
+function postJson(body: unknown, init: BackendRequestInit = {}): BackendRequestInit {
+  return {
+    ...init,
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+    body: JSON.stringify(body),
+  };
+}
+
+async function requestBlob(path: string, init: BackendRequestInit = {}): Promise<Blob> {
+  const response = await backendFetch(path, init);
+  if (!response.ok) {
+    throw fromBackendStatus(response.status, await response.text().catch(() => ''));
+  }
+  return response.blob();
+}
+
+function query(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.append(key, String(value));
+  }
+  return search.toString();
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+export async function getEntities(init?: BackendRequestInit, path: string = '/v1/report/entities'): Promise<string[]> {
+  return (await request(path, entityListSchema, init)).entities;
+}
+
+export function getEntityReport(entityId: string, periodMonths: number): Promise<EntityReport> {
+  return request(
+    `/v1/report/report/${encodeURIComponent(entityId)}?${query({ period_months: periodMonths })}`,
+    entityReportSchema
+  );
+}
+
+export function downloadEntityReportPdf(entityId: string, periodMonths: number): Promise<Blob> {
+  return requestBlob(`/v1/report/download-pdf/${encodeURIComponent(entityId)}?${query({ period_months: periodMonths })}`);
+}
+
+export function getOverviewTimeSeries(
+  params: OverviewParams & { granularity: 'day' | 'week' | 'month'; mode: 'aggregate' | 'points' }
+): Promise<TimeSeriesPoint[]> {
+  return request(
+    `/v1/report/overview/time-series?${query({
+      granularity: params.granularity,
+      period_months: params.periodMonths,
+      product_group: params.productGroup,
+      mode: params.mode,
+    })}`,
+    arrayOf(timeSeriesPointSchema)
+  );
+}
+
+export function getOverviewByEntity(
+  params: OverviewParams & { limit: number },
+  init?: BackendRequestInit
+): Promise<EntityTotalSales[]> {
+  return request(
+    `/v1/report/overview/by-entity?${query({
+      period_months: params.periodMonths,
+      limit: params.limit,
+      product_group: params.productGroup,
+    })}`,
+    arrayOf(entityTotalSalesSchema),
+    init
+  );
+}
+
+export function getOverviewHeatmap(periodMonths: number): Promise<SalesHeatmap> {
+  return request(`/v1/report/overview/heatmap?${query({ period_months: periodMonths })}`, heatmapSchema);
+}
+
+export function getOverviewKpis(params: OverviewParams & { entityLimit: number }): Promise<OverallKPI> {
+  return request(
+    `/v1/report/overview/kpis?${query({
+      period_months: params.periodMonths,
+      product_group: params.productGroup,
+      entity_limit: params.entityLimit,
+    })}`,
+    overallKpiSchema
+  );
+}
+
+export function getSpotlightPreview(): Promise<SpotlightPreview> {
+  return request('/v1/spotlight/preview', spotlightPreviewSchema);
+}
+
+export function getChatSummary(body: ChatSummaryRequest): Promise<ChatSummary> {
+  return request('/v1/chat-summary', chatSummarySchema, postJson(body));
+}
+
+export async function listChatSummaries(userId: string): Promise<ChatSummaryListItem[]> {
+  return (await request(`/v1/chat-summaries/list?${query({ user_id: userId })}`, chatSummaryListSchema)).summaries;
+}
+
+export function textToSpeech(body: TextToSpeechRequest): Promise<Blob> {
+  return requestBlob('/v1/text-to-speech', postJson(body));
+}
+
+export function getEmailSubscription(userId: string, init?: BackendRequestInit): Promise<EmailSubscription> {
+  return request(`/v1/email-subscription?${query({ user_id: userId })}`, emailSubscriptionSchema, init);
+}
+
+export function updateEmailSubscription(
+  body: { user_id: string; subscribed: boolean; frequency: 'week' | 'month' }
+): Promise<EmailSubscription> {
+  return request('/v1/email-subscription', emailSubscriptionSchema, postJson(body));
+}
+
+export function sendSpotlightEmail(body: SendSpotlightEmailRequest) {
+  return request('/v1/send-spotlight-email', sendSpotlightEmailSchema, postJson(body));
+}
+
+export function getSuggestedQuestions(userMessage?: string): Promise<string[]> {
+  const search = query({ user_message: userMessage || undefined });
+  return request(`/v1/suggested-questions${search ? `?${search}` : ''}`, suggestedQuestionsSchema);
+}
+
+export function generateQuestionsFromSummaries(summaries: string, userId: string): Promise<string[]> {
+  return request(
+    '/v1/generate-questions-from-summaries',
+    suggestedQuestionsSchema,
+    postJson({ summaries, user_id: userId })
+  );
+}
+
+export function getCachedSuggestions(sessionId: string, contextHash: string) {
+  return request(
+    `/v1/get-cached-suggestions?${query({ session_id: sessionId, context_hash: contextHash })}`,
+    cachedSuggestionsSchema
+  );
+}
+
+export async function storeSuggestions(
+  params: { sessionId: string; userId: string; questions: string[]; contextHash: string }
+): Promise<void> {
+  const formData = new FormData();
+  formData.append('session_id', params.sessionId);
+  formData.append('user_id', params.userId);
+  formData.append('questions', JSON.stringify(params.questions));
+  formData.append('context_hash', params.contextHash);
+  const response = await backendFetch('/v1/store-suggestions', { method: 'POST', body: formData });
+  if (!response.ok) {
+    throw fromBackendStatus(response.status, await response.text().catch(() => ''));
+  }
+}
+
+export async function generateSessionTitle(message: string): Promise<string> {
+  return (await request('/v1/generate-title', generatedTitleSchema, postJson({ message }))).title;
+}
+
+// ---------------------------------------------------------------------------
+// Parsers for the API routes, which call the backend directly from the server
+// ---------------------------------------------------------------------------
+
+// Only the JSON form of /v1/ask is validated; streamed frames are normalized in the chat route
+export function parseAskResponse(data: unknown): AskResponse {
+  return validateResponse('/v1/ask', askResponseSchema, data);
+}
+
+export function parseSuggestedQuestions(data: unknown): string[] {
+  return validateResponse('/v1/suggested-questions', suggestedQuestionsSchema, data);
+}
+
+export function parseDatasetStats(data: unknown): BackendDatasetStats {
+  return validateResponse('/v1/data/stats', datasetStatsSchema, data);
+}
+
+export function parseOverallKpis(data: unknown): OverallKPI {
+  return validateResponse('/v1/report/overview/kpis', overallKpiSchema, data);
+}
+
+export function parseSalesHeatmap(data: unknown): SalesHeatmap {
+  return validateResponse('/v1/report/overview/heatmap', heatmapSchema, data);
+}
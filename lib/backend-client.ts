@@ -0,0 +1,188 @@
+import { ApiError, fromBackendStatus, toBackendError } from '@/lib/api-errors';
+import { logger } from "@/lib/logger";
+import { config } from '@/lib/config';
+
+/**
+ * Shared client for calls from the browser to the Python backend.
+ * Adds per-endpoint timeouts, exponential-backoff retries for idempotent GETs and a
+ * circuit breaker that fails fast while the Render backend is cold-starting.
+ */
+
+export const BACKEND_BASE_URL = config.publicBackendUrl;
+
+export type BackendStatus = 'online' | 'waking' | 'offline';
+
+// Longest matching prefix wins
+const ENDPOINT_TIMEOUTS_MS: Array<[string, number]> = [
+  ['/health', 10000],
+  ['/v1/ask', 120000],
+  ['/v1/chat-summary', 90000],
+  ['/v1/text-to-speech', 60000],
+  ['/v1/report/download-pdf', 90000],
+  ['/v1/report', 45000],
+  ['/v1/generate-title', 20000],
+];
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Consecutive failed requests (after their retries) before the breaker opens, and how long it stays open
+const FAILURE_THRESHOLD = 3;
+const OPEN_DURATION_MS = 15000;
+const HEALTH_POLL_MS = 10000;
+
+// Gateway statuses Render returns while the service is spinning up
+const TRANSIENT_STATUSES = [502, 503, 504];
+
+export interface BackendRequestInit extends RequestInit {
+  /** Override the per-endpoint timeout */
+  timeoutMs?: number;
+  /** Override the retry count (GETs default to 2, everything else to 0) */
+  retries?: number;
+}
+
+let status: BackendStatus = 'online';
+let consecutiveFailures = 0;
+let openUntil = 0;
+let healthTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(status: BackendStatus) => void>();
+
+function setStatus(next: BackendStatus) {
+  if (next === status) return;
+  logger.log(`🔌 [BackendClient] Status ${status} → ${next}`);
+  status = next;
+  listeners.forEach(listener => listener(next));
+}
+
+export function getBackendStatus(): BackendStatus {
+  return status;
+}
+
+export function subscribeBackendStatus(listener: (status: BackendStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function timeoutFor(path: string): number {
+  let match: [string, number] | undefined;
+  for (const entry of ENDPOINT_TIMEOUTS_MS) {
+    if (path.startsWith(entry[0]) && (!match || entry[0].length > match[0].length)) {
+      match = entry;
+    }
+  }
+  return match ? match[1] : DEFAULT_TIMEOUT_MS;
+}
+
+function recordSuccess() {
+  consecutiveFailures = 0;
+  openUntil = 0;
+  setStatus('online');
+}
+
+function recordFailure() {
+  consecutiveFailures++;
+  if (consecutiveFailures >= FAILURE_THRESHOLD) {
+    openUntil = Date.now() + OPEN_DURATION_MS;
+    if (status === 'online') setStatus('waking');
+    scheduleHealthProbe(0);
+  }
+}
+
+// While the breaker is open, ask /api/health whether the backend is cold-starting or down.
+// The route reports BACKEND_TIMEOUT for a cold start and BACKEND_UNREACHABLE when it is gone.
+function scheduleHealthProbe(delayMs: number) {
+  if (typeof window === 'undefined' || healthTimer) return;
+  healthTimer = setTimeout(async () => {
+    healthTimer = null;
+    try {
+      const res = await fetch('/api/health', { cache: 'no-store' });
+      if (res.ok) {
+        recordSuccess();
+        return;
+      }
+      const body = await res.json().catch(() => null);
+      setStatus(body?.error?.code === 'BACKEND_UNREACHABLE' ? 'offline' : 'waking');
+    } catch {
+      setStatus('offline');
+    }
+    openUntil = Date.now() + OPEN_DURATION_MS;
+    scheduleHealthProbe(HEALTH_POLL_MS);
+  }, delayMs);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function attempt(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  init.signal?.addEventListener('abort', onCallerAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    // Let caller cancellations surface as a normal AbortError
+    if (init.signal?.aborted) throw error;
+    throw toBackendError(error, timedOut);
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * fetch() against the backend. Resolves with the Response (including 4xx/5xx)
+ * and rejects with an ApiError when the backend cannot be reached in time.
+ */
+export async function backendFetch(path: string, init: BackendRequestInit = {}): Promise<Response> {
+  const { timeoutMs = timeoutFor(path), retries, ...requestInit } = init;
+  const method = (requestInit.method || 'GET').toUpperCase();
+  const maxRetries = retries ?? (method === 'GET' || method === 'HEAD' ? GET_RETRIES : 0);
+  const url = path.startsWith('http') ? path : `${BACKEND_BASE_URL}${path}`;
+
+  if (Date.now() < openUntil) {
+    throw new ApiError('BACKEND_UNREACHABLE', 'The backend is waking up. Please try again in a moment.', {
+      circuit: 'open',
+      retryAfterMs: openUntil - Date.now(),
+    });
+  }
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      const response = await attempt(url, requestInit, timeoutMs);
+      if (TRANSIENT_STATUSES.includes(response.status)) {
+        throw fromBackendStatus(response.status);
+      }
+      recordSuccess();
+      return response;
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
+
+      // One failure per request, not per attempt, so a single flaky call cannot open the breaker
+      if (attemptNumber >= maxRetries || Date.now() < openUntil) {
+        recordFailure();
+        logger.error(`❌ [BackendClient] ${method} ${path} failed:`, error.code, error.message);
+        throw error;
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attemptNumber;
+      logger.warn(`⏳ [BackendClient] ${method} ${path} failed (${error.code}), retrying in ${delay}ms...`);
+      await sleep(delay);
+    }
+  }
+}
+
+// backendFetch + JSON parsing; non-2xx responses reject with BACKEND_ERROR
+export async function backendJson<T = unknown>(path: string, init: BackendRequestInit = {}): Promise<T> {
+  const response = await backendFetch(path, init);
+  if (!response.ok) {
+    throw fromBackendStatus(response.status, await response.text().catch(() => ''));
+  }
+  return response.json() as Promise<T>;
+}
@@ -0,0 +1,141 @@
+import { toCsv } from '@/lib/csv';
+import { arrayOf, literal, nullable, num, objectOf, oneOf, optional, parse, recordOf, SchemaError, str, type Infer } from '@/lib/schema';
+
+/**
+ * Chart specs that assistant answers can embed as a fenced ```chart block:
+ *
+ *   ```chart
+ *   { "type": "line", "title": "Monthly sales", "x": "period_end", "y": "total_sales",
+ *     "format": "currency", "data": [{ "period_end": "2024-01-31", "total_sales": 1200 }] }
+ *   ```
+ *
+ * `y` may list several series for line and bar charts; pie and pareto use the first one.
+ */
+
+export const CHART_FENCE_LANGUAGE = 'chart';
+
+export const CHART_TYPES = ['line', 'bar', 'pie', 'pareto'] as const;
+
+export type ChartType = typeof CHART_TYPES[number];
+
+const cellSchema = nullable(oneOf(num, str));
+
+const chartSpecSchema = objectOf({
+  type: literal(...CHART_TYPES),
+  title: optional(str),
+  x: str,
+  y: oneOf(str, arrayOf(str)),
+  format: optional(literal('currency', 'number', 'percent')),
+  data: arrayOf(recordOf(cellSchema)),
+});
+
+type RawChartSpec = Infer<typeof chartSpecSchema>;
+
+export type ChartValueFormat = NonNullable<RawChartSpec['format']>;
+
+export type ChartRow = Record<string, string | number | null>;
+
+export interface ChartSpec {
+  type: ChartType;
+  title?: string;
+  x: string;
+  /** Numeric series keys, at least one */
+  y: string[];
+  format: ChartValueFormat;
+  data: ChartRow[];
+}
+
+// Rows beyond this are dropped; a chart in a chat bubble is unreadable long before
+export const MAX_CHART_ROWS = 500;
+
+export const PARETO_CUMULATIVE_KEY = 'cumulative_pct';
+
+// Models sometimes quote numbers or add thousands separators
+function toChartNumber(value: string | number | null): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/[,$%\s]/g, '');
+  if (cleaned === '') return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export type ChartParseResult = { spec: ChartSpec; error?: undefined } | { spec?: undefined; error: string };
+
+export function parseChartSpec(source: string): ChartParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(source);
+  } catch {
+    return { error: 'Chart spec is not valid JSON' };
+  }
+
+  let raw: RawChartSpec;
+  try {
+    raw = parse(chartSpecSchema, json, 'chart');
+  } catch (error) {
+    return { error: error instanceof SchemaError ? `Invalid chart spec: ${error.message}` : 'Invalid chart spec' };
+  }
+
+  const series = (Array.isArray(raw.y) ? raw.y : [raw.y]).filter(key => key !== raw.x);
+  // Pie and pareto plot a single measure
+  const y = raw.type === 'pie' || raw.type === 'pareto' ? series.slice(0, 1) : series;
+  if (y.length === 0) {
+    return { error: 'Chart spec needs at least one y series' };
+  }
+  if (raw.data.length === 0) {
+    return { error: 'Chart spec has no data' };
+  }
+
+  const data = raw.data.slice(0, MAX_CHART_ROWS).map(row => {
+    const normalized: ChartRow = { [raw.x]: row[raw.x] ?? null };
+    y.forEach(key => {
+      normalized[key] = toChartNumber(row[key] ?? null);
+    });
+    return normalized;
+  });
+
+  const missing = y.filter(key => data.every(row => row[key] === null));
+  if (missing.length > 0) {
+    return { error: `No numeric values for ${missing.join(', ')}` };
+  }
+
+  return {
+    spec: {
+      type: raw.type,
+      title: raw.title,
+      x: raw.x,
+      y,
+      format: raw.format ?? 'number',
+      data,
+    },
+  };
+}
+
+// Sorted descending with the running share of the total, as in the reports Pareto chart
+export function paretoData(spec: ChartSpec): ChartRow[] {
+  const key = spec.y[0];
+  const sorted = spec.data.slice().sort((a, b) => Number(b[key] ?? 0) - Number(a[key] ?? 0));
+  const total = sorted.reduce((sum, row) => sum + Number(row[key] ?? 0), 0);
+  let running = 0;
+  return sorted.map(row => {
+    running += Number(row[key] ?? 0);
+    return { ...row, [PARETO_CUMULATIVE_KEY]: total === 0 ? 0 : (running / total) * 100 };
+  });
+}
+
+export function formatChartValue(value: unknown, format: ChartValueFormat, compact: boolean = false): string {
+  const n = Number(value);
+  if (value === null || value === undefined || !Number.isFinite(n)) return '—';
+  if (format === 'percent') return `${n.toFixed(1)}%`;
+  const formatted = new Intl.NumberFormat('en-US', {
+    maximumFractionDigits: compact ? 1 : format === 'currency' ? 0 : 2,
+    ...(compact ? { notation: 'compact' as const } : {}),
+  }).format(n);
+  return format === 'currency' ? `$${formatted}` : formatted;
+}
+
+export function chartToCsv(spec: ChartSpec): string {
+  const columns = [spec.x, ...spec.y];
+  return toCsv(columns, spec.data.map(row => columns.map(column => row[column])));
+}
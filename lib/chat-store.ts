@@ -0,0 +1,60 @@
+import type { ChatMessage, ChatSession, SaveMessageOptions } from "@/lib/supabase-chat";
+import type { SessionSettings } from "@/lib/session-settings";
+import type { ConversationContext } from "@/lib/conversation-history";
+
+/**
+ * Where chat history lives. Signed-in users keep it in Supabase; without Supabase credentials
+ * or a signed-in user it stays in this browser (IndexedDB). lib/supabase-chat picks the store
+ * from the ids it is given, so both can be read side by side while local sessions are migrated.
+ */
+
+export type ChatStoreKind = 'supabase' | 'local';
+
+export interface ChatStore {
+  kind: ChatStoreKind;
+  createChatSession(userId: string, title?: string): Promise<string | null>;
+  getUserSessions(userId: string): Promise<ChatSession[]>;
+  /** Every message of the session, all branches included, in creation order */
+  getSessionMessages(sessionId: string): Promise<ChatMessage[]>;
+  getChatSession(sessionId: string): Promise<ChatSession | null>;
+  saveMessage(
+    sessionId: string,
+    role: 'user' | 'assistant',
+    content: string,
+    sources?: ChatMessage['sources'],
+    options?: SaveMessageOptions
+  ): Promise<string | null>;
+  /** Replace what a stopped answer keeps; only rows saved as cancelled are touched */
+  updateCancelledMessage(messageId: string, content: string, sources?: ChatMessage['sources']): Promise<boolean>;
+  updateSessionSettings(sessionId: string, settings: SessionSettings): Promise<boolean>;
+  getConversationContext(sessionId: string): Promise<ConversationContext | null>;
+  saveConversationContext(sessionId: string, context: ConversationContext): Promise<boolean>;
+  updateSessionTitle(sessionId: string, title: string): Promise<boolean>;
+  deleteSession(sessionId: string): Promise<boolean>;
+  /**
+   * Copy a whole session from another store, keeping titles, timestamps and branches.
+   * Resolves to the new session id, or null when nothing was written.
+   */
+  importSession(
+    userId: string,
+    session: ChatSession,
+    messages: ChatMessage[],
+    context: ConversationContext | null
+  ): Promise<string | null>;
+}
+
+/** Owner of the conversations kept in this browser */
+export const LOCAL_USER_ID = 'local-user';
+export const LOCAL_SESSION_PREFIX = 'local_';
+
+export function isLocalUser(userId: string | null | undefined): boolean {
+  return userId === LOCAL_USER_ID;
+}
+
+export function isLocalSession(sessionId: string | null | undefined): boolean {
+  return !!sessionId && sessionId.startsWith(LOCAL_SESSION_PREFIX);
+}
+
+export function localChatAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+}
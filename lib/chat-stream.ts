@@ -0,0 +1,96 @@
+import type { ApiErrorPayload } from '@/lib/api-errors';
+import type { SourceCitation } from '@/lib/citations';
+
+/**
+ * Server-sent event helpers shared by /api/chat and ChatInterface.
+ * The route proxies the backend answer as a stream of these events and
+ * the client reads them back with readChatStream.
+ */
+
+export interface ProgressStep {
+  step: string;
+  message: string;
+}
+
+export type ChatStreamEvent =
+  | { type: 'progress'; step: ProgressStep }
+  | { type: 'token'; delta: string }
+  | { type: 'sources'; sources: SourceCitation[] }
+  | { type: 'done'; answer: string; timestamp: string }
+  | { type: 'error'; error: ApiErrorPayload };
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+};
+
+// Serialize one event into the SSE wire format
+export function encodeSSE(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Split a byte stream into raw SSE messages ({ event, data })
+export async function* parseSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+    return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) yield message;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const trailing = parseBlock(buffer.trim());
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Read the events emitted by /api/chat
+export async function* readChatStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  for await (const { data } of parseSSE(body)) {
+    try {
+      yield JSON.parse(data) as ChatStreamEvent;
+    } catch {
+      // Ignore keep-alive comments and malformed frames
+    }
+  }
+}
+
+// Backend progress steps arrive either as strings or { step, message } objects
+export function toProgressStep(raw: any): ProgressStep {
+  if (typeof raw === 'string') {
+    return { step: raw, message: raw };
+  }
+  const message = raw?.message || raw?.step || 'Processing...';
+  return { step: raw?.step || message, message };
+}
@@ -0,0 +1,71 @@
+/**
+ * Retrieved chunks that back an assistant answer.
+ * The backend has returned several shapes over time (plain strings, LangChain-style
+ * documents, flat dicts), so everything is normalized into SourceCitation here.
+ */
+
+export interface SourceCitation {
+  chunk_id: string;
+  document: string;
+  snippet: string;
+  relevance_score: number | null;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim() !== '') return value;
+    if (typeof value === 'number') return String(value);
+  }
+  return undefined;
+}
+
+function firstNumber(...values: unknown[]): number | null {
+  for (const value of values) {
+    const num = typeof value === 'string' ? Number(value) : value;
+    if (typeof num === 'number' && Number.isFinite(num)) return num;
+  }
+  return null;
+}
+
+export function normalizeSource(raw: any, index: number): SourceCitation {
+  if (typeof raw === 'string') {
+    return { chunk_id: `source-${index + 1}`, document: raw, snippet: '', relevance_score: null };
+  }
+
+  const metadata = raw?.metadata || {};
+  return {
+    chunk_id: firstString(raw?.chunk_id, raw?.id, metadata.chunk_id, metadata.id) || `source-${index + 1}`,
+    document: firstString(raw?.document, raw?.source, raw?.title, metadata.source, metadata.document, metadata.title) || `Source ${index + 1}`,
+    snippet: firstString(raw?.snippet, raw?.content, raw?.text, raw?.page_content) || '',
+    relevance_score: firstNumber(raw?.relevance_score, raw?.score, metadata.relevance_score, metadata.score),
+  };
+}
+
+export function normalizeSources(raw: unknown): SourceCitation[] {
+  return Array.isArray(raw) ? raw.map(normalizeSource) : [];
+}
+
+export const CITATION_HREF_PREFIX = '#cite-';
+
+// Turn bare [n] markers into links ReactMarkdown can render as citation buttons.
+// Markers outside the source range, existing links and code spans are left alone.
+export function linkCitationMarkers(markdown: string, sourceCount: number): string {
+  if (sourceCount === 0) return markdown;
+
+  return markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/g)
+    .map((part, i) => {
+      if (i % 2 === 1) return part; // code
+      return part.replace(/\[(\d{1,3})\](?![(:\[])/g, (marker, num) => {
+        const n = Number(num);
+        return n >= 1 && n <= sourceCount ? `[${n}](${CITATION_HREF_PREFIX}${n})` : marker;
+      });
+    })
+    .join('');
+}
+
+export function citationIndexFromHref(href: string | undefined): number | null {
+  if (!href || !href.startsWith(CITATION_HREF_PREFIX)) return null;
+  const n = Number(href.slice(CITATION_HREF_PREFIX.length));
+  return Number.isInteger(n) && n >= 1 ? n - 1 : null;
+}
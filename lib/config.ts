@@ -0,0 +1,180 @@
+/**
+ * Typed, validated environment configuration shared by server and browser code.
+ *
+ * NEXT_PUBLIC_* variables are read with literal `process.env.X` accesses so Next can inline
+ * them into the client bundle; server-only variables are simply undefined in the browser.
+ * validateConfig() runs once at server start (see instrumentation.ts) and throws a
+ * ConfigError listing every problem instead of failing later with a null client.
+ */
+
+export const PROFILE_NAMES = ['local', 'staging', 'production'] as const;
+
+export type ProfileName = typeof PROFILE_NAMES[number];
+
+interface ProfileDefaults {
+  /** Backend used when neither BACKEND_URL nor NEXT_PUBLIC_API_URL is set */
+  backendUrl: string | null;
+  /** Local development may run without Supabase (no login, no history) */
+  requireSupabase: boolean;
+}
+
+const PROFILES: Record<ProfileName, ProfileDefaults> = {
+  local: { backendUrl: 'http://localhost:8000', requireSupabase: false },
+  staging: { backendUrl: null, requireSupabase: true },
+  production: { backendUrl: 'https://retail-transaction-analysis.onrender.com', requireSupabase: true },
+};
+
+export interface SupabaseConfig {
+  url: string;
+  anonKey: string;
+}
+
+export interface AppConfig {
+  profile: ProfileName;
+  /** Backend for the /api routes (server side) */
+  backendUrl: string;
+  /** Backend the browser calls directly */
+  publicBackendUrl: string;
+  /** null only in profiles that allow running without Supabase */
+  supabase: SupabaseConfig | null;
+}
+
+export interface ConfigIssue {
+  variable: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export class ConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(profile: ProfileName, issues: ConfigIssue[]) {
+    super(formatConfigReport(profile, issues));
+    this.name = 'ConfigError';
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ConfigError.prototype);
+    this.issues = issues;
+  }
+}
+
+export interface EnvSource {
+  NODE_ENV?: string;
+  NEXT_PUBLIC_APP_PROFILE?: string;
+  BACKEND_URL?: string;
+  NEXT_PUBLIC_API_URL?: string;
+  /** Older name for NEXT_PUBLIC_API_URL */
+  NEXT_PUBLIC_BACKEND_URL?: string;
+  NEXT_PUBLIC_SUPABASE_URL?: string;
+  NEXT_PUBLIC_SUPABASE_ANON_KEY?: string;
+}
+
+function readEnv(): EnvSource {
+  return {
+    NODE_ENV: process.env.NODE_ENV,
+    NEXT_PUBLIC_APP_PROFILE: process.env.NEXT_PUBLIC_APP_PROFILE,
+    BACKEND_URL: process.env.BACKEND_URL,
+    NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL,
+    NEXT_PUBLIC_BACKEND_URL: process.env.NEXT_PUBLIC_BACKEND_URL,
+    NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+  };
+}
+
+const blank = (value: string | undefined): string | undefined => (value && value.trim() !== '' ? value.trim() : undefined);
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function resolveConfig(env: EnvSource = readEnv()): { config: AppConfig; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  const error = (variable: string, message: string) => issues.push({ variable, severity: 'error', message });
+  const warning = (variable: string, message: string) => issues.push({ variable, severity: 'warning', message });
+
+  const requestedProfile = blank(env.NEXT_PUBLIC_APP_PROFILE);
+  let profile: ProfileName = env.NODE_ENV === 'production' ? 'production' : 'local';
+  if (requestedProfile) {
+    if ((PROFILE_NAMES as readonly string[]).includes(requestedProfile)) {
+      profile = requestedProfile as ProfileName;
+    } else {
+      error('NEXT_PUBLIC_APP_PROFILE', `Unknown profile "${requestedProfile}". Use one of ${PROFILE_NAMES.join(', ')}`);
+    }
+  }
+  const defaults = PROFILES[profile];
+
+  const checkUrl = (variable: string, value: string | undefined) => {
+    if (value && !isHttpUrl(value)) error(variable, `"${value}" is not an http(s) URL`);
+  };
+
+  const serverUrl = blank(env.BACKEND_URL);
+  const publicUrl = blank(env.NEXT_PUBLIC_API_URL) || blank(env.NEXT_PUBLIC_BACKEND_URL);
+  checkUrl('BACKEND_URL', serverUrl);
+  checkUrl(env.NEXT_PUBLIC_API_URL ? 'NEXT_PUBLIC_API_URL' : 'NEXT_PUBLIC_BACKEND_URL', publicUrl);
+
+  const backendUrl = serverUrl || publicUrl || defaults.backendUrl;
+  const publicBackendUrl = publicUrl || serverUrl || defaults.backendUrl;
+  if (!backendUrl) {
+    error('BACKEND_URL', `Required in the ${profile} profile (no default backend)`);
+  }
+  if (blank(env.NEXT_PUBLIC_BACKEND_URL) && !blank(env.NEXT_PUBLIC_API_URL)) {
+    warning('NEXT_PUBLIC_BACKEND_URL', 'Deprecated; rename it to NEXT_PUBLIC_API_URL');
+  }
+  if (serverUrl && publicUrl && trimSlash(serverUrl) !== trimSlash(publicUrl)) {
+    warning('NEXT_PUBLIC_API_URL', `Browser calls ${publicUrl} but the /api routes call ${serverUrl}`);
+  }
+
+  const supabaseUrl = blank(env.NEXT_PUBLIC_SUPABASE_URL);
+  const supabaseAnonKey = blank(env.NEXT_PUBLIC_SUPABASE_ANON_KEY);
+  checkUrl('NEXT_PUBLIC_SUPABASE_URL', supabaseUrl);
+  if (!supabaseUrl || !supabaseAnonKey) {
+    const report = defaults.requireSupabase ? error : warning;
+    const suffix = defaults.requireSupabase ? '' : '; login and chat history are disabled';
+    if (!supabaseUrl) report('NEXT_PUBLIC_SUPABASE_URL', `Not set${suffix}`);
+    if (!supabaseAnonKey) report('NEXT_PUBLIC_SUPABASE_ANON_KEY', `Not set${suffix}`);
+  }
+
+  return {
+    config: {
+      profile,
+      backendUrl: trimSlash(backendUrl || ''),
+      publicBackendUrl: trimSlash(publicBackendUrl || ''),
+      supabase: supabaseUrl && supabaseAnonKey ? { url: supabaseUrl, anonKey: supabaseAnonKey } : null,
+    },
+    issues,
+  };
+}
+
+export function formatConfigReport(profile: ProfileName, issues: ConfigIssue[]): string {
+  if (issues.length === 0) {
+    return `Environment configuration (${profile} profile) is valid`;
+  }
+  const lines = issues.map(issue => `  ${issue.severity === 'error' ? '✗' : '!'} ${issue.variable}: ${issue.message}`);
+  return [`Environment configuration (${profile} profile) has problems:`, ...lines].join('\n');
+}
+
+const resolved = resolveConfig();
+
+export const config: AppConfig = resolved.config;
+
+export const configIssues: ConfigIssue[] = resolved.issues;
+
+// Throws when any issue is an error; warnings are only logged
+export function validateConfig(): AppConfig {
+  const errors = configIssues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new ConfigError(config.profile, configIssues);
+  }
+  if (configIssues.length > 0) {
+    console.warn(`⚠️ ${formatConfigReport(config.profile, configIssues)}`);
+  } else {
+    console.log(`✅ ${formatConfigReport(config.profile, configIssues)}`);
+  }
+  return config;
+}
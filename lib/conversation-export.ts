@@ -0,0 +1,282 @@
+import { logger } from '@/lib/logger';
+import { normalizeSources, type SourceCitation } from '@/lib/citations';
+import { CHART_FENCE_LANGUAGE } from '@/lib/chart-spec';
+import { arrayOf, bool, literal, nullable, num, objectOf, optional, parse, str, unknownValue, type Infer } from '@/lib/schema';
+import { activeBranch } from '@/lib/message-tree';
+import {
+  getChatSession,
+  getSessionMessages,
+  importSession,
+  splitAttachmentNote,
+  type ChatMessage,
+} from '@/lib/supabase-chat';
+
+/**
+ * Conversation exports for memos and archiving.
+ * JSON keeps every message and branch so the file can be imported again; Markdown and PDF
+ * are for reading and contain only the branch the user last worked on.
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+const exportedMessageSchema = objectOf({
+  id: str,
+  parent_id: nullable(str),
+  role: literal('user', 'assistant'),
+  content: str,
+  attachments: arrayOf(str),
+  sources: arrayOf(unknownValue),
+  cancelled: optional(bool),
+  created_at: str,
+});
+
+const conversationExportSchema = objectOf({
+  format: literal('retail-assistant.conversation'),
+  version: num,
+  exported_at: str,
+  session: objectOf({
+    id: str,
+    title: str,
+    created_at: nullable(str),
+  }),
+  messages: arrayOf(exportedMessageSchema),
+});
+
+export type ExportedMessage = Omit<Infer<typeof exportedMessageSchema>, 'sources'> & { sources: SourceCitation[] };
+
+export type ConversationExport = Omit<Infer<typeof conversationExportSchema>, 'messages'> & { messages: ExportedMessage[] };
+
+export function buildConversationExport(
+  session: { id: string; title: string; created_at: string | null },
+  messages: ChatMessage[]
+): ConversationExport {
+  return {
+    format: 'retail-assistant.conversation',
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    session,
+    messages: messages.map(message => {
+      const { text, attachments } = message.role === 'user'
+        ? splitAttachmentNote(message.content)
+        : { text: message.content, attachments: [] };
+      return {
+        id: message.id,
+        parent_id: message.parent_id,
+        role: message.role,
+        content: text,
+        attachments,
+        sources: message.sources || [],
+        cancelled: message.cancelled || undefined,
+        created_at: message.created_at,
+      };
+    }),
+  };
+}
+
+// Validate a previously exported file; throws SchemaError naming the offending field
+export function parseConversationExport(json: unknown): ConversationExport {
+  const parsed = parse(conversationExportSchema, json, 'conversation');
+  if (parsed.version > EXPORT_FORMAT_VERSION) {
+    throw new Error(`Export version ${parsed.version} is newer than this app supports (${EXPORT_FORMAT_VERSION})`);
+  }
+  return {
+    ...parsed,
+    messages: parsed.messages.map(message => ({ ...message, sources: normalizeSources(message.sources) })),
+  };
+}
+
+// User messages are stored with their attachment names inline, as the composer saves them
+function storedContent(message: ExportedMessage): string {
+  if (message.role !== 'user' || message.attachments.length === 0) return message.content;
+  return `${message.content}${message.content ? ' ' : ''}(file attached: ${message.attachments.join(', ')})`;
+}
+
+// Add an exported JSON file to the user's history as a new conversation; resolves to its id
+export async function importConversation(userId: string, file: File): Promise<string> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a valid JSON file`);
+  }
+
+  const exported = parseConversationExport(json);
+  if (exported.messages.length === 0) {
+    throw new Error(`${file.name} contains no messages`);
+  }
+
+  const messages: ChatMessage[] = exported.messages.map(message => ({
+    id: message.id,
+    session_id: exported.session.id,
+    role: message.role,
+    content: storedContent(message),
+    sources: message.sources.length > 0 ? message.sources : undefined,
+    cancelled: message.cancelled,
+    parent_id: message.parent_id,
+    created_at: message.created_at,
+  }));
+  const sessionId = await importSession(
+    userId,
+    {
+      id: exported.session.id,
+      title: exported.session.title,
+      created_at: exported.session.created_at ?? messages[0].created_at,
+    },
+    messages
+  );
+  if (!sessionId) {
+    throw new Error('Could not save the imported conversation. Please try again.');
+  }
+
+  logger.log('📥 Conversation imported:', exported.session.id, '→', sessionId, messages.length, 'messages');
+  return sessionId;
+}
+
+// Messages of the branch the user last worked on, in conversation order
+function readableMessages(exported: ConversationExport): ExportedMessage[] {
+  return activeBranch(exported.messages.map(message => ({ ...message, parentId: message.parent_id })));
+}
+
+function formatTimestamp(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+function roleLabel(message: ExportedMessage): string {
+  return message.role === 'user' ? 'You' : 'Assistant';
+}
+
+export function conversationToMarkdown(exported: ConversationExport): string {
+  const lines: string[] = [`# ${exported.session.title}`, ''];
+  const started = formatTimestamp(exported.session.created_at);
+  lines.push(`_${started ? `Started ${started} · ` : ''}Exported ${formatTimestamp(exported.exported_at)}_`, '');
+
+  readableMessages(exported).forEach(message => {
+    lines.push('---', '', `### ${roleLabel(message)} · ${formatTimestamp(message.created_at)}`, '');
+    if (message.content) lines.push(message.content, '');
+    if (message.cancelled) lines.push('_Stopped before the answer finished._', '');
+    if (message.attachments.length > 0) {
+      lines.push(`**Attachments:** ${message.attachments.join(', ')}`, '');
+    }
+    if (message.sources.length > 0) {
+      lines.push('**Sources:**', '');
+      message.sources.forEach((source, i) => {
+        const snippet = source.snippet ? ` — ${source.snippet.replace(/\s+/g, ' ').trim()}` : '';
+        lines.push(`${i + 1}. ${source.document}${snippet}`);
+      });
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+// The PDF uses the built-in Helvetica font, which only covers Latin-1
+function pdfSafe(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/•/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\t\n\r\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+// Markdown reduced to readable plain text; chart blocks become a one-line note
+function markdownToPlainText(markdown: string): string {
+  const chartFence = new RegExp('```' + CHART_FENCE_LANGUAGE + '\\s*\\n([\\s\\S]*?)```', 'g');
+  return markdown
+    .replace(chartFence, (_, source: string) => {
+      const title = source.match(/"title"\s*:\s*"([^"]*)"/);
+      return `[Chart${title ? `: ${title[1]}` : ''} - see the app or the JSON export]`;
+    })
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\((?!#cite-)[^)]+\)/g, '$1');
+}
+
+export async function conversationToPdf(exported: ConversationExport): Promise<Blob> {
+  // jsPDF is only needed here, so keep it out of the main bundle
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 48;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const width = doc.internal.pageSize.getWidth() - margin * 2;
+  let y = margin;
+
+  const write = (text: string, size: number, style: 'normal' | 'bold' | 'italic' = 'normal', color: number = 20) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lineHeight = size * 1.35;
+    (doc.splitTextToSize(pdfSafe(text), width) as string[]).forEach(line => {
+      if (y + lineHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin, y + size);
+      y += lineHeight;
+    });
+  };
+
+  write(exported.session.title, 18, 'bold');
+  const started = formatTimestamp(exported.session.created_at);
+  write(`${started ? `Started ${started} - ` : ''}Exported ${formatTimestamp(exported.exported_at)}`, 9, 'normal', 110);
+  y += 12;
+
+  readableMessages(exported).forEach(message => {
+    write(`${roleLabel(message)} - ${formatTimestamp(message.created_at)}`, 11, 'bold');
+    if (message.content) write(markdownToPlainText(message.content), 10);
+    if (message.cancelled) write('Stopped before the answer finished.', 9, 'italic', 110);
+    if (message.attachments.length > 0) write(`Attachments: ${message.attachments.join(', ')}`, 9, 'italic', 80);
+    if (message.sources.length > 0) {
+      write('Sources:', 9, 'bold', 80);
+      message.sources.forEach((source, i) => write(`${i + 1}. ${source.document}`, 9, 'normal', 80));
+    }
+    y += 14;
+  });
+
+  return doc.output('blob');
+}
+
+function exportFilename(title: string, extension: string): string {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `${base || 'conversation'}-${new Date().toISOString().split('T')[0]}.${extension}`;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+// Load a session from Supabase and download it; `fallbackTitle` is used when the session has none
+export async function exportConversation(sessionId: string, format: ExportFormat, fallbackTitle: string = 'Conversation'): Promise<void> {
+  const [session, messages] = await Promise.all([getChatSession(sessionId), getSessionMessages(sessionId)]);
+  if (messages.length === 0) {
+    throw new Error('This conversation has no saved messages yet');
+  }
+
+  const title = session?.title || fallbackTitle;
+  const exported = buildConversationExport({ id: sessionId, title, created_at: session?.created_at ?? null }, messages);
+  logger.log('📤 Exporting conversation:', sessionId, format, exported.messages.length, 'messages');
+
+  if (format === 'json') {
+    downloadBlob(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }), exportFilename(title, 'json'));
+  } else if (format === 'markdown') {
+    downloadBlob(new Blob([conversationToMarkdown(exported)], { type: 'text/markdown;charset=utf-8' }), exportFilename(title, 'md'));
+  } else {
+    downloadBlob(await conversationToPdf(exported), exportFilename(title, 'pdf'));
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Token-budgeted conversation history for /v1/ask. The last few turns go verbatim;
+ * older turns are folded into a rolling summary kept in conversation_contexts, so a
+ * long session sends a bounded amount of context with every question.
+ */
+
+export interface HistoryMessage {
+  id?: string;
+  role: string;
+  content: string;
+}
+
+export interface ConversationContext {
+  /** One line per folded message, oldest first */
+  summary: string;
+  /** How many messages from the start of the branch the summary covers */
+  summarized_count: number;
+  /** Id of the last folded message; a different branch or edit means the summary is stale */
+  summarized_through: string | null;
+  token_estimate: number;
+}
+
+/** Question/answer pairs always sent verbatim */
+export const VERBATIM_TURNS = 3;
+/** Budget for the verbatim turns plus the summary */
+export const HISTORY_TOKEN_BUDGET = 3000;
+export const SUMMARY_TOKEN_BUDGET = 800;
+
+const SUMMARY_LINE_CHARS = 240;
+const OMITTED_LINE = '- (earlier turns omitted)';
+
+export const EMPTY_CONTEXT: ConversationContext = {
+  summary: '',
+  summarized_count: 0,
+  summarized_through: null,
+  token_estimate: 0,
+};
+
+// Rough count (about four characters per token for English text); good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function historyTokens(messages: HistoryMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
+}
+
+function clip(text: string, chars: number): string {
+  const flat = text.replace(/```[\s\S]*?```/g, '[chart]').replace(/\s+/g, ' ').trim();
+  return flat.length > chars ? `${flat.slice(0, chars - 1).trimEnd()}…` : flat;
+}
+
+// Questions are kept whole up to the line limit; answers are cut to their opening sentences
+function summaryLine(message: HistoryMessage): string {
+  if (message.role === 'user') {
+    return `- User asked: ${clip(message.content, SUMMARY_LINE_CHARS)}`;
+  }
+  const opening = message.content.replace(/\s+/g, ' ').match(/^.*?[.!?](\s.*?[.!?])?(\s|$)/);
+  return `- Assistant: ${clip(opening ? opening[0] : message.content, SUMMARY_LINE_CHARS)}`;
+}
+
+// Oldest lines go first once the summary outgrows its budget
+function fitSummary(lines: string[]): string {
+  const kept = lines.filter(line => line !== OMITTED_LINE);
+  let trimmed = false;
+  while (kept.length > 1 && estimateTokens(kept.join('\n')) > SUMMARY_TOKEN_BUDGET) {
+    kept.shift();
+    trimmed = true;
+  }
+  return (trimmed || kept.length < lines.length ? [OMITTED_LINE] : []).concat(kept).join('\n');
+}
+
+function foldInto(context: ConversationContext, messages: HistoryMessage[], upTo: number): ConversationContext {
+  // Extend the stored summary when it still matches this branch, otherwise rebuild it
+  const covered = context.summarized_count;
+  const stillValid =
+    covered > 0 &&
+    covered <= upTo &&
+    context.summarized_through !== null &&
+    messages[covered - 1]?.id === context.summarized_through;
+  const from = stillValid ? covered : 0;
+  const lines = (stillValid && context.summary ? context.summary.split('\n') : [])
+    .concat(messages.slice(from, upTo).map(summaryLine));
+  const summary = fitSummary(lines);
+  return {
+    summary,
+    summarized_count: upTo,
+    summarized_through: messages[upTo - 1]?.id ?? null,
+    token_estimate: estimateTokens(summary),
+  };
+}
+
+/**
+ * Split the branch before a question into verbatim recent turns and a rolling summary.
+ * Returns the same context object when nothing new had to be folded.
+ */
+export function buildConversationHistory(
+  messages: HistoryMessage[],
+  context: ConversationContext = EMPTY_CONTEXT
+): { history: HistoryMessage[]; context: ConversationContext } {
+  const covered = context.summarized_count;
+  const storedValid =
+    covered === 0 || (covered < messages.length && messages[covered - 1]?.id === context.summarized_through);
+  // Never unfold what an earlier question already folded to stay within the budget
+  let start = Math.max(messages.length - VERBATIM_TURNS * 2, storedValid ? covered : 0, 0);
+
+  const upToDate = storedValid && covered === start;
+  let next = upToDate ? context : start === 0 ? EMPTY_CONTEXT : foldInto(context, messages, start);
+
+  // Long answers can still overflow the budget; fold the oldest verbatim turns too
+  while (start < messages.length - 1 && next.token_estimate + historyTokens(messages.slice(start)) > HISTORY_TOKEN_BUDGET) {
+    start += 1;
+    next = foldInto(next, messages, start);
+  }
+
+  return {
+    history: messages.slice(start).map(({ role, content }) => ({ role, content })),
+    context: next,
+  };
+}
+
+// The summary travels to the backend as a leading system turn of the history
+export function withSummary(history: HistoryMessage[], summary: string | null | undefined): HistoryMessage[] {
+  if (!summary) return history;
+  return [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }].concat(history);
+}
+
+// Server-side guard for clients that send more than the budget allows: keep the newest messages
+export function trimToBudget(history: HistoryMessage[], budget: number = HISTORY_TOKEN_BUDGET): HistoryMessage[] {
+  let start = 0;
+  while (start < history.length - 1 && historyTokens(history.slice(start)) > budget) {
+    start += 1;
+  }
+  return history.slice(start);
+}
+
+// Stored rows, tolerating partial or older ones
+export function normalizeConversationContext(raw: any): ConversationContext {
+  if (!raw || typeof raw.summary !== 'string') return EMPTY_CONTEXT;
+  return {
+    summary: raw.summary,
+    summarized_count: typeof raw.summarized_count === 'number' ? raw.summarized_count : 0,
+    summarized_through: typeof raw.summarized_through === 'string' ? raw.summarized_through : null,
+    token_estimate: typeof raw.token_estimate === 'number' ? raw.token_estimate : estimateTokens(raw.summary),
+  };
+}
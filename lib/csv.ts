@@ -0,0 +1,15 @@
+/**
+ * CSV writer for downloads (quality reports, chart data). Cells are quoted only when needed
+ * and lines end in CRLF so Excel opens the files cleanly.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+export function csvCell(value: CsvValue): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
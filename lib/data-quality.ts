@@ -0,0 +1,401 @@
+import {
+  TRANSACTION_COLUMNS,
+  cellText,
+  normalizeHeader,
+  sourceRowNumber,
+  toIsoDate,
+  toNumber,
+  type RawRow,
+  type TransactionColumn,
+} from '@/lib/transaction-upload';
+import { toCsv } from '@/lib/csv';
+
+/**
+ * Data quality report for transaction extracts.
+ * Runs on the same parsed rows as the upload validator but reports on the data as a whole
+ * (duplicates, outliers, inconsistencies across periods) instead of rejecting single rows.
+ */
+
+export type QualityCheck =
+  | 'missing_value'
+  | 'duplicate'
+  | 'negative_sales'
+  | 'outlier_sales'
+  | 'inconsistent_location_count'
+  | 'period_gap';
+
+export interface QualityFinding {
+  check: QualityCheck;
+  /** Spreadsheet row number (header is row 1); null for findings about an entity or period */
+  row: number | null;
+  entity_id: string | null;
+  period_end: string | null;
+  product_group_code: string | null;
+  detail: string;
+}
+
+export interface MissingValueStat {
+  column: TransactionColumn;
+  count: number;
+  percent: number;
+}
+
+export interface DuplicateGroup {
+  entity_id: string;
+  period_end: string;
+  product_group_code: string;
+  rows: number[];
+}
+
+export interface SalesRow {
+  row: number;
+  entity_id: string;
+  period_end: string;
+  product_group_code: string;
+  sales_volume: number;
+}
+
+export interface OutlierBounds {
+  product_group_code: string;
+  lower: number;
+  upper: number;
+}
+
+export interface LocationCountInconsistency {
+  entity_id: string;
+  values: number[];
+  periods: number;
+}
+
+export interface EntityPeriodGap {
+  entity_id: string;
+  missingMonths: string[];
+}
+
+export interface DataQualityReport {
+  filename: string;
+  generatedAt: string;
+  columns: string[];
+  missingColumns: TransactionColumn[];
+  totalRows: number;
+  /** Rows with a parseable entity, period, product group and sales volume; the other checks use these */
+  analyzedRows: number;
+  missingValues: MissingValueStat[];
+  duplicates: { count: number; groups: DuplicateGroup[] };
+  negativeSales: { count: number; rows: SalesRow[] };
+  outliers: { count: number; bounds: OutlierBounds[]; rows: SalesRow[] };
+  inconsistentLocationCounts: { count: number; entities: LocationCountInconsistency[] };
+  periodGaps: {
+    periodStart: string | null;
+    periodEnd: string | null;
+    expectedMonths: number;
+    missingMonths: string[];
+    entitiesWithGaps: number;
+    entities: EntityPeriodGap[];
+  };
+  /** Number of findings across all checks */
+  issueCount: number;
+  /** Whether any list above was cut at MAX_FINDINGS_PER_CHECK */
+  truncated: boolean;
+}
+
+// Keeps the response (and the downloaded report) bounded for very dirty 20 MB extracts
+export const MAX_FINDINGS_PER_CHECK = 5000;
+
+// Tukey's "far out" fence; 1.5 flags too many legitimate large stores
+const OUTLIER_IQR_MULTIPLIER = 3;
+// Quartiles on fewer values are not meaningful
+const MIN_OUTLIER_SAMPLE = 8;
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[base + 1];
+  return next === undefined ? sorted[base] : sorted[base] + (pos - base) * (next - sorted[base]);
+}
+
+function monthKey(isoDate: string): string {
+  return isoDate.slice(0, 7);
+}
+
+// Every YYYY-MM from start to end inclusive
+function monthRange(start: string, end: string): string[] {
+  const months: string[] = [];
+  let year = Number(start.slice(0, 4));
+  let month = Number(start.slice(5, 7));
+  const last = monthKey(end);
+  for (;;) {
+    const key = `${year}-${month < 10 ? `0${month}` : month}`;
+    months.push(key);
+    if (key >= last) break;
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+/**
+ * Analyse parsed rows. Keys of each raw row must already be normalized headers.
+ * Extracts are monthly, so period coverage is checked per calendar month of period_end.
+ */
+export function analyzeDataQuality(
+  filename: string,
+  columns: string[],
+  rawRows: RawRow[],
+  rowNumbers?: number[]
+): DataQualityReport {
+  const normalizedColumns = columns.map(normalizeHeader);
+  const missingColumns = TRANSACTION_COLUMNS.filter(column => !normalizedColumns.includes(column));
+  const totalRows = rawRows.length;
+
+  const missingCounts: Record<string, number> = {};
+  TRANSACTION_COLUMNS.forEach(column => {
+    missingCounts[column] = 0;
+  });
+
+  const rows: Array<SalesRow & { location_count: number | null }> = [];
+  rawRows.forEach((raw, i) => {
+    TRANSACTION_COLUMNS.forEach(column => {
+      if (cellText(raw[column]) === '') missingCounts[column]++;
+    });
+
+    const entityId = cellText(raw.entity_id);
+    const periodEnd = toIsoDate(raw.period_end);
+    const productGroup = cellText(raw.product_group_code).toUpperCase();
+    const salesVolume = toNumber(raw.sales_volume);
+    if (!entityId || !periodEnd || !productGroup || salesVolume === null) return;
+
+    rows.push({
+      row: sourceRowNumber(rowNumbers, i),
+      entity_id: entityId,
+      period_end: periodEnd,
+      product_group_code: productGroup,
+      sales_volume: salesVolume,
+      location_count: toNumber(raw.location_count),
+    });
+  });
+
+  let truncated = false;
+  const cap = <T,>(items: T[]): T[] => {
+    if (items.length <= MAX_FINDINGS_PER_CHECK) return items;
+    truncated = true;
+    return items.slice(0, MAX_FINDINGS_PER_CHECK);
+  };
+  const salesRow = ({ location_count, ...row }: SalesRow & { location_count: number | null }): SalesRow => row;
+
+  // Duplicate (entity_id, period_end, product_group_code) keys
+  const byKey = new Map<string, DuplicateGroup>();
+  rows.forEach(row => {
+    const key = `${row.entity_id}\u0000${row.period_end}\u0000${row.product_group_code}`;
+    const group = byKey.get(key);
+    if (group) {
+      group.rows.push(row.row);
+    } else {
+      byKey.set(key, {
+        entity_id: row.entity_id,
+        period_end: row.period_end,
+        product_group_code: row.product_group_code,
+        rows: [row.row],
+      });
+    }
+  });
+  const duplicateGroups = Array.from(byKey.values()).filter(group => group.rows.length > 1);
+
+  // Negative volumes and per-product-group outliers; groups differ by orders of magnitude
+  const negativeRows = rows.filter(row => row.sales_volume < 0).map(salesRow);
+
+  const volumesByGroup = new Map<string, number[]>();
+  rows.forEach(row => {
+    const volumes = volumesByGroup.get(row.product_group_code) || [];
+    volumes.push(row.sales_volume);
+    volumesByGroup.set(row.product_group_code, volumes);
+  });
+  const bounds: OutlierBounds[] = [];
+  volumesByGroup.forEach((volumes, productGroup) => {
+    if (volumes.length < MIN_OUTLIER_SAMPLE) return;
+    const sorted = volumes.slice().sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+    bounds.push({
+      product_group_code: productGroup,
+      lower: q1 - OUTLIER_IQR_MULTIPLIER * iqr,
+      upper: q3 + OUTLIER_IQR_MULTIPLIER * iqr,
+    });
+  });
+  bounds.sort((a, b) => a.product_group_code.localeCompare(b.product_group_code));
+  const boundsByGroup = new Map(bounds.map(b => [b.product_group_code, b] as [string, OutlierBounds]));
+  const outlierRows = rows
+    .filter(row => {
+      const b = boundsByGroup.get(row.product_group_code);
+      // Negative rows are already reported on their own
+      return !!b && row.sales_volume >= 0 && (row.sales_volume < b.lower || row.sales_volume > b.upper);
+    })
+    .map(salesRow);
+
+  // location_count is a property of the entity and should not change between periods
+  const locationsByEntity = new Map<string, { values: Set<number>; periods: Set<string> }>();
+  rows.forEach(row => {
+    if (row.location_count === null) return;
+    const entry = locationsByEntity.get(row.entity_id) || { values: new Set<number>(), periods: new Set<string>() };
+    entry.values.add(row.location_count);
+    entry.periods.add(row.period_end);
+    locationsByEntity.set(row.entity_id, entry);
+  });
+  const inconsistentEntities: LocationCountInconsistency[] = [];
+  locationsByEntity.forEach((entry, entityId) => {
+    if (entry.values.size > 1) {
+      inconsistentEntities.push({
+        entity_id: entityId,
+        values: Array.from(entry.values).sort((a, b) => a - b),
+        periods: entry.periods.size,
+      });
+    }
+  });
+  inconsistentEntities.sort((a, b) => a.entity_id.localeCompare(b.entity_id));
+
+  // Month coverage for the file as a whole and for each entity between its first and last period
+  let periodStart: string | null = null;
+  let periodEnd: string | null = null;
+  const fileMonths = new Set<string>();
+  const monthsByEntity = new Map<string, Set<string>>();
+  rows.forEach(row => {
+    if (!periodStart || row.period_end < periodStart) periodStart = row.period_end;
+    if (!periodEnd || row.period_end > periodEnd) periodEnd = row.period_end;
+    const month = monthKey(row.period_end);
+    fileMonths.add(month);
+    const months = monthsByEntity.get(row.entity_id) || new Set<string>();
+    months.add(month);
+    monthsByEntity.set(row.entity_id, months);
+  });
+
+  const expectedMonths = periodStart && periodEnd ? monthRange(periodStart, periodEnd) : [];
+  const missingMonths = expectedMonths.filter(month => !fileMonths.has(month));
+  const entityGaps: EntityPeriodGap[] = [];
+  monthsByEntity.forEach((months, entityId) => {
+    const sorted = Array.from(months).sort();
+    const missing = monthRange(`${sorted[0]}-01`, `${sorted[sorted.length - 1]}-01`)
+      // Months missing from the whole file are reported once, not per entity
+      .filter(month => !months.has(month) && fileMonths.has(month));
+    if (missing.length > 0) {
+      entityGaps.push({ entity_id: entityId, missingMonths: missing });
+    }
+  });
+  entityGaps.sort((a, b) => a.entity_id.localeCompare(b.entity_id));
+
+  const missingValues = TRANSACTION_COLUMNS.filter(column => !missingColumns.includes(column)).map(column => ({
+    column,
+    count: missingCounts[column],
+    percent: totalRows === 0 ? 0 : Math.round((missingCounts[column] / totalRows) * 1000) / 10,
+  }));
+  const duplicateCount = duplicateGroups.reduce((sum, group) => sum + group.rows.length - 1, 0);
+
+  return {
+    filename,
+    generatedAt: new Date().toISOString(),
+    columns,
+    missingColumns,
+    totalRows,
+    analyzedRows: rows.length,
+    missingValues,
+    duplicates: { count: duplicateCount, groups: cap(duplicateGroups) },
+    negativeSales: { count: negativeRows.length, rows: cap(negativeRows) },
+    outliers: { count: outlierRows.length, bounds, rows: cap(outlierRows) },
+    inconsistentLocationCounts: { count: inconsistentEntities.length, entities: cap(inconsistentEntities) },
+    periodGaps: {
+      periodStart,
+      periodEnd,
+      expectedMonths: expectedMonths.length,
+      missingMonths,
+      entitiesWithGaps: entityGaps.length,
+      entities: cap(entityGaps),
+    },
+    issueCount:
+      missingValues.reduce((sum, stat) => sum + stat.count, 0) +
+      duplicateCount +
+      negativeRows.length +
+      outlierRows.length +
+      inconsistentEntities.length +
+      missingMonths.length +
+      entityGaps.length,
+    truncated,
+  };
+}
+
+// One finding per line, for the downloadable CSV
+export function qualityFindings(report: DataQualityReport): QualityFinding[] {
+  const findings: QualityFinding[] = [];
+  const none = { row: null, entity_id: null, period_end: null, product_group_code: null };
+
+  report.missingValues
+    .filter(stat => stat.count > 0)
+    .forEach(stat => {
+      findings.push({
+        check: 'missing_value',
+        ...none,
+        detail: `${stat.column}: ${stat.count} empty cells (${stat.percent}%)`,
+      });
+    });
+  report.duplicates.groups.forEach(group => {
+    findings.push({
+      check: 'duplicate',
+      row: group.rows[0],
+      entity_id: group.entity_id,
+      period_end: group.period_end,
+      product_group_code: group.product_group_code,
+      detail: `Same key on rows ${group.rows.join(', ')}`,
+    });
+  });
+  report.negativeSales.rows.forEach(row => {
+    findings.push({
+      check: 'negative_sales',
+      row: row.row,
+      entity_id: row.entity_id,
+      period_end: row.period_end,
+      product_group_code: row.product_group_code,
+      detail: `sales_volume ${row.sales_volume}`,
+    });
+  });
+  const boundsByGroup = new Map(report.outliers.bounds.map(b => [b.product_group_code, b] as [string, OutlierBounds]));
+  report.outliers.rows.forEach(row => {
+    const b = boundsByGroup.get(row.product_group_code);
+    findings.push({
+      check: 'outlier_sales',
+      row: row.row,
+      entity_id: row.entity_id,
+      period_end: row.period_end,
+      product_group_code: row.product_group_code,
+      detail: b
+        ? `sales_volume ${row.sales_volume} outside ${Math.round(b.lower)} – ${Math.round(b.upper)}`
+        : `sales_volume ${row.sales_volume}`,
+    });
+  });
+  report.inconsistentLocationCounts.entities.forEach(entity => {
+    findings.push({
+      check: 'inconsistent_location_count',
+      ...none,
+      entity_id: entity.entity_id,
+      detail: `location_count values ${entity.values.join(', ')} across ${entity.periods} periods`,
+    });
+  });
+  report.periodGaps.missingMonths.forEach(month => {
+    findings.push({ check: 'period_gap', ...none, period_end: month, detail: 'No rows for this month' });
+  });
+  report.periodGaps.entities.forEach(entity => {
+    findings.push({
+      check: 'period_gap',
+      ...none,
+      entity_id: entity.entity_id,
+      detail: `Missing months ${entity.missingMonths.join(', ')}`,
+    });
+  });
+  return findings;
+}
+
+export function qualityReportToCsv(report: DataQualityReport): string {
+  const header: Array<keyof QualityFinding> = ['check', 'row', 'entity_id', 'period_end', 'product_group_code', 'detail'];
+  return toCsv(header, qualityFindings(report).map(finding => header.map(key => finding[key])));
+}
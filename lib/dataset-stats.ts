@@ -0,0 +1,173 @@
+import { supabase } from './supabase';
+import { logger } from "@/lib/logger";
+import { readApiError } from "@/lib/api-errors";
+import type { UploadPreview } from "@/lib/transaction-upload";
+
+/**
+ * Knowledge-base statistics shown in settings and the chat welcome state.
+ * GET /api/data?action=stats reads the backend's stats endpoint, or totals from the report
+ * endpoints on older backends; the dataset_ingestions upload log fills what they leave out.
+ * When the backend cannot be reached, the stats are aggregated from the upload log alone.
+ */
+
+export interface DatasetStats {
+  rows: number | null;
+  entities: number | null;
+  productGroups: string[];
+  periodStart: string | null;
+  periodEnd: string | null;
+  lastIngestedAt: string | null;
+  vectorCollectionName: string | null;
+  vectorCollectionSize: number | null;
+  /**
+   * 'backend' when /v1/data/stats exists, 'uploads' when aggregated from the upload log,
+   * 'reports' when only the report endpoints answered
+   */
+  source: 'backend' | 'uploads' | 'reports';
+}
+
+// Record a successful upload so the dataset card can show when data was last loaded
+export async function recordIngestion(userId: string, preview: UploadPreview): Promise<void> {
+  try {
+    if (!supabase) return;
+
+    const { error } = await supabase.from('dataset_ingestions').insert({
+      user_id: userId,
+      filename: preview.filename,
+      row_count: preview.validRows,
+      skipped_rows: preview.invalidRows,
+      entity_count: preview.summary.entities,
+      product_groups: preview.summary.productGroups,
+      period_start: preview.summary.periodStart,
+      period_end: preview.summary.periodEnd,
+    });
+
+    if (error) {
+      logger.error('❌ Error recording ingestion:', error);
+    }
+  } catch (error) {
+    logger.error('❌ Exception recording ingestion:', error);
+  }
+}
+
+// Totals over every logged upload. Entity counts are per file, so the largest one is the best
+// lower bound; rows add up because each extract covers its own months.
+async function getIngestionStats(): Promise<DatasetStats | null> {
+  try {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+      .from('dataset_ingestions')
+      .select('row_count, entity_count, product_groups, period_start, period_end, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.warn('⚠️ Could not read ingestion log:', error);
+      return null;
+    }
+    if (!data || data.length === 0) return null;
+
+    const productGroups = new Set<string>();
+    let periodStart: string | null = null;
+    let periodEnd: string | null = null;
+    data.forEach(ingestion => {
+      (ingestion.product_groups || []).forEach((group: string) => productGroups.add(group));
+      if (ingestion.period_start && (!periodStart || ingestion.period_start < periodStart)) periodStart = ingestion.period_start;
+      if (ingestion.period_end && (!periodEnd || ingestion.period_end > periodEnd)) periodEnd = ingestion.period_end;
+    });
+
+    return {
+      rows: data.reduce((total, ingestion) => total + (ingestion.row_count || 0), 0),
+      entities: Math.max(...data.map(ingestion => ingestion.entity_count || 0)),
+      productGroups: Array.from(productGroups).sort(),
+      periodStart,
+      periodEnd,
+      lastIngestedAt: data[0].created_at,
+      vectorCollectionName: null,
+      vectorCollectionSize: null,
+      source: 'uploads',
+    };
+  } catch (error) {
+    logger.warn('⚠️ Exception reading ingestion log:', error);
+    return null;
+  }
+}
+
+export async function fetchDatasetStats(): Promise<DatasetStats> {
+  const uploadsPromise = getIngestionStats();
+  let backend: DatasetStats | null = null;
+  let backendError: unknown = null;
+  try {
+    const response = await fetch('/api/data?action=stats', { cache: 'no-store' });
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+    backend = await response.json();
+  } catch (error) {
+    backendError = error;
+  }
+  const uploads = await uploadsPromise;
+
+  if (backend && backend.source === 'backend') {
+    return { ...backend, lastIngestedAt: backend.lastIngestedAt ?? uploads?.lastIngestedAt ?? null };
+  }
+  if (!uploads) {
+    if (backend) return backend;
+    throw backendError;
+  }
+  if (!backend) {
+    logger.warn('⚠️ Dataset stats unavailable from the backend, showing the upload log:', backendError);
+    return uploads;
+  }
+
+  // The report totals cover the whole dataset, preloaded data included; the upload log only
+  // fills what they leave out, such as when data was last loaded
+  return {
+    ...backend,
+    rows: backend.rows ?? uploads.rows,
+    entities: backend.entities ?? uploads.entities,
+    productGroups: backend.productGroups.length > 0 ? backend.productGroups : uploads.productGroups,
+    periodStart: backend.periodStart ?? uploads.periodStart,
+    periodEnd: backend.periodEnd ?? uploads.periodEnd,
+    lastIngestedAt: backend.lastIngestedAt ?? uploads.lastIngestedAt,
+  };
+}
+
+export function formatDatasetDate(value: string | null): string {
+  if (!value) return '—';
+  // Bare dates are UTC midnight; format them in UTC so they don't shift a day
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(value).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    ...(dateOnly ? { timeZone: 'UTC' } : {}),
+  });
+}
+
+export function formatIngestionTime(value: string | null): string {
+  if (!value) return 'never';
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.round(hours / 24);
+  return days < 30 ? `${days} d ago` : formatDatasetDate(value);
+}
+
+// One-line summary for the chat welcome state
+export function datasetSummaryLine(stats: DatasetStats): string {
+  const count = (value: number | null) => (value === null ? '?' : value.toLocaleString());
+  const parts = [`${count(stats.rows)} rows`, `${count(stats.entities)} entities`];
+  if (stats.productGroups.length > 0) {
+    parts.push(`product groups ${stats.productGroups.join(', ')}`);
+  }
+  if (stats.periodStart && stats.periodEnd) {
+    parts.push(`${formatDatasetDate(stats.periodStart)} – ${formatDatasetDate(stats.periodEnd)}`);
+  }
+  if (stats.lastIngestedAt) {
+    parts.push(`updated ${formatIngestionTime(stats.lastIngestedAt)}`);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,53 @@
+/**
+ * @-mentions of entities in chat messages. Mentions live in the message text as `@S001`,
+ * or `@"Store 12"` when the id has spaces, so saved, exported and searched messages keep them.
+ */
+
+// Preceded by start or whitespace so e-mail addresses are not mentions; a trailing "." or "-" is punctuation
+const MENTION_PATTERN = /(^|\s)@(?:"([^"\n]+)"|([A-Za-z0-9](?:[\w.-]*\w)?))/g;
+
+// An unfinished mention at the end of the composer text
+const TRAILING_MENTION = /(^|\s)@("?)([^\s"]*)$/;
+
+export type MentionSegment = { type: 'text'; text: string } | { type: 'mention'; entity: string };
+
+export function mentionToken(entity: string): string {
+  return /[^\w.-]/.test(entity) ? `@"${entity}"` : `@${entity}`;
+}
+
+export function mentionSegments(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let last = 0;
+  text.replace(MENTION_PATTERN, (match: string, lead: string, quoted: string | undefined, bare: string | undefined, offset: number) => {
+    const start = offset + lead.length;
+    if (start > last) segments.push({ type: 'text', text: text.slice(last, start) });
+    segments.push({ type: 'mention', entity: quoted ?? bare ?? '' });
+    last = offset + match.length;
+    return match;
+  });
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+}
+
+// Distinct mentioned entities in order of first mention
+export function extractMentions(text: string): string[] {
+  const entities: string[] = [];
+  mentionSegments(text).forEach(segment => {
+    if (segment.type === 'mention' && !entities.includes(segment.entity)) entities.push(segment.entity);
+  });
+  return entities;
+}
+
+// The partial mention being typed at the end of `text`, if any
+export function trailingMentionQuery(text: string): { query: string; start: number } | null {
+  const match = text.match(TRAILING_MENTION);
+  if (!match || match.index === undefined) return null;
+  return { query: match[3], start: match.index + match[1].length };
+}
+
+// Replace the partial mention at the end of `text` with a complete one
+export function completeMention(text: string, entity: string): string {
+  const partial = trailingMentionQuery(text);
+  const base = partial ? text.slice(0, partial.start) : text;
+  return `${base}${mentionToken(entity)} `;
+}
@@ -0,0 +1,91 @@
+/**
+ * Ranking for entity pickers (reports search, @-mentions in chat).
+ * Exact, prefix and substring matches come first in that order; longer queries also
+ * fall back to an in-order character match scored by coverage and consecutive runs.
+ */
+
+export function getSimilarityScore(entity: string, query: string): number {
+  if (!query) return 0;
+
+  const entityLower = entity.toLowerCase();
+  const queryLower = query.toLowerCase();
+
+  // Exact match (highest priority) - early return
+  if (entityLower === queryLower) return 1000;
+
+  // Starts with query (very high priority) - early return
+  if (entityLower.startsWith(queryLower)) {
+    return 500;
+  }
+
+  // Contains query as substring (high priority) - early return
+  if (entityLower.includes(queryLower)) {
+    return 300;
+  }
+
+  // For short queries, only exact/prefix/contains matches
+  if (queryLower.length <= 2) {
+    return 0;
+  }
+
+  // Fast fuzzy matching with early termination
+  let matchCount = 0;
+  let consecutiveMatches = 0;
+  let lastMatchIndex = -1;
+
+  // Use indexOf with start position for better performance
+  for (let i = 0; i < queryLower.length; i++) {
+    const char = queryLower[i];
+    const index = entityLower.indexOf(char, lastMatchIndex + 1);
+
+    if (index === -1) {
+      // Early termination if we can't find a character
+      return 0;
+    }
+
+    matchCount++;
+
+    // Check for consecutive matches
+    if (index === lastMatchIndex + 1) {
+      consecutiveMatches++;
+    }
+
+    lastMatchIndex = index;
+  }
+
+  // Calculate score only if all characters matched
+  const matchRatio = matchCount / queryLower.length;
+  let score = matchRatio * 100;
+  score += consecutiveMatches * 20;
+
+  // Light penalty for length difference
+  const lengthDiff = Math.abs(entity.length - query.length);
+  score -= lengthDiff * 0.1;
+
+  return Math.max(0, score);
+}
+
+// Entities matching `query`: exact, prefix and substring matches in list order, then fuzzy matches by score
+export function rankEntities(entities: string[], query: string): string[] {
+  if (!query) return entities;
+
+  const queryLower = query.toLowerCase();
+  const tiers: string[][] = [[], [], []];
+  const fuzzy: Array<{ entity: string; score: number }> = [];
+  entities.forEach(entity => {
+    const entityLower = entity.toLowerCase();
+    if (entityLower === queryLower) {
+      tiers[0].push(entity);
+    } else if (entityLower.startsWith(queryLower)) {
+      tiers[1].push(entity);
+    } else if (entityLower.includes(queryLower)) {
+      tiers[2].push(entity);
+    } else {
+      const score = getSimilarityScore(entity, query);
+      if (score > 0) fuzzy.push({ entity, score });
+    }
+  });
+
+  // Array.prototype.sort is stable, so equal fuzzy scores keep list order
+  return tiers[0].concat(tiers[1], tiers[2], fuzzy.sort((a, b) => b.score - a.score).map(item => item.entity));
+}
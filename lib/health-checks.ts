@@ -0,0 +1,151 @@
+import { supabase } from '@/lib/supabase';
+import { toBackendError } from '@/lib/api-errors';
+import { config, configIssues } from '@/lib/config';
+
+/**
+ * Dependency checks behind GET /api/health/ready.
+ * Each check runs independently with its own timeout so one slow dependency
+ * cannot hide the state of the others.
+ */
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export type DependencyName = 'backend' | 'supabase_auth' | 'supabase_db' | 'tts' | 'environment';
+
+export interface DependencyCheck {
+  name: DependencyName;
+  status: CheckStatus;
+  latencyMs: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  /** 'ready' when every check passes, 'degraded' with warnings only, 'unready' when any check fails */
+  status: 'ready' | 'degraded' | 'unready';
+  checks: DependencyCheck[];
+  timestamp: string;
+}
+
+const CHECK_TIMEOUT_MS = 10000;
+
+// Same backend the chat and data routes talk to
+const BACKEND_URL = config.backendUrl;
+
+async function timed(
+  name: DependencyName,
+  run: () => Promise<Omit<DependencyCheck, 'name' | 'latencyMs'>>
+): Promise<DependencyCheck> {
+  const started = Date.now();
+  try {
+    const result = await run();
+    return { name, latencyMs: Date.now() - started, ...result };
+  } catch (error) {
+    const apiError = toBackendError(error);
+    return {
+      name,
+      status: 'fail',
+      latencyMs: Date.now() - started,
+      message: apiError.code === 'BACKEND_TIMEOUT' ? `No response within ${CHECK_TIMEOUT_MS / 1000}s` : apiError.message,
+      details: { code: apiError.code },
+    };
+  }
+}
+
+export function checkBackend(): Promise<DependencyCheck> {
+  return timed('backend', async () => {
+    const response = await fetch(`${BACKEND_URL}/health`, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return { status: 'fail', message: `Backend /health returned ${response.status}`, details: { url: BACKEND_URL } };
+    }
+    const body = await response.json().catch(() => null);
+    return { status: 'pass', message: 'Backend reachable', details: { url: BACKEND_URL, response: body } };
+  });
+}
+
+// Probe without synthesising audio: a GET on the POST-only route answers 405 when it exists
+export function checkTts(): Promise<DependencyCheck> {
+  return timed('tts', async () => {
+    const response = await fetch(`${BACKEND_URL}/v1/text-to-speech`, {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    });
+    if (response.status === 404) {
+      return { status: 'fail', message: 'Backend has no /v1/text-to-speech endpoint' };
+    }
+    if (response.status >= 500) {
+      return { status: 'fail', message: `TTS endpoint returned ${response.status}` };
+    }
+    return { status: 'pass', message: 'TTS endpoint available', details: { probeStatus: response.status } };
+  });
+}
+
+export function checkSupabaseAuth(): Promise<DependencyCheck> {
+  return timed('supabase_auth', async () => {
+    if (!config.supabase) {
+      return { status: 'fail', message: 'Supabase is not configured' };
+    }
+    const response = await fetch(`${config.supabase.url}/auth/v1/health`, {
+      headers: { apikey: config.supabase.anonKey },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return { status: 'fail', message: `Supabase auth returned ${response.status}` };
+    }
+    return { status: 'pass', message: 'Supabase auth reachable' };
+  });
+}
+
+// A head-only count on sessions proves the database, the REST layer and the schema are up.
+// Row-level security hides other users' rows but still answers the query.
+export function checkSupabaseDb(): Promise<DependencyCheck> {
+  return timed('supabase_db', async () => {
+    if (!supabase) {
+      return { status: 'fail', message: 'Supabase is not configured' };
+    }
+    const { error } = await supabase
+      .from('sessions')
+      .select('id', { count: 'exact', head: true })
+      .abortSignal(AbortSignal.timeout(CHECK_TIMEOUT_MS));
+    if (error) {
+      return { status: 'fail', message: `Database query failed: ${error.message}`, details: { code: error.code } };
+    }
+    return { status: 'pass', message: 'Database reachable' };
+  });
+}
+
+// Reports the issues lib/config.ts found when the server started
+export function checkEnvironment(): Promise<DependencyCheck> {
+  return timed('environment', async () => {
+    const details = { profile: config.profile, issues: configIssues };
+    const errors = configIssues.filter(issue => issue.severity === 'error');
+
+    if (errors.length > 0) {
+      return { status: 'fail', message: errors.map(issue => `${issue.variable}: ${issue.message}`).join('; '), details };
+    }
+    if (configIssues.length > 0) {
+      return { status: 'warn', message: configIssues.map(issue => `${issue.variable}: ${issue.message}`).join('; '), details };
+    }
+    return { status: 'pass', message: `All environment variables valid (${config.profile} profile)`, details };
+  });
+}
+
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const checks = await Promise.all([
+    checkBackend(),
+    checkSupabaseAuth(),
+    checkSupabaseDb(),
+    checkTts(),
+    checkEnvironment(),
+  ]);
+  const status = checks.some(check => check.status === 'fail')
+    ? 'unready'
+    : checks.some(check => check.status === 'warn')
+      ? 'degraded'
+      : 'ready';
+  return { status, checks, timestamp: new Date().toISOString() };
+}
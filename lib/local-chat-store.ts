@@ -0,0 +1,309 @@
+import { logger } from "@/lib/logger";
+import type { SourceCitation } from "@/lib/citations";
+import type { SessionSettings } from "@/lib/session-settings";
+import { normalizeConversationContext, type ConversationContext } from "@/lib/conversation-history";
+import { LOCAL_SESSION_PREFIX, LOCAL_USER_ID, localChatAvailable, type ChatStore } from "@/lib/chat-store";
+import type { ChatMessage, ChatSession, SaveMessageOptions } from "@/lib/supabase-chat";
+
+/**
+ * Chat history kept in this browser's IndexedDB, used when Supabase is not configured or
+ * nobody is signed in. Same shapes as the Supabase tables so sessions can be migrated as-is.
+ * Attachments are not stored; their names stay in the message text.
+ */
+
+const DB_NAME = 'retail-chat-history';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const MESSAGES = 'messages';
+const CONTEXTS = 'conversation_contexts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        }
+        if (!db.objectStoreNames.contains(MESSAGES)) {
+          db.createObjectStore(MESSAGES, { keyPath: 'id' }).createIndex('session_id', 'session_id');
+        }
+        if (!db.objectStoreNames.contains(CONTEXTS)) {
+          db.createObjectStore(CONTEXTS, { keyPath: 'session_id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again (private windows can refuse IndexedDB for a while)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function read<T>(storeName: string, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return result(run(db.transaction(storeName, 'readonly').objectStore(storeName)));
+}
+
+async function write(storeNames: string[], run: (tx: IDBTransaction) => void): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, 'readwrite');
+  run(tx);
+  await completed(tx);
+}
+
+function newId(prefix: string): string {
+  return `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Messages are ordered by created_at, so two saves in the same millisecond must still differ
+let lastTimestamp = 0;
+function timestamp(): string {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp).toISOString();
+}
+
+async function createChatSession(userId: string, title: string = 'New Chat'): Promise<string | null> {
+  try {
+    if (!localChatAvailable()) {
+      logger.error('❌ IndexedDB is not available');
+      return null;
+    }
+
+    const session: ChatSession = { id: newId(LOCAL_SESSION_PREFIX), user_id: userId, title, created_at: timestamp(), settings: {} };
+    await write([SESSIONS], tx => tx.objectStore(SESSIONS).put(session));
+    logger.log('✅ Local session created:', session.id);
+    return session.id;
+  } catch (error) {
+    logger.error('❌ Exception creating local session:', error);
+    return null;
+  }
+}
+
+async function getUserSessions(userId: string): Promise<ChatSession[]> {
+  try {
+    if (!localChatAvailable()) return [];
+    const sessions = await read<ChatSession[]>(SESSIONS, store => store.index('user_id').getAll(userId));
+    return sessions.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  } catch (error) {
+    logger.error('❌ Exception fetching local sessions:', error);
+    return [];
+  }
+}
+
+async function getSessionMessages(sessionId: string): Promise<ChatMessage[]> {
+  try {
+    if (!localChatAvailable()) return [];
+    const messages = await read<ChatMessage[]>(MESSAGES, store => store.index('session_id').getAll(sessionId));
+    return messages.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch (error) {
+    logger.error('❌ Exception fetching local messages:', error);
+    return [];
+  }
+}
+
+async function getChatSession(sessionId: string): Promise<ChatSession | null> {
+  try {
+    if (!localChatAvailable()) return null;
+    return (await read<ChatSession | undefined>(SESSIONS, store => store.get(sessionId))) ?? null;
+  } catch (error) {
+    logger.error('❌ Exception fetching local session:', error);
+    return null;
+  }
+}
+
+async function saveMessage(
+  sessionId: string,
+  role: 'user' | 'assistant',
+  content: string,
+  sources?: SourceCitation[],
+  options: SaveMessageOptions = {}
+): Promise<string | null> {
+  try {
+    if (!localChatAvailable()) {
+      logger.error('❌ IndexedDB is not available');
+      return null;
+    }
+
+    const message: ChatMessage = {
+      id: newId('local_msg_'),
+      session_id: sessionId,
+      role,
+      content,
+      sources: sources && sources.length > 0 && role === 'assistant' ? sources : undefined,
+      cancelled: options.cancelled || undefined,
+      progress_steps: options.progressSteps && options.progressSteps.length > 0 && role === 'assistant' ? options.progressSteps : undefined,
+      parent_id: options.parentId ?? null,
+      created_at: timestamp(),
+    };
+    await write([MESSAGES], tx => tx.objectStore(MESSAGES).put(message));
+    return message.id;
+  } catch (error) {
+    logger.error('❌ Exception saving local message:', error);
+    return null;
+  }
+}
+
+async function updateCancelledMessage(messageId: string, content: string, sources?: SourceCitation[]): Promise<boolean> {
+  try {
+    if (!localChatAvailable()) return false;
+    const message = await read<ChatMessage | undefined>(MESSAGES, store => store.get(messageId));
+    if (!message || !message.cancelled) {
+      logger.error('❌ Cancelled local message not found:', messageId);
+      return false;
+    }
+    const updated: ChatMessage = { ...message, content, sources: sources && sources.length > 0 ? sources : undefined };
+    await write([MESSAGES], tx => tx.objectStore(MESSAGES).put(updated));
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception updating cancelled local message:', error);
+    return false;
+  }
+}
+
+async function updateSession(sessionId: string, changes: Partial<ChatSession>): Promise<boolean> {
+  try {
+    if (!localChatAvailable()) return false;
+    const session = await getChatSession(sessionId);
+    if (!session) {
+      logger.error('❌ Local session not found:', sessionId);
+      return false;
+    }
+    await write([SESSIONS], tx => tx.objectStore(SESSIONS).put({ ...session, ...changes }));
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception updating local session:', error);
+    return false;
+  }
+}
+
+function updateSessionSettings(sessionId: string, settings: SessionSettings): Promise<boolean> {
+  return updateSession(sessionId, { settings });
+}
+
+function updateSessionTitle(sessionId: string, title: string): Promise<boolean> {
+  return updateSession(sessionId, { title });
+}
+
+async function getConversationContext(sessionId: string): Promise<ConversationContext | null> {
+  try {
+    if (!localChatAvailable()) return null;
+    const row = await read<unknown>(CONTEXTS, store => store.get(sessionId));
+    return row ? normalizeConversationContext(row) : null;
+  } catch (error) {
+    logger.error('❌ Exception loading local conversation context:', error);
+    return null;
+  }
+}
+
+async function saveConversationContext(sessionId: string, context: ConversationContext): Promise<boolean> {
+  try {
+    if (!localChatAvailable()) return false;
+    await write([CONTEXTS], tx => tx.objectStore(CONTEXTS).put({ session_id: sessionId, ...context }));
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception saving local conversation context:', error);
+    return false;
+  }
+}
+
+async function deleteSession(sessionId: string): Promise<boolean> {
+  try {
+    if (!localChatAvailable()) return false;
+    const messageIds = await read<IDBValidKey[]>(MESSAGES, store => store.index('session_id').getAllKeys(sessionId));
+    await write([SESSIONS, MESSAGES, CONTEXTS], tx => {
+      messageIds.forEach(id => tx.objectStore(MESSAGES).delete(id));
+      tx.objectStore(CONTEXTS).delete(sessionId);
+      tx.objectStore(SESSIONS).delete(sessionId);
+    });
+    logger.log('✅ Local session deleted:', sessionId);
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception deleting local session:', error);
+    return false;
+  }
+}
+
+// Copy a session into this browser, with fresh local ids
+async function importSession(
+  userId: string,
+  session: ChatSession,
+  messages: ChatMessage[],
+  context: ConversationContext | null
+): Promise<string | null> {
+  try {
+    if (!localChatAvailable()) return null;
+
+    const sessionId = newId(LOCAL_SESSION_PREFIX);
+    const newIds: Record<string, string> = {};
+    messages.forEach(message => {
+      newIds[message.id] = newId('local_msg_');
+    });
+
+    await write([SESSIONS, MESSAGES, CONTEXTS], tx => {
+      tx.objectStore(SESSIONS).put({ ...session, id: sessionId, user_id: userId });
+      messages.forEach(message => {
+        tx.objectStore(MESSAGES).put({
+          ...message,
+          id: newIds[message.id],
+          session_id: sessionId,
+          parent_id: message.parent_id ? newIds[message.parent_id] ?? null : null,
+          attachments: undefined,
+        });
+      });
+      if (context) {
+        tx.objectStore(CONTEXTS).put({
+          session_id: sessionId,
+          ...context,
+          summarized_through: context.summarized_through ? newIds[context.summarized_through] ?? null : null,
+        });
+      }
+    });
+    return sessionId;
+  } catch (error) {
+    logger.error('❌ Exception importing local session:', error);
+    return null;
+  }
+}
+
+// True when this browser still holds conversations that were never moved to an account
+export async function hasLocalSessions(): Promise<boolean> {
+  return (await getUserSessions(LOCAL_USER_ID)).length > 0;
+}
+
+export const localChatStore: ChatStore = {
+  kind: 'local',
+  createChatSession,
+  getUserSessions,
+  getSessionMessages,
+  getChatSession,
+  saveMessage,
+  updateCancelledMessage,
+  updateSessionSettings,
+  getConversationContext,
+  saveConversationContext,
+  updateSessionTitle,
+  deleteSession,
+  importSession,
+};
@@ -0,0 +1,176 @@
+import { supabase } from './supabase';
+import { logger } from "@/lib/logger";
+
+/**
+ * Thumbs up/down on assistant answers (supabase/migrations/20261019150000_message_feedback.sql).
+ * Each user keeps one rating per message; thumbs-down ratings feed the analyst review page.
+ */
+
+export type FeedbackRating = 'up' | 'down';
+export type FeedbackReviewStatus = 'open' | 'resolved';
+
+export const FEEDBACK_REASONS = [
+  { value: 'wrong_numbers', label: 'Wrong numbers' },
+  { value: 'missing_data', label: 'Missing data' },
+  { value: 'irrelevant', label: 'Irrelevant' },
+] as const;
+
+export type FeedbackReason = typeof FEEDBACK_REASONS[number]['value'];
+
+export interface MessageFeedback {
+  message_id: string;
+  rating: FeedbackRating;
+  reasons: string[];
+  comment: string | null;
+  updated_at: string;
+}
+
+export interface FeedbackReviewItem {
+  feedback_id: string;
+  message_id: string;
+  session_id: string;
+  user_id: string;
+  reasons: string[];
+  comment: string | null;
+  review_status: FeedbackReviewStatus;
+  updated_at: string;
+  /** The question the answer replied to; null for answers without a saved parent */
+  question: string | null;
+  answer: string;
+}
+
+export function feedbackReasonLabel(reason: string): string {
+  return FEEDBACK_REASONS.find(r => r.value === reason)?.label ?? reason;
+}
+
+// The current user's feedback on the given messages, keyed by message id
+export async function getMessageFeedback(messageIds: string[]): Promise<Record<string, MessageFeedback>> {
+  try {
+    if (!supabase || messageIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('message_feedback')
+      .select('message_id, rating, reasons, comment, updated_at')
+      .in('message_id', messageIds);
+
+    if (error) {
+      logger.error('❌ Error fetching message feedback:', error);
+      return {};
+    }
+
+    const byMessage: Record<string, MessageFeedback> = {};
+    (data || []).forEach((row: MessageFeedback) => {
+      byMessage[row.message_id] = row;
+    });
+    return byMessage;
+  } catch (error) {
+    logger.error('❌ Exception fetching message feedback:', error);
+    return {};
+  }
+}
+
+export async function saveMessageFeedback(
+  userId: string,
+  messageId: string,
+  feedback: { rating: FeedbackRating; reasons?: string[]; comment?: string | null }
+): Promise<MessageFeedback | null> {
+  try {
+    if (!supabase) return null;
+
+    const comment = feedback.comment?.trim() || null;
+    const { data, error } = await supabase
+      .from('message_feedback')
+      .upsert({
+        message_id: messageId,
+        user_id: userId,
+        rating: feedback.rating,
+        // Reasons describe what was wrong, so they only apply to thumbs-down
+        reasons: feedback.rating === 'down' ? feedback.reasons || [] : [],
+        comment,
+        // New or changed feedback goes back into the review queue
+        review_status: 'open',
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'message_id,user_id' })
+      .select('message_id, rating, reasons, comment, updated_at')
+      .single();
+
+    if (error) {
+      logger.error('❌ Error saving message feedback:', error);
+      return null;
+    }
+
+    logger.log('👍 Feedback saved:', messageId, feedback.rating);
+    return data as MessageFeedback;
+  } catch (error) {
+    logger.error('❌ Exception saving message feedback:', error);
+    return null;
+  }
+}
+
+export async function deleteMessageFeedback(userId: string, messageId: string): Promise<boolean> {
+  try {
+    if (!supabase) return false;
+
+    const { error } = await supabase
+      .from('message_feedback')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('❌ Error deleting message feedback:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception deleting message feedback:', error);
+    return false;
+  }
+}
+
+// Thumbs-down answers for triage; throws so the review page can show why it is empty
+export async function getFeedbackForReview(
+  status: FeedbackReviewStatus | null = 'open',
+  limit: number = 50
+): Promise<FeedbackReviewItem[]> {
+  if (!supabase) {
+    throw new Error('Feedback review is unavailable: Supabase is not configured');
+  }
+
+  const { data, error } = await supabase.rpc('review_message_feedback', {
+    status_filter: status,
+    result_limit: limit,
+  });
+
+  if (error) {
+    logger.error('❌ Feedback review query failed:', error);
+    throw new Error(error.message || 'Could not load feedback');
+  }
+  return (data || []) as FeedbackReviewItem[];
+}
+
+export async function isFeedbackAnalyst(): Promise<boolean> {
+  if (!supabase) return false;
+  const { data, error } = await supabase.rpc('is_feedback_analyst');
+  if (error) {
+    logger.warn('⚠️ Could not check analyst role:', error);
+    return false;
+  }
+  return data === true;
+}
+
+export async function setFeedbackReviewStatus(feedbackId: string, status: FeedbackReviewStatus): Promise<void> {
+  if (!supabase) {
+    throw new Error('Feedback review is unavailable: Supabase is not configured');
+  }
+
+  const { error } = await supabase.rpc('set_feedback_review_status', {
+    feedback_id: feedbackId,
+    new_status: status,
+  });
+
+  if (error) {
+    logger.error('❌ Could not update feedback status:', error);
+    throw new Error(error.message || 'Could not update feedback');
+  }
+}
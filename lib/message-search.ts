@@ -0,0 +1,75 @@
+import { supabase } from './supabase';
+import { logger } from "@/lib/logger";
+
+/**
+ * Full-text search over the signed-in user's messages, backed by the search_messages
+ * Postgres function (supabase/migrations/20261019140000_messages_search.sql).
+ */
+
+export interface MessageSearchFilters {
+  /** Inclusive start date, YYYY-MM-DD */
+  from?: string;
+  /** Inclusive end date, YYYY-MM-DD */
+  to?: string;
+  role?: 'user' | 'assistant';
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  message_id: string;
+  session_id: string;
+  session_title: string | null;
+  role: 'user' | 'assistant';
+  created_at: string;
+  /** Matched terms are wrapped in <mark>…</mark>; use snippetSegments to render */
+  snippet: string;
+  rank: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// Shortest query worth sending; single letters match nearly everything
+export const MIN_SEARCH_LENGTH = 2;
+
+// Local calendar dates to timestamps; `to` covers the whole day
+function dayStart(date: string, offsetDays: number = 0): string {
+  const d = new Date(`${date}T00:00:00`);
+  d.setDate(d.getDate() + offsetDays);
+  return d.toISOString();
+}
+
+export async function searchMessages(query: string, filters: MessageSearchFilters = {}): Promise<MessageSearchResult[]> {
+  const trimmed = query.trim();
+  if (trimmed.length < MIN_SEARCH_LENGTH) return [];
+  if (!supabase) {
+    throw new Error('Search is unavailable: Supabase is not configured');
+  }
+
+  const { data, error } = await supabase.rpc('search_messages', {
+    search_query: trimmed,
+    from_date: filters.from ? dayStart(filters.from) : null,
+    to_date: filters.to ? dayStart(filters.to, 1) : null,
+    message_role: filters.role ?? null,
+    result_limit: filters.limit ?? 30,
+  });
+
+  if (error) {
+    logger.error('❌ Message search failed:', error);
+    throw new Error(error.message || 'Search failed');
+  }
+
+  logger.log('🔍 Message search:', trimmed, '→', data?.length || 0, 'results');
+  return (data || []) as MessageSearchResult[];
+}
+
+export function snippetSegments(snippet: string): SnippetSegment[] {
+  return snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/g)
+    .filter(part => part !== '')
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice(6, -7), highlight: true }
+      : { text: part, highlight: false });
+}
@@ -0,0 +1,70 @@
+/**
+ * Helpers for conversations stored as a tree: every message points at the message it answers
+ * or follows (parent_id), so editing a question or regenerating an answer adds a sibling
+ * instead of overwriting history. Nodes are expected in creation order.
+ */
+
+export interface TreeNode {
+  id: string;
+  parentId: string | null;
+}
+
+export interface SiblingInfo<T extends TreeNode> {
+  siblings: T[];
+  /** Position of the node among its siblings, 0-based */
+  index: number;
+}
+
+export function childrenOf<T extends TreeNode>(nodes: T[], parentId: string | null): T[] {
+  return nodes.filter(node => node.parentId === parentId);
+}
+
+export function siblingInfo<T extends TreeNode>(nodes: T[], node: TreeNode): SiblingInfo<T> {
+  const siblings = childrenOf(nodes, node.parentId);
+  return { siblings, index: siblings.findIndex(sibling => sibling.id === node.id) };
+}
+
+// Follow the most recent child from `from` down to a leaf; `from` itself is included
+export function latestDescendants<T extends TreeNode>(nodes: T[], from: T): T[] {
+  const path = [from];
+  let current = from;
+  for (;;) {
+    const children = childrenOf(nodes, current.id);
+    if (children.length === 0) return path;
+    current = children[children.length - 1];
+    path.push(current);
+  }
+}
+
+// The branch ending at the most recently created message, i.e. where the user left off
+export function activeBranch<T extends TreeNode>(nodes: T[]): T[] {
+  if (nodes.length === 0) return [];
+  const byId = new Map(nodes.map(node => [node.id, node] as [string, T]));
+  const path: T[] = [];
+  let current: T | undefined = nodes[nodes.length - 1];
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+// Root-to-leaf branch passing through `node`, continuing along its most recent descendants
+export function branchThrough<T extends TreeNode>(nodes: T[], node: T): T[] {
+  const byId = new Map(nodes.map(n => [n.id, n] as [string, T]));
+  const ancestors: T[] = [];
+  let current = node.parentId ? byId.get(node.parentId) : undefined;
+  while (current) {
+    ancestors.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return ancestors.concat(latestDescendants(nodes, node));
+}
+
+// Replace nodes that share an id with `updates` and append the rest, keeping creation order
+export function mergeNodes<T extends TreeNode>(nodes: T[], updates: T[]): T[] {
+  const updated = new Map(updates.map(node => [node.id, node] as [string, T]));
+  const merged = nodes.map(node => updated.get(node.id) || node);
+  const known = new Set(nodes.map(node => node.id));
+  return merged.concat(updates.filter(node => !known.has(node.id)));
+}
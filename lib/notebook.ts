@@ -0,0 +1,244 @@
+import { supabase } from './supabase';
+import { logger } from "@/lib/logger";
+import { normalizeSources, type SourceCitation } from "@/lib/citations";
+import { splitAttachmentNote } from "@/lib/supabase-chat";
+
+/**
+ * Insights notebook: assistant answers pinned from any session, with a note and tags
+ * (supabase/migrations/20261019170000_notebook_pins.sql). Pins keep pointing at the
+ * message, so deleting the conversation removes its pins too.
+ */
+
+export interface PinAnnotation {
+  note: string | null;
+  tags: string[];
+}
+
+export interface PinSummary extends PinAnnotation {
+  id: string;
+}
+
+export interface NotebookPin extends PinSummary {
+  message_id: string;
+  position: number;
+  created_at: string;
+  answer: string;
+  sources: SourceCitation[];
+  answered_at: string;
+  session_id: string;
+  session_title: string | null;
+  /** The question the answer replied to, when it is saved */
+  question: string | null;
+}
+
+// Comma-separated tag input to a clean, de-duplicated list
+export function parseTags(input: string): string[] {
+  const tags: string[] = [];
+  input.split(',').forEach(part => {
+    const tag = part.trim().replace(/^#/, '');
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  return tags;
+}
+
+function cleanAnnotation(annotation: PinAnnotation): PinAnnotation {
+  return { note: annotation.note?.trim() || null, tags: annotation.tags };
+}
+
+export async function getNotebookPins(userId: string): Promise<NotebookPin[]> {
+  try {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('notebook_pins')
+      .select('id, message_id, note, tags, position, created_at, messages(content, sources, created_at, parent_id, session_id, sessions(title))')
+      .eq('user_id', userId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      logger.error('❌ Error fetching notebook pins:', error);
+      return [];
+    }
+
+    const rows: any[] = (data || []).filter((row: any) => row.messages);
+
+    // Questions are the answers' parents; one extra query fetches them all
+    const parentIds = rows.map(row => row.messages.parent_id).filter(Boolean);
+    const questions: Record<string, string> = {};
+    if (parentIds.length > 0) {
+      const { data: parents, error: parentError } = await supabase
+        .from('messages')
+        .select('id, content')
+        .in('id', parentIds);
+      if (parentError) {
+        logger.warn('⚠️ Could not load pinned questions:', parentError);
+      }
+      (parents || []).forEach((parent: { id: string; content: string }) => {
+        questions[parent.id] = splitAttachmentNote(parent.content).text;
+      });
+    }
+
+    return rows.map((row): NotebookPin => ({
+      id: row.id,
+      message_id: row.message_id,
+      note: row.note,
+      tags: row.tags || [],
+      position: row.position,
+      created_at: row.created_at,
+      answer: row.messages.content,
+      sources: row.messages.sources ? normalizeSources(row.messages.sources) : [],
+      answered_at: row.messages.created_at,
+      session_id: row.messages.session_id,
+      session_title: row.messages.sessions?.title ?? null,
+      question: questions[row.messages.parent_id] ?? null,
+    }));
+  } catch (error) {
+    logger.error('❌ Exception fetching notebook pins:', error);
+    return [];
+  }
+}
+
+// The current user's pins on the given messages, keyed by message id
+export async function getPinsForMessages(messageIds: string[]): Promise<Record<string, PinSummary>> {
+  try {
+    if (!supabase || messageIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('notebook_pins')
+      .select('id, message_id, note, tags')
+      .in('message_id', messageIds);
+
+    if (error) {
+      logger.error('❌ Error fetching message pins:', error);
+      return {};
+    }
+
+    const byMessage: Record<string, PinSummary> = {};
+    (data || []).forEach((row: PinSummary & { message_id: string }) => {
+      byMessage[row.message_id] = { id: row.id, note: row.note, tags: row.tags || [] };
+    });
+    return byMessage;
+  } catch (error) {
+    logger.error('❌ Exception fetching message pins:', error);
+    return {};
+  }
+}
+
+export async function pinMessage(userId: string, messageId: string, annotation: PinAnnotation): Promise<PinSummary | null> {
+  try {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+      .from('notebook_pins')
+      .insert({
+        user_id: userId,
+        message_id: messageId,
+        ...cleanAnnotation(annotation),
+        // New pins go to the end of the notebook
+        position: Date.now(),
+      })
+      .select('id, note, tags')
+      .single();
+
+    if (error) {
+      logger.error('❌ Error pinning message:', error);
+      return null;
+    }
+
+    logger.log('📌 Pinned message:', messageId);
+    return data as PinSummary;
+  } catch (error) {
+    logger.error('❌ Exception pinning message:', error);
+    return null;
+  }
+}
+
+export async function updatePin(pinId: string, annotation: PinAnnotation): Promise<boolean> {
+  try {
+    if (!supabase) return false;
+
+    const { error } = await supabase
+      .from('notebook_pins')
+      .update({ ...cleanAnnotation(annotation), updated_at: new Date().toISOString() })
+      .eq('id', pinId);
+
+    if (error) {
+      logger.error('❌ Error updating pin:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception updating pin:', error);
+    return false;
+  }
+}
+
+export async function unpin(pinId: string): Promise<boolean> {
+  try {
+    if (!supabase) return false;
+
+    const { error } = await supabase.from('notebook_pins').delete().eq('id', pinId);
+
+    if (error) {
+      logger.error('❌ Error removing pin:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception removing pin:', error);
+    return false;
+  }
+}
+
+// Move a pin one place up or down by swapping positions with its neighbour
+export async function swapPinPositions(a: NotebookPin, b: NotebookPin): Promise<boolean> {
+  try {
+    if (!supabase) return false;
+
+    const results = await Promise.all([
+      supabase.from('notebook_pins').update({ position: b.position }).eq('id', a.id),
+      supabase.from('notebook_pins').update({ position: a.position }).eq('id', b.id),
+    ]);
+    const failed = results.find(result => result.error);
+    if (failed) {
+      logger.error('❌ Error reordering pins:', failed.error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception reordering pins:', error);
+    return false;
+  }
+}
+
+export function notebookToMarkdown(pins: NotebookPin[]): string {
+  const lines: string[] = ['# Insights notebook', '', `_Exported ${new Date().toLocaleString()} · ${pins.length} pinned answers_`, ''];
+
+  pins.forEach((pin, i) => {
+    lines.push('---', '', `## ${i + 1}. ${pin.session_title || 'Untitled chat'}`, '');
+    lines.push(`_Answered ${new Date(pin.answered_at).toLocaleString()}_`, '');
+    if (pin.tags.length > 0) lines.push(`**Tags:** ${pin.tags.map(tag => `#${tag}`).join(' ')}`, '');
+    if (pin.note) lines.push(...pin.note.split('\n').map(line => `> ${line}`), '');
+    if (pin.question) lines.push(`**Question:** ${pin.question}`, '');
+    lines.push(pin.answer, '');
+    if (pin.sources.length > 0) {
+      lines.push('**Sources:**', '');
+      pin.sources.forEach((source, n) => lines.push(`${n + 1}. ${source.document}`));
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+export function exportNotebook(pins: NotebookPin[]): void {
+  const blob = new Blob([notebookToMarkdown(pins)], { type: 'text/markdown;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `insights-notebook-${new Date().toISOString().split('T')[0]}.md`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
@@ -0,0 +1,98 @@
+import { toProgressStep, type ProgressStep } from '@/lib/chat-stream';
+
+/**
+ * Per-answer timeline of the agent's processing steps, stored with the message
+ * (messages.progress_steps). Durations are measured in the browser between progress
+ * events, so they include network time but not the wait before the first step.
+ */
+
+export type TimelineStage = 'retrieval' | 'sql' | 'validation' | 'drafting' | 'other';
+
+export type TimelineStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface TimelineStep extends ProgressStep {
+  stage: TimelineStage;
+  status: TimelineStatus;
+  /** Epoch milliseconds; null for steps that arrived without timing (non-streaming replies) */
+  started_at: number | null;
+  duration_ms: number | null;
+}
+
+export const STAGE_LABELS: Record<TimelineStage, string> = {
+  retrieval: 'Retrieval',
+  sql: 'SQL / aggregation',
+  validation: 'Validation',
+  drafting: 'Drafting',
+  other: 'Step',
+};
+
+// Checked in order; the backend's step ids and messages vary, so match on keywords
+const STAGE_KEYWORDS: Array<[TimelineStage, RegExp]> = [
+  ['validation', /validat|verif|check|guardrail/i],
+  ['sql', /sql|query|aggregat|calculat|comput|metric|kpi/i],
+  ['retrieval', /retriev|search|vector|embed|context|document|rag/i],
+  ['drafting', /draft|generat|writ|compos|answer|summar|respon|llm/i],
+];
+
+export function classifyStep(step: ProgressStep): TimelineStage {
+  const text = `${step.step} ${step.message}`;
+  const match = STAGE_KEYWORDS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : 'other';
+}
+
+function closeRunning(timeline: TimelineStep[], status: Exclude<TimelineStatus, 'running'>, now: number): TimelineStep[] {
+  return timeline.map(step =>
+    step.status === 'running'
+      ? { ...step, status, duration_ms: step.started_at === null ? null : Math.max(0, now - step.started_at) }
+      : step
+  );
+}
+
+// A new step starts, which finishes the one before it
+export function startStep(timeline: TimelineStep[], step: ProgressStep, now: number = Date.now()): TimelineStep[] {
+  return [
+    ...closeRunning(timeline, 'done', now),
+    { ...step, stage: classifyStep(step), status: 'running', started_at: now, duration_ms: null },
+  ];
+}
+
+// The answer finished, failed or was stopped; the running step takes that status
+export function finishTimeline(
+  timeline: TimelineStep[],
+  status: Exclude<TimelineStatus, 'running'>,
+  now: number = Date.now()
+): TimelineStep[] {
+  return closeRunning(timeline, status, now);
+}
+
+// Steps reported all at once (non-streaming replies) have no timing
+export function timelineFromSteps(steps: ProgressStep[]): TimelineStep[] {
+  return steps.map(step => ({ ...step, stage: classifyStep(step), status: 'done', started_at: null, duration_ms: null }));
+}
+
+export function totalDuration(timeline: TimelineStep[]): number | null {
+  const timed = timeline.filter(step => step.duration_ms !== null);
+  return timed.length === 0 ? null : timed.reduce((total, step) => total + (step.duration_ms || 0), 0);
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(ms < 10000 ? 1 : 0)} s`;
+}
+
+const STATUSES: TimelineStatus[] = ['running', 'done', 'failed', 'cancelled'];
+
+// Stored timelines, tolerating partial or older rows; a step left running was interrupted
+export function normalizeTimeline(raw: unknown): TimelineStep[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((item: any): TimelineStep => {
+    const step = toProgressStep(item);
+    const status: TimelineStatus = STATUSES.includes(item?.status) ? item.status : 'done';
+    return {
+      ...step,
+      stage: item?.stage in STAGE_LABELS ? item.stage : classifyStep(step),
+      status: status === 'running' ? 'cancelled' : status,
+      started_at: typeof item?.started_at === 'number' ? item.started_at : null,
+      duration_ms: typeof item?.duration_ms === 'number' ? item.duration_ms : null,
+    };
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Minimal runtime validators for backend responses.
+ * A schema is a function that returns the value typed as T, or throws SchemaError
+ * pointing at the first field that does not match the contract.
+ */
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class SchemaError extends Error {
+  readonly path: string;
+  readonly expected: string;
+  readonly received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describe(value);
+    super(`${path}: expected ${expected}, got ${received}`);
+    this.name = 'SchemaError';
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, SchemaError.prototype);
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export const str: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+};
+
+export const num: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'number', value);
+  return value;
+};
+
+export const bool: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+};
+
+export const unknownValue: Schema<unknown> = (value) => value;
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || values.indexOf(value as T) === -1) {
+      throw new SchemaError(path, values.map(v => `"${v}"`).join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+// Python omits some fields and sends None for others; treat both as absent
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : schema(value, path));
+}
+
+export function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path) => (value === undefined || value === null ? fallback : schema(value, path));
+}
+
+export function oneOf<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return (value, path) => {
+    try {
+      return a(value, path);
+    } catch {
+      return b(value, path);
+    }
+  };
+}
+
+export function arrayOf<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+    return value.map((item, i) => schema(item, `${path}[${i}]`));
+  };
+}
+
+// Objects keep only the declared keys
+export function objectOf<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result = {} as { [K in keyof S]: Infer<S[K]> };
+    for (const key of Object.keys(shape) as Array<keyof S & string>) {
+      result[key] = shape[key](source[key], `${path}.${key}`) as Infer<S[typeof key]>;
+    }
+    return result;
+  };
+}
+
+export function recordOf<T>(schema: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    const result: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = schema(item, `${path}.${key}`);
+    }
+    return result;
+  };
+}
+
+export function parse<T>(schema: Schema<T>, value: unknown, label: string = '$'): T {
+  return schema(value, label);
+}
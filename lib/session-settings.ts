@@ -0,0 +1,78 @@
+import { logger } from "@/lib/logger";
+import {
+  arrayOf,
+  literal,
+  nullable,
+  num,
+  objectOf,
+  parse,
+  str,
+  withDefault,
+  SchemaError,
+  type Infer,
+  type Schema,
+} from '@/lib/schema';
+
+/**
+ * Retrieval and answer settings chosen per chat session, stored in sessions.settings
+ * and forwarded by /api/chat to /v1/ask with every question of that session.
+ */
+
+export const DEFAULT_RETRIEVAL_K = 10;
+export const MIN_RETRIEVAL_K = 1;
+export const MAX_RETRIEVAL_K = 50;
+
+export const ANSWER_STYLES = [
+  { value: 'concise', label: 'Concise', hint: 'Short answers, key numbers first' },
+  { value: 'detailed', label: 'Detailed', hint: 'Full explanation with context' },
+  { value: 'table_first', label: 'Table first', hint: 'Lead with a table, then comment' },
+] as const;
+
+export type AnswerStyle = typeof ANSWER_STYLES[number]['value'];
+
+const retrievalK: Schema<number> = (value, path) => {
+  const k = num(value, path);
+  if (!Number.isInteger(k) || k < MIN_RETRIEVAL_K || k > MAX_RETRIEVAL_K) {
+    throw new SchemaError(path, `integer ${MIN_RETRIEVAL_K}-${MAX_RETRIEVAL_K}`, value);
+  }
+  return k;
+};
+
+const isoDate: Schema<string> = (value, path) => {
+  const date = str(value, path);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new SchemaError(path, 'YYYY-MM-DD date', value);
+  return date;
+};
+
+export const sessionSettingsSchema = objectOf({
+  k: withDefault(retrievalK, DEFAULT_RETRIEVAL_K),
+  /** Restrict retrieval to these product groups; empty means all */
+  product_groups: withDefault(arrayOf(str), []),
+  date_from: nullable(isoDate),
+  date_to: nullable(isoDate),
+  answer_style: withDefault(literal<AnswerStyle>('concise', 'detailed', 'table_first'), 'detailed'),
+});
+
+export type SessionSettings = Infer<typeof sessionSettingsSchema>;
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = parse(sessionSettingsSchema, {});
+
+// Stored settings, falling back to the defaults for rows written before a field existed
+export function normalizeSessionSettings(raw: unknown): SessionSettings {
+  try {
+    return parse(sessionSettingsSchema, raw ?? {});
+  } catch (error) {
+    logger.warn('⚠️ Ignoring invalid session settings:', error);
+    return DEFAULT_SESSION_SETTINGS;
+  }
+}
+
+// Number of settings that differ from the defaults, for the header badge
+export function changedSettingsCount(settings: SessionSettings): number {
+  return [
+    settings.k !== DEFAULT_SESSION_SETTINGS.k,
+    settings.product_groups.length > 0,
+    !!(settings.date_from || settings.date_to),
+    settings.answer_style !== DEFAULT_SESSION_SETTINGS.answer_style,
+  ].filter(Boolean).length;
+}
@@ -0,0 +1,156 @@
+import { supabase } from './supabase';
+import { logger } from "@/lib/logger";
+import { normalizeSources } from "@/lib/citations";
+import type { ChatMessage } from "@/lib/supabase-chat";
+
+/**
+ * Read-only share links for conversations (supabase/migrations/20261019160000_session_shares.sql).
+ * The token is generated by Postgres; /share/<token> reads the conversation through the
+ * get_shared_conversation function, so viewers need no account.
+ */
+
+export interface SessionShare {
+  id: string;
+  token: string;
+  session_id: string;
+  session_title: string | null;
+  created_at: string;
+}
+
+export type SharedMessage = Omit<ChatMessage, 'session_id'>;
+
+export interface SharedConversation {
+  title: string | null;
+  sharedAt: string;
+  messages: SharedMessage[];
+}
+
+export function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+function toSessionShare(row: any): SessionShare {
+  return {
+    id: row.id,
+    token: row.token,
+    session_id: row.session_id,
+    session_title: row.sessions?.title ?? null,
+    created_at: row.created_at,
+  };
+}
+
+// The session's active link if it has one, otherwise a new one
+export async function getOrCreateShareLink(userId: string, sessionId: string): Promise<SessionShare | null> {
+  try {
+    if (!supabase) return null;
+
+    const { data: existing, error: existingError } = await supabase
+      .from('session_shares')
+      .select('id, token, session_id, created_at, sessions(title)')
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (existingError) {
+      logger.error('❌ Error reading share links:', existingError);
+    } else if (existing && existing.length > 0) {
+      return toSessionShare(existing[0]);
+    }
+
+    const { data, error } = await supabase
+      .from('session_shares')
+      .insert({ session_id: sessionId, user_id: userId })
+      .select('id, token, session_id, created_at, sessions(title)')
+      .single();
+
+    if (error) {
+      logger.error('❌ Error creating share link:', error);
+      return null;
+    }
+
+    logger.log('🔗 Share link created for session:', sessionId);
+    return toSessionShare(data);
+  } catch (error) {
+    logger.error('❌ Exception creating share link:', error);
+    return null;
+  }
+}
+
+export async function getShareLinks(userId: string): Promise<SessionShare[]> {
+  try {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('session_shares')
+      .select('id, token, session_id, created_at, sessions(title)')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('❌ Error fetching share links:', error);
+      return [];
+    }
+    return (data || []).map(toSessionShare);
+  } catch (error) {
+    logger.error('❌ Exception fetching share links:', error);
+    return [];
+  }
+}
+
+export async function revokeShareLink(shareId: string): Promise<boolean> {
+  try {
+    if (!supabase) return false;
+
+    // Rows are not updatable directly; the function only touches the caller's own links
+    const { data, error } = await supabase.rpc('revoke_share_link', { share_id: shareId });
+
+    if (error) {
+      logger.error('❌ Error revoking share link:', error);
+      return false;
+    }
+    if (!data) {
+      logger.warn('⚠️ Share link not found or already revoked:', shareId);
+      return false;
+    }
+
+    logger.log('🔒 Share link revoked:', shareId);
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception revoking share link:', error);
+    return false;
+  }
+}
+
+// The shared conversation, or null when the token is unknown or revoked (or the session is empty)
+export async function getSharedConversation(token: string): Promise<SharedConversation | null> {
+  if (!supabase) {
+    throw new Error('Shared conversations are unavailable: Supabase is not configured');
+  }
+
+  const { data, error } = await supabase.rpc('get_shared_conversation', { share_token: token });
+
+  if (error) {
+    logger.error('❌ Error loading shared conversation:', error);
+    throw new Error(error.message || 'Could not load the conversation');
+  }
+
+  const rows: any[] = data || [];
+  if (rows.length === 0) return null;
+
+  return {
+    title: rows[0].session_title,
+    sharedAt: rows[0].shared_at,
+    messages: rows.map((row): SharedMessage => ({
+      id: row.message_id,
+      role: row.role,
+      content: row.content,
+      sources: row.sources ? normalizeSources(row.sources) : undefined,
+      cancelled: row.cancelled || undefined,
+      parent_id: row.parent_id,
+      created_at: row.created_at,
+    })),
+  };
+}
@@ -0,0 +1,366 @@
+import { ApiError } from '@/lib/api-errors';
+import { logger } from "@/lib/logger";
+import { CHART_FENCE_LANGUAGE, formatChartValue, type ChartRow, type ChartType, type ChartValueFormat } from '@/lib/chart-spec';
+import { getChatSummary, getEntityReport, getOverviewTimeSeries, type EntityReport } from '@/lib/backend-api';
+import { currentBranch, getSessionMessages, getUserSessions } from '@/lib/supabase-chat';
+import { periodDate, summaryPeriod, type SummaryRange } from '@/lib/summary-periods';
+
+/**
+ * Slash commands typed in the chat composer. Each one calls the same /v1 endpoints as the
+ * reports and spotlight pages and answers with Markdown (tables plus ```chart blocks), so the
+ * result is saved, exported and searched like any other assistant answer.
+ */
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export type SlashCommand =
+  | { name: 'report'; entity: string; months: number }
+  | { name: 'compare'; entityA: string; entityB: string; months: number }
+  | { name: 'trend'; productGroup: string; granularity: TrendGranularity }
+  | { name: 'summary'; range: SummaryRange };
+
+export type SlashCommandName = SlashCommand['name'];
+
+export interface SlashCommandDefinition {
+  name: SlashCommandName;
+  usage: string;
+  description: string;
+}
+
+export const SLASH_COMMANDS: SlashCommandDefinition[] = [
+  { name: 'report', usage: '/report <entity> [months]', description: 'KPI report for one entity' },
+  { name: 'compare', usage: '/compare <entityA> <entityB> [months]', description: 'Compare two entities side by side' },
+  { name: 'trend', usage: '/trend <product_group|ALL> <day|week|month>', description: 'Sales trend for a product group' },
+  { name: 'summary', usage: '/summary <week|month>', description: 'Spotlight summary of your recent conversations' },
+];
+
+// Same default window as the reports page
+export const DEFAULT_REPORT_MONTHS = 12;
+
+const MONTH_OPTIONS = [3, 6, 12, 24];
+const GRANULARITIES: TrendGranularity[] = ['day', 'week', 'month'];
+const SUMMARY_RANGES: SummaryRange[] = ['week', 'month'];
+const MAX_SUGGESTIONS = 8;
+
+export type SlashParseResult = { command: SlashCommand; error?: undefined } | { command?: undefined; error: string };
+
+export function isSlashCommand(text: string): boolean {
+  return /^\/[a-z]/i.test(text.trim());
+}
+
+// Whitespace-separated arguments; double quotes keep entity names with spaces together
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1] : match[2]);
+  }
+  return tokens;
+}
+
+function quoteArg(arg: string): string {
+  return /\s/.test(arg) ? `"${arg}"` : arg;
+}
+
+function definition(name: string): SlashCommandDefinition | undefined {
+  return SLASH_COMMANDS.find(command => command.name === name.toLowerCase());
+}
+
+function parseMonths(value: string | undefined, usage: string): number | string {
+  if (value === undefined) return DEFAULT_REPORT_MONTHS;
+  const months = Number(value);
+  if (!Number.isInteger(months) || months < 1 || months > 120) {
+    return `Months must be a whole number between 1 and 120. Usage: ${usage}`;
+  }
+  return months;
+}
+
+export function parseSlashCommand(text: string): SlashParseResult {
+  const [rawName, ...args] = tokenize(text.trim().slice(1));
+  const command = definition(rawName || '');
+  if (!command) {
+    return { error: `Unknown command /${rawName || ''}. Try ${SLASH_COMMANDS.map(c => `/${c.name}`).join(', ')}` };
+  }
+  const usageError = { error: `Usage: ${command.usage}` };
+
+  switch (command.name) {
+    case 'report': {
+      if (args.length < 1 || args.length > 2) return usageError;
+      const months = parseMonths(args[1], command.usage);
+      if (typeof months === 'string') return { error: months };
+      return { command: { name: 'report', entity: args[0], months } };
+    }
+    case 'compare': {
+      if (args.length < 2 || args.length > 3) return usageError;
+      if (args[0] === args[1]) return { error: 'Pick two different entities to compare' };
+      const months = parseMonths(args[2], command.usage);
+      if (typeof months === 'string') return { error: months };
+      return { command: { name: 'compare', entityA: args[0], entityB: args[1], months } };
+    }
+    case 'trend': {
+      if (args.length !== 2) return usageError;
+      const granularity = args[1].toLowerCase() as TrendGranularity;
+      if (!GRANULARITIES.includes(granularity)) return usageError;
+      return { command: { name: 'trend', productGroup: args[0].toUpperCase(), granularity } };
+    }
+    case 'summary': {
+      const range = (args[0] || '').toLowerCase() as SummaryRange;
+      if (args.length !== 1 || !SUMMARY_RANGES.includes(range)) return usageError;
+      return { command: { name: 'summary', range } };
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Autocomplete
+// ---------------------------------------------------------------------------
+
+export interface SlashSuggestion {
+  label: string;
+  description?: string;
+  /** Composer text after accepting the suggestion */
+  value: string;
+}
+
+export interface SlashSuggestionSources {
+  entities: string[];
+  productGroups: string[];
+}
+
+function matching(options: string[], prefix: string): string[] {
+  const lower = prefix.toLowerCase();
+  return options.filter(option => option.toLowerCase().startsWith(lower) && option.toLowerCase() !== lower);
+}
+
+export function slashSuggestions(text: string, sources: SlashSuggestionSources): SlashSuggestion[] {
+  if (!text.startsWith('/')) return [];
+  const body = text.slice(1);
+
+  // Still typing the command name
+  if (!/\s/.test(body)) {
+    return SLASH_COMMANDS
+      .filter(command => command.name.startsWith(body.toLowerCase()))
+      .map(command => ({ label: command.usage, description: command.description, value: `/${command.name} ` }));
+  }
+
+  const [name, ...args] = tokenize(body);
+  const command = definition(name);
+  if (!command) return [];
+
+  // The argument being typed is '' right after a space
+  const typing = /\s$/.test(body) ? '' : args.pop() || '';
+  const position = args.length;
+  const base = `/${command.name} ${args.map(quoteArg).join(' ')}${args.length > 0 ? ' ' : ''}`;
+
+  let options: string[] = [];
+  let hint = '';
+  if (command.name === 'report' || command.name === 'compare') {
+    const entityArgs = command.name === 'report' ? 1 : 2;
+    if (position < entityArgs) {
+      options = matching(sources.entities.filter(entity => !args.includes(entity)), typing);
+      hint = 'Entity';
+    } else if (position === entityArgs) {
+      options = matching(MONTH_OPTIONS.map(String), typing);
+      hint = 'Months';
+    }
+  } else if (command.name === 'trend') {
+    if (position === 0) {
+      options = matching(['ALL', ...sources.productGroups], typing);
+      hint = 'Product group';
+    } else if (position === 1) {
+      options = matching(GRANULARITIES, typing);
+      hint = 'Granularity';
+    }
+  } else if (command.name === 'summary' && position === 0) {
+    options = matching(SUMMARY_RANGES, typing);
+    hint = 'Period';
+  }
+
+  return options.slice(0, MAX_SUGGESTIONS).map(option => ({
+    label: option,
+    description: hint,
+    value: `${base}${quoteArg(option)} `,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+export interface SlashCommandContext {
+  userId: string | null;
+}
+
+function chartBlock(spec: { type: ChartType; title: string; x: string; y: string[]; format: ChartValueFormat; data: ChartRow[] }): string {
+  return ['```' + CHART_FENCE_LANGUAGE, JSON.stringify(spec), '```'].join('\n');
+}
+
+const currency = (value: number | null | undefined) => formatChartValue(value, 'currency');
+
+function growth(rate: number | undefined): string {
+  if (rate === undefined || rate === null) return '—';
+  return `${rate >= 0 ? '+' : ''}${rate.toFixed(1)}%`;
+}
+
+function kpiRows(report: EntityReport): Array<[string, string]> {
+  const { kpis } = report;
+  return [
+    ['Total sales', currency(kpis.total_sales)],
+    ['Avg sales per transaction', currency(kpis.avg_sales_per_transaction)],
+    ['Top product group', `${kpis.top_product_group} (${currency(kpis.top_product_group_sales)})`],
+    ['Sales growth', growth(kpis.sales_growth_rate)],
+    ['Period', `${kpis.period_start} to ${kpis.period_end}`],
+  ];
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|');
+  return [
+    `| ${header.map(escape).join(' | ')} |`,
+    `| ${header.map((_, i) => (i === 0 ? '---' : '---:')).join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escape).join(' | ')} |`),
+  ].join('\n');
+}
+
+async function runReport(entity: string, months: number): Promise<string> {
+  const report = await getEntityReport(entity, months);
+  const sections = [
+    `### ${report.entity_id} · last ${months} months`,
+    markdownTable(['KPI', 'Value'], kpiRows(report)),
+  ];
+  if (report.sales_trends.length > 0) {
+    sections.push(chartBlock({
+      type: 'line',
+      title: 'Sales trend',
+      x: 'period_end',
+      y: ['total_sales'],
+      format: 'currency',
+      data: report.sales_trends,
+    }));
+  }
+  if (report.product_group_performance.length > 0) {
+    sections.push(chartBlock({
+      type: 'pareto',
+      title: 'Sales by product group',
+      x: 'product_group_code',
+      y: ['total_sales'],
+      format: 'currency',
+      data: report.product_group_performance.map(({ product_group_code, total_sales }) => ({ product_group_code, total_sales })),
+    }));
+  }
+  if (report.ai_summary) sections.push(report.ai_summary);
+  return sections.join('\n\n');
+}
+
+async function runCompare(entityA: string, entityB: string, months: number): Promise<string> {
+  const [a, b] = await Promise.all([getEntityReport(entityA, months), getEntityReport(entityB, months)]);
+  const rowsA = kpiRows(a);
+  const rowsB = kpiRows(b);
+  const sections = [
+    `### ${a.entity_id} vs ${b.entity_id} · last ${months} months`,
+    markdownTable(['KPI', a.entity_id, b.entity_id], rowsA.map(([label, value], i) => [label, value, rowsB[i][1]])),
+  ];
+
+  // One row per period with a column per entity
+  const byPeriod = new Map<string, ChartRow>();
+  const addTrend = (report: EntityReport) => {
+    report.sales_trends.forEach(point => {
+      const row = byPeriod.get(point.period_end) || { period_end: point.period_end };
+      row[report.entity_id] = point.total_sales;
+      byPeriod.set(point.period_end, row);
+    });
+  };
+  addTrend(a);
+  addTrend(b);
+  if (byPeriod.size > 0) {
+    sections.push(chartBlock({
+      type: 'line',
+      title: 'Sales trend',
+      x: 'period_end',
+      y: [a.entity_id, b.entity_id],
+      format: 'currency',
+      data: Array.from(byPeriod.values()).sort((x, y) => String(x.period_end).localeCompare(String(y.period_end))),
+    }));
+  }
+  return sections.join('\n\n');
+}
+
+async function runTrend(productGroup: string, granularity: TrendGranularity): Promise<string> {
+  // All available history, as on the sales overview page
+  const points = await getOverviewTimeSeries({ granularity, periodMonths: 0, productGroup, mode: 'aggregate' });
+  const label = productGroup === 'ALL' ? 'all product groups' : `product group ${productGroup}`;
+  if (points.length === 0) {
+    return `No sales found for ${label}.`;
+  }
+
+  const total = points.reduce((sum, point) => sum + point.total_sales, 0);
+  const peak = points.reduce((best, point) => (point.total_sales > best.total_sales ? point : best), points[0]);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const change = first.total_sales === 0 ? undefined : ((last.total_sales - first.total_sales) / first.total_sales) * 100;
+
+  return [
+    `### Sales trend for ${label} · by ${granularity}`,
+    markdownTable(['Metric', 'Value'], [
+      ['Total sales', currency(total)],
+      ['Peak', `${currency(peak.total_sales)} (${peak.period})`],
+      [`${first.period} → ${last.period}`, growth(change)],
+    ]),
+    chartBlock({
+      type: 'line',
+      title: `Sales by ${granularity}`,
+      x: 'period',
+      y: ['total_sales'],
+      format: 'currency',
+      data: points,
+    }),
+  ].join('\n\n');
+}
+
+async function runSummary(range: SummaryRange, userId: string | null): Promise<string> {
+  if (!userId) {
+    throw new ApiError('BAD_REQUEST', 'Sign in to summarize your conversations');
+  }
+
+  // Same period bounds as the spotlight page, so a cached summary is reused
+  const { startDate, endDate } = summaryPeriod(new Date(), range);
+  const sessions = await getUserSessions(userId);
+  const branches = await Promise.all(sessions.map(async session => currentBranch(await getSessionMessages(session.id))));
+  const messages = branches
+    .reduce((all, branch) => all.concat(branch), [])
+    .filter(message => {
+      const created = new Date(message.created_at);
+      return created >= startDate && created <= endDate && message.content;
+    })
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const heading = `### Your ${range} so far · ${startDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${endDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  if (messages.length === 0) {
+    return `${heading}\n\nNo conversations yet this ${range}.`;
+  }
+
+  const summary = await getChatSummary({
+    user_id: userId,
+    period_start: periodDate(startDate),
+    period_end: periodDate(endDate),
+    time_range: range,
+    message_count: messages.length,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+  });
+  return `${heading}\n\n${summary.summary || 'No summary was generated for this period.'}\n\n_Based on ${messages.length} messages._`;
+}
+
+export async function runSlashCommand(command: SlashCommand, context: SlashCommandContext): Promise<string> {
+  logger.log('⚡ Running slash command:', command);
+  switch (command.name) {
+    case 'report':
+      return runReport(command.entity, command.months);
+    case 'compare':
+      return runCompare(command.entityA, command.entityB, command.months);
+    case 'trend':
+      return runTrend(command.productGroup, command.granularity);
+    case 'summary':
+      return runSummary(command.range, context.userId);
+  }
+}
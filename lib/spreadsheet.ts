@@ -0,0 +1,59 @@
+import ExcelJS from 'exceljs';
+import { normalizeHeader, parseCsv, type ParsedRows, type RawRow } from '@/lib/transaction-upload';
+
+/**
+ * Reader for uploaded CSV/XLSX files, used by /api/data and by the chat composer's preview.
+ * Produces the header row and one object per data row keyed by normalized header.
+ */
+
+export type ParsedSheet = ParsedRows;
+
+// ExcelJS returns rich objects for formulas, hyperlinks and rich text; keep the displayed value
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined || value instanceof Date) return value;
+  if (typeof value !== 'object') return value;
+  if ('result' in value) return value.result;
+  if ('text' in value) return value.text;
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  return String(value);
+}
+
+async function readXlsx(buffer: ArrayBuffer): Promise<ParsedSheet> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs accepts an ArrayBuffer in Node and the browser; its typings only mention Buffer
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+
+  // Monthly extracts have a single sheet; anything else is ignored
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { columns: [], rows: [], rowNumbers: [] };
+
+  const records: Array<{ values: unknown[]; rowNumber: number }> = [];
+  sheet.eachRow({ includeEmpty: false }, row => {
+    const values = row.values as ExcelJS.CellValue[];
+    // row.values is 1-based; row.number is the sheet row, so skipped blank rows still count
+    records.push({ values: values.slice(1).map(cellValue), rowNumber: row.number });
+  });
+
+  const [header, ...data] = records;
+  const columns = header ? header.values.map(h => String(h ?? '').trim()) : [];
+  const keys = columns.map(normalizeHeader);
+
+  return {
+    columns,
+    rowNumbers: data.map(entry => entry.rowNumber),
+    rows: data.map(({ values }) => {
+      const row: RawRow = {};
+      keys.forEach((key, i) => {
+        row[key] = values[i] ?? '';
+      });
+      return row;
+    }),
+  };
+}
+
+export async function readSpreadsheet(file: File): Promise<ParsedSheet> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  return parseCsv(await file.text());
+}
@@ -0,0 +1,36 @@
+/**
+ * Calendar periods used for conversation summaries. The backend caches summaries per
+ * period_start/period_end, so every caller must compute the bounds the same way.
+ */
+
+export type SummaryRange = 'week' | 'month';
+
+export interface SummaryPeriod {
+  /** Local midnight at the start of the period (Sunday for weeks) */
+  startDate: Date;
+  /** Last millisecond of the period, local time */
+  endDate: Date;
+}
+
+export function summaryPeriod(date: Date, range: SummaryRange): SummaryPeriod {
+  if (range === 'week') {
+    const startDate = new Date(date);
+    startDate.setDate(startDate.getDate() - date.getDay());
+    startDate.setHours(0, 0, 0, 0);
+
+    const endDate = new Date(startDate);
+    endDate.setDate(endDate.getDate() + 6);
+    endDate.setHours(23, 59, 59, 999);
+    return { startDate, endDate };
+  }
+
+  return {
+    startDate: new Date(date.getFullYear(), date.getMonth(), 1),
+    endDate: new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999),
+  };
+}
+
+// period_start / period_end as sent to /v1/chat-summary
+export function periodDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,519 @@
+import { supabase } from './supabase';
+import { logger } from "@/lib/logger";
+import { normalizeSources, type SourceCitation } from "@/lib/citations";
+import { normalizeTimeline } from "@/lib/progress-timeline";
+import type { SessionSettings } from "@/lib/session-settings";
+import { normalizeConversationContext, type ConversationContext } from "@/lib/conversation-history";
+import { normalizeAttachments } from "@/lib/attachments";
+import { deleteSessionAttachments } from "@/lib/attachment-storage";
+import type { ChatStore } from "@/lib/chat-store";
+import type { ChatMessage, ChatSession, SaveMessageOptions } from "@/lib/supabase-chat";
+
+/**
+ * Chat history in Supabase (sessions, messages, conversation_contexts), for signed-in users.
+ */
+
+// Create a new chat session
+async function createChatSession(userId: string, title: string = 'New Chat'): Promise<string | null> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return null;
+    }
+    
+    logger.log('🔧 Creating session for user:', userId);
+    
+    const { data, error } = await supabase
+      .from('sessions')
+      .insert({ user_id: userId })
+      .select('id')
+      .single();
+
+    if (error) {
+      logger.error('❌ Error creating session:', error);
+      return null;
+    }
+
+    logger.log('✅ Session created successfully:', data.id);
+    return data.id;
+  } catch (error) {
+    logger.error('❌ Exception creating session:', error);
+    return null;
+  }
+}
+
+// Get all sessions for a user
+async function getUserSessions(userId: string): Promise<ChatSession[]> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return [];
+    }
+    
+    logger.log('🔍 Fetching sessions for user:', userId);
+    
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('❌ Error fetching sessions:', error);
+      return [];
+    }
+
+    logger.log('✅ Found sessions:', data?.length || 0, 'sessions');
+    return data || [];
+  } catch (error) {
+    logger.error('❌ Exception fetching sessions:', error);
+    return [];
+  }
+}
+
+// Get every message of a session, all branches included, in creation order
+async function getSessionMessages(sessionId: string): Promise<ChatMessage[]> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return [];
+    }
+    
+    logger.log('🔍 getSessionMessages: Fetching messages for session:', sessionId);
+    logger.log('🔍 getSessionMessages: Session ID type:', typeof sessionId);
+    logger.log('🔍 getSessionMessages: Session ID length:', sessionId?.length);
+    
+    // Check if sessionId is a valid UUID format (temporarily disabled for debugging)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(sessionId)) {
+      logger.warn('⚠️ Session ID format warning:', sessionId, 'but continuing anyway...');
+      // return []; // Temporarily disabled
+    }
+    
+    // First, let's check if the session exists
+    logger.log('🔍 getSessionMessages: Checking if session exists...');
+    const { data: sessionCheck, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .single();
+    
+    if (sessionError) {
+      logger.error('❌ Session check error:', sessionError);
+    } else {
+      logger.log('✅ Session exists:', sessionCheck);
+    }
+    
+    // Now try to get messages
+    logger.log('🔍 getSessionMessages: Fetching messages...');
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, session_id, role, content, sources, cancelled, parent_id, progress_steps, attachments, created_at')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('❌ Error fetching messages:', error);
+      logger.error('❌ Error details:', JSON.stringify(error, null, 2));
+      return [];
+    }
+
+    logger.log('✅ getSessionMessages: Found messages:', data?.length || 0);
+    logger.log('✅ getSessionMessages: Raw messages data:', data);
+    // Older rows store sources as plain strings
+    return (data || []).map((msg) => ({
+      ...msg,
+      sources: msg.sources ? normalizeSources(msg.sources) : undefined,
+      progress_steps: msg.progress_steps ? normalizeTimeline(msg.progress_steps) : undefined,
+      attachments: msg.attachments ? normalizeAttachments(msg.attachments) : undefined
+    }));
+  } catch (error) {
+    logger.error('❌ Exception fetching messages:', error);
+    return [];
+  }
+}
+
+// Get a single session (title and creation time), or null if it cannot be read
+async function getChatSession(sessionId: string): Promise<ChatSession | null> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .single();
+
+    if (error) {
+      logger.error('❌ Error fetching session:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    logger.error('❌ Exception fetching session:', error);
+    return null;
+  }
+}
+
+// Save a message to the database; resolves to the new message id, or null on failure
+async function saveMessage(
+  sessionId: string,
+  role: 'user' | 'assistant',
+  content: string,
+  sources?: SourceCitation[],
+  options: SaveMessageOptions = {}
+): Promise<string | null> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return null;
+    }
+    
+    logger.log('💾 saveMessage: Saving message with sources:', sources);
+    
+    const messageData: any = {
+      session_id: sessionId,
+      role: role,
+      content: content
+    };
+    
+    // Only add sources if they exist and it's an assistant message
+    if (sources && sources.length > 0 && role === 'assistant') {
+      messageData.sources = sources;
+    }
+
+    if (options.cancelled) {
+      messageData.cancelled = true;
+    }
+
+    if (options.parentId) {
+      messageData.parent_id = options.parentId;
+    }
+
+    if (options.progressSteps && options.progressSteps.length > 0 && role === 'assistant') {
+      messageData.progress_steps = options.progressSteps;
+    }
+
+    if (options.attachments && options.attachments.length > 0 && role === 'user') {
+      messageData.attachments = options.attachments;
+    }
+    
+    const { data, error } = await supabase
+      .from('messages')
+      .insert(messageData)
+      .select('id')
+      .single();
+
+    if (error) {
+      logger.error('❌ Error saving message:', error);
+      return null;
+    }
+
+    logger.log('✅ Message saved successfully with sources');
+    return data.id;
+  } catch (error) {
+    logger.error('❌ Exception saving message:', error);
+    return null;
+  }
+}
+
+async function updateCancelledMessage(messageId: string, content: string, sources?: SourceCitation[]): Promise<boolean> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return false;
+    }
+
+    // messages has no update policy; the function only touches cancelled answers the caller owns
+    const { data, error } = await supabase.rpc('update_cancelled_message', {
+      target_id: messageId,
+      new_content: content,
+      new_sources: sources && sources.length > 0 ? sources : null,
+    });
+
+    if (error) {
+      logger.error('❌ Error updating cancelled message:', error);
+      return false;
+    }
+    if (!data) {
+      logger.warn('⚠️ Cancelled message not found or not yours:', messageId);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception updating cancelled message:', error);
+    return false;
+  }
+}
+
+async function updateSessionSettings(sessionId: string, settings: SessionSettings): Promise<boolean> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('sessions')
+      .update({ settings })
+      .eq('id', sessionId);
+
+    if (error) {
+      logger.error('❌ Error updating session settings:', error);
+      return false;
+    }
+
+    logger.log('⚙️ Session settings saved:', sessionId, settings);
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception updating session settings:', error);
+    return false;
+  }
+}
+
+// Rolling summary of the older turns, or null when the session has none yet
+async function getConversationContext(sessionId: string): Promise<ConversationContext | null> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('conversation_contexts')
+      .select('summary, summarized_count, summarized_through, token_estimate')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('❌ Error loading conversation context:', error);
+      return null;
+    }
+
+    return data ? normalizeConversationContext(data) : null;
+  } catch (error) {
+    logger.error('❌ Exception loading conversation context:', error);
+    return null;
+  }
+}
+
+async function saveConversationContext(sessionId: string, context: ConversationContext): Promise<boolean> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('conversation_contexts')
+      .upsert(
+        { session_id: sessionId, ...context, updated_at: new Date().toISOString() },
+        { onConflict: 'session_id' }
+      );
+
+    if (error) {
+      logger.error('❌ Error saving conversation context:', error);
+      return false;
+    }
+
+    logger.log('🧠 Conversation summary saved:', sessionId, `${context.summarized_count} messages, ~${context.token_estimate} tokens`);
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception saving conversation context:', error);
+    return false;
+  }
+}
+
+// Update session title
+async function updateSessionTitle(sessionId: string, title: string): Promise<boolean> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return false;
+    }
+    
+    const { error } = await supabase
+      .from('sessions')
+      .update({ title: title })
+      .eq('id', sessionId);
+
+    if (error) {
+      logger.error('Error updating session title:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Error updating session title:', error);
+    return false;
+  }
+}
+
+// Delete a session and all its messages
+async function deleteSession(sessionId: string): Promise<boolean> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return false;
+    }
+    
+    logger.log('🗑️ deleteSession: Starting deletion for session:', sessionId);
+    
+    // First delete all conversation contexts
+    logger.log('🗑️ deleteSession: Deleting conversation contexts...');
+    const { error: contextsError } = await supabase
+      .from('conversation_contexts')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (contextsError) {
+      logger.error('❌ Error deleting conversation contexts:', contextsError);
+      // Continue anyway - contexts table might not have entries
+    } else {
+      logger.log('✅ Conversation contexts deleted');
+    }
+    
+    // Delete suggested questions for this session
+    logger.log('🗑️ deleteSession: Deleting suggested questions...');
+    const { error: questionsError } = await supabase
+      .from('suggested_questions')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (questionsError) {
+      logger.error('❌ Error deleting suggested questions:', questionsError);
+      // Continue anyway - questions table might not have entries
+    } else {
+      logger.log('✅ Suggested questions deleted');
+    }
+    
+    // Stored attachments are only reachable through the session, so remove them while it exists
+    logger.log('🗑️ deleteSession: Deleting attachments...');
+    if (await deleteSessionAttachments(sessionId)) {
+      logger.log('✅ Attachments deleted');
+    }
+
+    // Then delete all messages
+    logger.log('🗑️ deleteSession: Deleting messages...');
+    const { error: messagesError } = await supabase
+      .from('messages')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (messagesError) {
+      logger.error('❌ Error deleting messages:', messagesError);
+      return false;
+    }
+    logger.log('✅ Messages deleted');
+
+    // Finally delete the session
+    logger.log('🗑️ deleteSession: Deleting session...');
+    const { error: sessionError } = await supabase
+      .from('sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (sessionError) {
+      logger.error('❌ Error deleting session:', sessionError);
+      return false;
+    }
+
+    logger.log('✅ deleteSession: Session deleted successfully');
+    return true;
+  } catch (error) {
+    logger.error('❌ Exception in deleteSession:', error);
+    return false;
+  }
+}
+
+// Copy a session from the browser store; messages go in creation order so parents exist first
+async function importSession(
+  userId: string,
+  session: ChatSession,
+  messages: ChatMessage[],
+  context: ConversationContext | null
+): Promise<string | null> {
+  try {
+    if (!supabase) {
+      logger.error('❌ Supabase client not initialized');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('sessions')
+      .insert({
+        user_id: userId,
+        ...(session.title ? { title: session.title } : {}),
+        settings: session.settings ?? {},
+        created_at: session.created_at,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      logger.error('❌ Error importing session:', error);
+      return null;
+    }
+
+    const newIds: Record<string, string> = {};
+    const ordered = messages.slice().sort((a, b) => a.created_at.localeCompare(b.created_at));
+    for (const message of ordered) {
+      const { data: inserted, error: messageError } = await supabase
+        .from('messages')
+        .insert({
+          session_id: data.id,
+          role: message.role,
+          content: message.content,
+          ...(message.sources && message.sources.length > 0 ? { sources: message.sources } : {}),
+          ...(message.cancelled ? { cancelled: true } : {}),
+          ...(message.progress_steps && message.progress_steps.length > 0 ? { progress_steps: message.progress_steps } : {}),
+          parent_id: message.parent_id ? newIds[message.parent_id] ?? null : null,
+          created_at: message.created_at,
+        })
+        .select('id')
+        .single();
+
+      if (messageError) {
+        logger.error('❌ Error importing message, rolling back session:', messageError);
+        await deleteSession(data.id);
+        return null;
+      }
+      newIds[message.id] = inserted.id;
+    }
+
+    // The summary stays valid once it points at the copied message
+    if (context && (context.summarized_through === null || newIds[context.summarized_through])) {
+      await saveConversationContext(data.id, {
+        ...context,
+        summarized_through: context.summarized_through ? newIds[context.summarized_through] : null,
+      });
+    }
+
+    logger.log('✅ Session imported:', session.id, '→', data.id, `(${ordered.length} messages)`);
+    return data.id;
+  } catch (error) {
+    logger.error('❌ Exception importing session:', error);
+    return null;
+  }
+}
+
+export const supabaseChatStore: ChatStore = {
+  kind: 'supabase',
+  createChatSession,
+  getUserSessions,
+  getSessionMessages,
+  getChatSession,
+  saveMessage,
+  updateCancelledMessage,
+  updateSessionSettings,
+  getConversationContext,
+  saveConversationContext,
+  updateSessionTitle,
+  deleteSession,
+  importSession,
+};
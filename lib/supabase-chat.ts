@@ -1,11 +1,26 @@
-import { supabase } from './supabase';
 import { logger } from "@/lib/logger";
+import type { SourceCitation } from "@/lib/citations";
+import { activeBranch } from "@/lib/message-tree";
+import type { TimelineStep } from "@/lib/progress-timeline";
+import { normalizeSessionSettings, type SessionSettings } from "@/lib/session-settings";
+import type { ConversationContext } from "@/lib/conversation-history";
+import type { StoredAttachment } from "@/lib/attachments";
+import { LOCAL_USER_ID, isLocalSession, isLocalUser, type ChatStore } from "@/lib/chat-store";
+import { supabaseChatStore } from "@/lib/supabase-chat-store";
+import { localChatStore } from "@/lib/local-chat-store";
+
+/**
+ * Chat history API used by the pages. Each call goes to the store that owns the id:
+ * browser-local sessions (see lib/chat-store) to IndexedDB, everything else to Supabase.
+ */
 
 export interface ChatSession {
   id: string;
   user_id?: string;
   title?: string;
   created_at: string;
+  /** Raw sessions.settings; read it with getSessionSettings */
+  settings?: unknown;
 }
 
 export interface ChatMessage {
@@ -13,259 +28,162 @@ export interface ChatMessage {
   session_id: string;
   role: 'user' | 'assistant';
   content: string;
-  sources?: string[];
+  sources?: SourceCitation[];
+  cancelled?: boolean;
+  /** Agent processing steps behind an assistant answer */
+  progress_steps?: TimelineStep[];
+  /** Files sent with a user message, kept in Storage */
+  attachments?: StoredAttachment[];
+  /** Message this one follows; siblings under the same parent are branches */
+  parent_id: string | null;
   created_at: string;
 }
 
-// Create a new chat session
-export async function createChatSession(userId: string, title: string = 'New Chat'): Promise<string | null> {
-  try {
-    if (!supabase) {
-      logger.error('❌ Supabase client not initialized');
-      return null;
-    }
-    
-    logger.log('🔧 Creating session for user:', userId);
-    
-    const { data, error } = await supabase
-      .from('sessions')
-      .insert({ user_id: userId })
-      .select('id')
-      .single();
+export interface SaveMessageOptions {
+  /** Mark an assistant turn the user stopped before it finished */
+  cancelled?: boolean;
+  /** Previous message on the branch; null starts a conversation (or a new first question) */
+  parentId?: string | null;
+  /** Processing timeline to keep with an assistant answer */
+  progressSteps?: TimelineStep[];
+  /** Stored files sent with a user message */
+  attachments?: StoredAttachment[];
+}
 
-    if (error) {
-      logger.error('❌ Error creating session:', error);
-      return null;
-    }
+function storeForUser(userId: string): ChatStore {
+  return isLocalUser(userId) ? localChatStore : supabaseChatStore;
+}
 
-    logger.log('✅ Session created successfully:', data.id);
-    return data.id;
-  } catch (error) {
-    logger.error('❌ Exception creating session:', error);
-    return null;
-  }
+function storeForSession(sessionId: string): ChatStore {
+  return isLocalSession(sessionId) ? localChatStore : supabaseChatStore;
 }
 
-// Get all sessions for a user
-export async function getUserSessions(userId: string): Promise<ChatSession[]> {
-  try {
-    if (!supabase) {
-      logger.error('❌ Supabase client not initialized');
-      return [];
-    }
-    
-    logger.log('🔍 Fetching sessions for user:', userId);
-    
-    const { data, error } = await supabase
-      .from('sessions')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+// Create a new chat session
+export function createChatSession(userId: string, title: string = 'New Chat'): Promise<string | null> {
+  return storeForUser(userId).createChatSession(userId, title);
+}
 
-    if (error) {
-      logger.error('❌ Error fetching sessions:', error);
-      return [];
-    }
+// Get all sessions for a user
+export function getUserSessions(userId: string): Promise<ChatSession[]> {
+  return storeForUser(userId).getUserSessions(userId);
+}
 
-    logger.log('✅ Found sessions:', data?.length || 0, 'sessions');
-    return data || [];
-  } catch (error) {
-    logger.error('❌ Exception fetching sessions:', error);
-    return [];
-  }
+// Get every message of a session, all branches included, in creation order
+export function getSessionMessages(sessionId: string): Promise<ChatMessage[]> {
+  return storeForSession(sessionId).getSessionMessages(sessionId);
 }
 
-// Get messages for a session
-export async function getSessionMessages(sessionId: string): Promise<ChatMessage[]> {
-  try {
-    if (!supabase) {
-      logger.error('❌ Supabase client not initialized');
-      return [];
-    }
-    
-    logger.log('🔍 getSessionMessages: Fetching messages for session:', sessionId);
-    logger.log('🔍 getSessionMessages: Session ID type:', typeof sessionId);
-    logger.log('🔍 getSessionMessages: Session ID length:', sessionId?.length);
-    
-    // Check if sessionId is a valid UUID format (temporarily disabled for debugging)
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(sessionId)) {
-      logger.warn('⚠️ Session ID format warning:', sessionId, 'but continuing anyway...');
-      // return []; // Temporarily disabled
-    }
-    
-    // First, let's check if the session exists
-    logger.log('🔍 getSessionMessages: Checking if session exists...');
-    const { data: sessionCheck, error: sessionError } = await supabase
-      .from('sessions')
-      .select('id')
-      .eq('id', sessionId)
-      .single();
-    
-    if (sessionError) {
-      logger.error('❌ Session check error:', sessionError);
-    } else {
-      logger.log('✅ Session exists:', sessionCheck);
-    }
-    
-    // Now try to get messages
-    logger.log('🔍 getSessionMessages: Fetching messages...');
-    const { data, error } = await supabase
-      .from('messages')
-      .select('id, session_id, role, content, sources, created_at')
-      .eq('session_id', sessionId)
-      .order('created_at', { ascending: true });
+// Get a single session (title and creation time), or null if it cannot be read
+export function getChatSession(sessionId: string): Promise<ChatSession | null> {
+  return storeForSession(sessionId).getChatSession(sessionId);
+}
 
-    if (error) {
-      logger.error('❌ Error fetching messages:', error);
-      logger.error('❌ Error details:', JSON.stringify(error, null, 2));
-      return [];
-    }
+// User messages store attachment names inline as "(file attached: a.csv, b.png)"
+const ATTACHMENT_NOTE = /\(file attached(?:: (.+?))?\)/;
+
+// Split a stored user message into its text and attachment names
+export function splitAttachmentNote(content: string): { text: string; attachments: string[] } {
+  const match = content.match(ATTACHMENT_NOTE);
+  if (!match) return { text: content, attachments: [] };
+  return {
+    text: content.replace(new RegExp(ATTACHMENT_NOTE.source, 'g'), '').trim(),
+    attachments: match[1] ? match[1].split(', ') : [],
+  };
+}
 
-    logger.log('✅ getSessionMessages: Found messages:', data?.length || 0);
-    logger.log('✅ getSessionMessages: Raw messages data:', data);
-    return data || [];
-  } catch (error) {
-    logger.error('❌ Exception fetching messages:', error);
-    return [];
-  }
+// The branch the user last worked on, for views that show a conversation as a single thread
+export function currentBranch(messages: ChatMessage[]): ChatMessage[] {
+  return activeBranch(messages.map(message => ({ ...message, parentId: message.parent_id })));
 }
 
-// Save a message to the database
-export async function saveMessage(
+// Save a message; resolves to the new message id, or null on failure
+export function saveMessage(
   sessionId: string,
   role: 'user' | 'assistant',
   content: string,
-  sources?: string[]
+  sources?: SourceCitation[],
+  options: SaveMessageOptions = {}
+): Promise<string | null> {
+  return storeForSession(sessionId).saveMessage(sessionId, role, content, sources, options);
+}
+
+// Keep or clear the partial answer of a stopped response after it was saved
+export function updateCancelledMessage(
+  sessionId: string,
+  messageId: string,
+  content: string,
+  sources?: SourceCitation[]
 ): Promise<boolean> {
-  try {
-    if (!supabase) {
-      logger.error('❌ Supabase client not initialized');
-      return false;
-    }
-    
-    logger.log('💾 saveMessage: Saving message with sources:', sources);
-    
-    const messageData: any = {
-      session_id: sessionId,
-      role: role,
-      content: content
-    };
-    
-    // Only add sources if they exist and it's an assistant message
-    if (sources && sources.length > 0 && role === 'assistant') {
-      messageData.sources = sources;
-    }
-    
-    const { error } = await supabase
-      .from('messages')
-      .insert(messageData);
+  return storeForSession(sessionId).updateCancelledMessage(messageId, content, sources);
+}
 
-    if (error) {
-      logger.error('❌ Error saving message:', error);
-      return false;
-    }
+export async function getSessionSettings(sessionId: string): Promise<SessionSettings> {
+  const session = await getChatSession(sessionId);
+  return normalizeSessionSettings(session?.settings);
+}
 
-    logger.log('✅ Message saved successfully with sources');
-    return true;
-  } catch (error) {
-    logger.error('❌ Exception saving message:', error);
-    return false;
-  }
+export function updateSessionSettings(sessionId: string, settings: SessionSettings): Promise<boolean> {
+  return storeForSession(sessionId).updateSessionSettings(sessionId, settings);
 }
 
-// Update session title
-export async function updateSessionTitle(sessionId: string, title: string): Promise<boolean> {
-  try {
-    if (!supabase) {
-      logger.error('❌ Supabase client not initialized');
-      return false;
-    }
-    
-    const { error } = await supabase
-      .from('sessions')
-      .update({ title: title })
-      .eq('id', sessionId);
+// Rolling summary of the older turns, or null when the session has none yet
+export function getConversationContext(sessionId: string): Promise<ConversationContext | null> {
+  return storeForSession(sessionId).getConversationContext(sessionId);
+}
 
-    if (error) {
-      logger.error('Error updating session title:', error);
-      return false;
-    }
+export function saveConversationContext(sessionId: string, context: ConversationContext): Promise<boolean> {
+  return storeForSession(sessionId).saveConversationContext(sessionId, context);
+}
 
-    return true;
-  } catch (error) {
-    logger.error('Error updating session title:', error);
-    return false;
-  }
+// Update session title
+export function updateSessionTitle(sessionId: string, title: string): Promise<boolean> {
+  return storeForSession(sessionId).updateSessionTitle(sessionId, title);
 }
 
 // Delete a session and all its messages
-export async function deleteSession(sessionId: string): Promise<boolean> {
-  try {
-    if (!supabase) {
-      logger.error('❌ Supabase client not initialized');
-      return false;
-    }
-    
-    logger.log('🗑️ deleteSession: Starting deletion for session:', sessionId);
-    
-    // First delete all conversation contexts
-    logger.log('🗑️ deleteSession: Deleting conversation contexts...');
-    const { error: contextsError } = await supabase
-      .from('conversation_contexts')
-      .delete()
-      .eq('session_id', sessionId);
-
-    if (contextsError) {
-      logger.error('❌ Error deleting conversation contexts:', contextsError);
-      // Continue anyway - contexts table might not have entries
-    } else {
-      logger.log('✅ Conversation contexts deleted');
-    }
-    
-    // Delete suggested questions for this session
-    logger.log('🗑️ deleteSession: Deleting suggested questions...');
-    const { error: questionsError } = await supabase
-      .from('suggested_questions')
-      .delete()
-      .eq('session_id', sessionId);
-
-    if (questionsError) {
-      logger.error('❌ Error deleting suggested questions:', questionsError);
-      // Continue anyway - questions table might not have entries
-    } else {
-      logger.log('✅ Suggested questions deleted');
-    }
-    
-    // Then delete all messages
-    logger.log('🗑️ deleteSession: Deleting messages...');
-    const { error: messagesError } = await supabase
-      .from('messages')
-      .delete()
-      .eq('session_id', sessionId);
+export function deleteSession(sessionId: string): Promise<boolean> {
+  return storeForSession(sessionId).deleteSession(sessionId);
+}
 
-    if (messagesError) {
-      logger.error('❌ Error deleting messages:', messagesError);
-      return false;
-    }
-    logger.log('✅ Messages deleted');
+// Add a whole session (e.g. from a JSON export) to the user's history; resolves to the new id
+export function importSession(
+  userId: string,
+  session: ChatSession,
+  messages: ChatMessage[],
+  context: ConversationContext | null = null
+): Promise<string | null> {
+  return storeForUser(userId).importSession(userId, session, messages, context);
+}
 
-    // Finally delete the session
-    logger.log('🗑️ deleteSession: Deleting session...');
-    const { error: sessionError } = await supabase
-      .from('sessions')
-      .delete()
-      .eq('id', sessionId);
+export interface LocalMigrationResult {
+  migrated: number;
+  failed: number;
+}
 
-    if (sessionError) {
-      logger.error('❌ Error deleting session:', sessionError);
-      return false;
+// Move every conversation kept in this browser into the signed-in user's Supabase history.
+// A local session is only deleted once its copy is written, so a failed run can be repeated.
+// Once the copy exists the session counts as migrated, even if its local copy is left behind.
+export async function migrateLocalSessions(userId: string): Promise<LocalMigrationResult> {
+  const sessions = await localChatStore.getUserSessions(LOCAL_USER_ID);
+  const result: LocalMigrationResult = { migrated: 0, failed: 0 };
+
+  // Oldest first, so the sidebar order is kept
+  for (const session of sessions.slice().reverse()) {
+    const [messages, context] = await Promise.all([
+      localChatStore.getSessionMessages(session.id),
+      localChatStore.getConversationContext(session.id),
+    ]);
+    const newId = await supabaseChatStore.importSession(userId, session, messages, context);
+    if (!newId) {
+      result.failed += 1;
+      continue;
+    }
+    result.migrated += 1;
+    if (!(await localChatStore.deleteSession(session.id))) {
+      logger.warn('⚠️ Session migrated but its local copy could not be deleted; delete it to avoid a duplicate:', session.id);
     }
-
-    logger.log('✅ deleteSession: Session deleted successfully');
-    return true;
-  } catch (error) {
-    logger.error('❌ Exception in deleteSession:', error);
-    return false;
   }
+
+  logger.log('📦 Local sessions migrated:', result);
+  return result;
 }
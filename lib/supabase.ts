@@ -1,14 +1,23 @@
 import { createClient } from '@supabase/supabase-js'
 import { logger } from "@/lib/logger";
+import { config } from "@/lib/config";
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
-
-// Create a dummy client if env vars aren't set (for development without Supabase)
-export const supabase = supabaseUrl && supabaseAnonKey 
-  ? createClient(supabaseUrl, supabaseAnonKey)
+// null only in the local profile without Supabase keys; other profiles refuse to start (see lib/config.ts)
+export const supabase = config.supabase
+  ? createClient(config.supabase.url, config.supabase.anonKey)
   : null
 
+if (!supabase) {
+  logger.warn('⚠️ Supabase is not configured: login is disabled and chat history is kept in this browser only')
+}
+
+// Bearer header for /api routes that act on the signed-in user's behalf (see lib/api-auth)
+export const authHeaders = async (): Promise<Record<string, string>> => {
+  if (!supabase) return {}
+  const { data } = await supabase.auth.getSession()
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {}
+}
+
 // GitHub OAuth login
 export const signInWithGitHub = async () => {
   if (!supabase) {
@@ -0,0 +1,298 @@
+/**
+ * Validation for uploaded transaction extracts (CSV/XLSX).
+ * Pure so the upload route and the preview UI share the same types and rules.
+ */
+
+export const TRANSACTION_COLUMNS = [
+  'entity_id',
+  'location_count',
+  'period_end',
+  'sales_volume',
+  'product_group_code',
+] as const;
+
+export type TransactionColumn = typeof TRANSACTION_COLUMNS[number];
+
+export interface TransactionRow {
+  entity_id: string;
+  location_count: number;
+  period_end: string; // YYYY-MM-DD
+  sales_volume: number;
+  product_group_code: string;
+}
+
+export interface RowError {
+  /** Row number in the uploaded file, counting the header as row 1 */
+  row: number;
+  column: TransactionColumn;
+  value: string;
+  message: string;
+}
+
+export interface UploadPreview {
+  filename: string;
+  columns: string[];
+  missingColumns: TransactionColumn[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  errorCount: number;
+  /** The first MAX_REPORTED_ERRORS errors */
+  errors: RowError[];
+  /** The first PREVIEW_ROWS valid rows */
+  preview: TransactionRow[];
+  summary: {
+    entities: number;
+    productGroups: string[];
+    periodStart: string | null;
+    periodEnd: string | null;
+  };
+}
+
+export interface UploadResult {
+  filename: string;
+  ingestedRows: number;
+  skippedRows: number;
+  backend: Record<string, unknown> | null;
+}
+
+export const PREVIEW_ROWS = 20;
+export const MAX_REPORTED_ERRORS = 200;
+export const UPLOAD_EXTENSIONS = ['.csv', '.xlsx'];
+
+export type RawRow = Record<string, unknown>;
+
+export interface ParsedRows {
+  columns: string[];
+  rows: RawRow[];
+  /** 1-based row of each entry of rows in the source file; blank rows are dropped but still counted */
+  rowNumbers: number[];
+}
+
+// Row number to report for rawRows[index]; JSON uploads have no blank rows, so header + index
+export function sourceRowNumber(rowNumbers: number[] | undefined, index: number): number {
+  return rowNumbers && rowNumbers[index] !== undefined ? rowNumbers[index] : index + 2;
+}
+
+// "Entity ID", "entity-id" and " ENTITY_ID " all map to entity_id
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value).trim();
+}
+
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = cellText(value).replace(/,/g, '');
+  if (text === '') return null;
+  const num = Number(text);
+  return Number.isFinite(num) ? num : null;
+}
+
+function pad(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+// Accepts ISO dates, US-style M/D/YYYY and spreadsheet Date cells
+export function toIsoDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? null
+      : `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+  }
+
+  const text = cellText(value);
+  let year: number, month: number, day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function validateRow(raw: RawRow, line: number, errors: RowError[]): TransactionRow | null {
+  const fail = (column: TransactionColumn, message: string) => {
+    errors.push({ row: line, column, value: cellText(raw[column]), message });
+  };
+  const before = errors.length;
+
+  const entityId = cellText(raw.entity_id);
+  if (!entityId) fail('entity_id', 'entity_id is required');
+
+  const locationCount = toNumber(raw.location_count);
+  if (locationCount === null || !Number.isInteger(locationCount) || locationCount < 1) {
+    fail('location_count', 'location_count must be a whole number of at least 1');
+  }
+
+  const periodEnd = toIsoDate(raw.period_end);
+  if (!periodEnd) fail('period_end', 'period_end must be a date (YYYY-MM-DD or M/D/YYYY)');
+
+  // Negative volumes (returns) are accepted here and flagged by the data quality report
+  const salesVolume = toNumber(raw.sales_volume);
+  if (salesVolume === null) fail('sales_volume', 'sales_volume must be a number');
+
+  const productGroup = cellText(raw.product_group_code).toUpperCase();
+  if (!productGroup) fail('product_group_code', 'product_group_code is required');
+
+  if (errors.length > before) return null;
+  return {
+    entity_id: entityId,
+    location_count: locationCount as number,
+    period_end: periodEnd as string,
+    sales_volume: salesVolume as number,
+    product_group_code: productGroup,
+  };
+}
+
+export interface ValidationResult {
+  preview: UploadPreview;
+  rows: TransactionRow[];
+}
+
+/**
+ * Validate parsed rows. Keys of each raw row must already be normalized headers.
+ * rowNumbers (from the parser) map rows back to what analysts see in Excel.
+ */
+export function validateTransactionRows(
+  filename: string,
+  columns: string[],
+  rawRows: RawRow[],
+  rowNumbers?: number[]
+): ValidationResult {
+  const normalizedColumns = columns.map(normalizeHeader);
+  const missingColumns = TRANSACTION_COLUMNS.filter(column => !normalizedColumns.includes(column));
+
+  const errors: RowError[] = [];
+  const rows: TransactionRow[] = [];
+  let invalidRows = 0;
+
+  if (missingColumns.length === 0) {
+    rawRows.forEach((raw, i) => {
+      const row = validateRow(raw, sourceRowNumber(rowNumbers, i), errors);
+      if (row) rows.push(row);
+      else invalidRows++;
+    });
+  } else {
+    invalidRows = rawRows.length;
+  }
+
+  const entities = new Set<string>();
+  const productGroups = new Set<string>();
+  let periodStart: string | null = null;
+  let periodEnd: string | null = null;
+  for (const row of rows) {
+    entities.add(row.entity_id);
+    productGroups.add(row.product_group_code);
+    if (!periodStart || row.period_end < periodStart) periodStart = row.period_end;
+    if (!periodEnd || row.period_end > periodEnd) periodEnd = row.period_end;
+  }
+
+  return {
+    rows,
+    preview: {
+      filename,
+      columns,
+      missingColumns,
+      totalRows: rawRows.length,
+      validRows: rows.length,
+      invalidRows,
+      errorCount: errors.length,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+      preview: rows.slice(0, PREVIEW_ROWS),
+      summary: {
+        entities: entities.size,
+        productGroups: Array.from(productGroups).sort(),
+        periodStart,
+        periodEnd,
+      },
+    },
+  };
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes, CRLF and embedded newlines.
+ * Returns the header row and one object per data row keyed by normalized header.
+ * Row numbers count records, so a quoted newline stays in one row as it does in Excel.
+ */
+export function parseCsv(text: string): ParsedRows {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by Excel exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty: Array<{ values: string[]; rowNumber: number }> = [];
+  records.forEach((values, i) => {
+    if (values.some(cell => cell.trim() !== '')) nonEmpty.push({ values, rowNumber: i + 1 });
+  });
+  const [header, ...data] = nonEmpty;
+  const columns = header ? header.values.map(h => h.trim()) : [];
+  const keys = columns.map(normalizeHeader);
+
+  return {
+    columns,
+    rowNumbers: data.map(entry => entry.rowNumber),
+    rows: data.map(({ values }) => {
+      const row: RawRow = {};
+      keys.forEach((key, i) => {
+        row[key] = values[i] ?? '';
+      });
+      return row;
+    }),
+  };
+}
+
+export function isSupportedUpload(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return UPLOAD_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { getBackendStatus, subscribeBackendStatus, type BackendStatus } from '@/lib/backend-client';
+
+/**
+ * Current backend availability as tracked by the shared backend client
+ */
+export function useBackendStatus(): BackendStatus {
+  const [status, setStatus] = useState<BackendStatus>(getBackendStatus());
+
+  useEffect(() => {
+    setStatus(getBackendStatus());
+    return subscribeBackendStatus(setStatus);
+  }, []);
+
+  return status;
+}
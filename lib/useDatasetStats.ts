@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import { logger } from "@/lib/logger";
+import { fetchDatasetStats, type DatasetStats } from "@/lib/dataset-stats";
+
+/**
+ * Knowledge-base statistics from GET /api/data?action=stats
+ */
+export function useDatasetStats() {
+  const [stats, setStats] = useState<DatasetStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchDatasetStats();
+      setStats(data);
+      logger.log(`📊 [DatasetStats] ${data.rows ?? '?'} rows from ${data.source}`);
+    } catch (err: any) {
+      logger.error('❌ [DatasetStats] Failed to load stats:', err);
+      setError(err.message || 'Failed to load dataset statistics');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { stats, loading, error, refetch: load };
+}
@@ -1,10 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { logger } from "@/lib/logger";
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+import { getEntities, getOverviewByEntity } from "@/lib/backend-api";
 
 interface UseEntityFetcherOptions {
-  /** Enable retry on failure */
+  /** Enable retry with backoff on failure */
   retry?: boolean;
   /** Enable fallback to by-entity endpoint */
   fallback?: boolean;
@@ -24,72 +23,37 @@ export function useEntityFetcher(options: UseEntityFetcherOptions = {}) {
   const [error, setError] = useState<string | null>(null);
 
   const fetchEntities = useCallback(async () => {
-    const url = `${API_BASE_URL}${endpoint}`;
-    logger.log('🔄 [EntityFetcher] Fetching entities from:', url);
+    logger.log('🔄 [EntityFetcher] Fetching entities from:', endpoint);
     setLoading(true);
     setError(null);
 
-    const doFetch = async (attempt: number): Promise<string[] | null> => {
+    const doFetch = async (): Promise<string[] | null> => {
       try {
-        const response = await fetch(url, {
-          method: 'GET',
+        // The shared client retries transient failures with backoff
+        const entityList = await getEntities({
           headers: { 'Content-Type': 'application/json' },
           cache: 'no-store', // Prevent caching issues
-        });
-
-        logger.log(`📡 [EntityFetcher] Attempt ${attempt}:`, response.status, response.statusText);
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => 'Unknown error');
-          logger.error(`❌ [EntityFetcher] Non-OK response (${response.status}):`, errorText.slice(0, 200));
-          return null;
-        }
-
-        const data = await response.json().catch((e) => {
-          logger.error(`❌ [EntityFetcher] JSON parse failed:`, e);
-          return null;
-        });
-
-        if (!data) {
-          logger.error(`❌ [EntityFetcher] No data in response`);
-          return null;
-        }
-
-        const entityList = Array.isArray(data?.entities) ? data.entities : [];
-        logger.log(`✅ [EntityFetcher] Attempt ${attempt}: Got ${entityList.length} entities`);
+          retries: retry ? undefined : 0,
+        }, endpoint);
+        logger.log(`✅ [EntityFetcher] Got ${entityList.length} entities`);
         return entityList;
       } catch (error) {
-        logger.error(`❌ [EntityFetcher] Exception on attempt ${attempt}:`, error);
+        logger.error(`❌ [EntityFetcher] Exception:`, error);
         return null;
       }
     };
 
-    // First attempt
-    let result = await doFetch(1);
-    
-    // Retry if enabled and first attempt failed
-    if (!result || result.length === 0) {
-      if (retry) {
-        logger.log('⏳ [EntityFetcher] First attempt failed, retrying in 500ms...');
-        await new Promise(resolve => setTimeout(resolve, 500));
-        result = await doFetch(2);
-      }
-    }
+    let result = await doFetch();
 
     // Fallback to by-entity endpoint if enabled and still no result
     if ((!result || result.length === 0) && fallback) {
       try {
-        const fallbackUrl = `${API_BASE_URL}/v1/report/overview/by-entity?period_months=0&limit=0`;
-        logger.warn('🛟 [EntityFetcher] Using fallback endpoint:', fallbackUrl);
-        
-        const resp = await fetch(fallbackUrl, { cache: 'no-store' });
-        if (resp.ok) {
-          const json = await resp.json().catch(() => []);
-          if (Array.isArray(json) && json.length > 0) {
-            const derived = json.map((r: any) => r.entity_id).filter(Boolean);
-            logger.log(`🛟 [EntityFetcher] Fallback: Derived ${derived.length} entities from by-entity endpoint`);
-            result = derived;
-          }
+        logger.warn('🛟 [EntityFetcher] Using by-entity fallback');
+        const rows = await getOverviewByEntity({ periodMonths: 0, limit: 0 }, { cache: 'no-store' });
+        if (rows.length > 0) {
+          const derived = rows.map(r => r.entity_id).filter(Boolean);
+          logger.log(`🛟 [EntityFetcher] Fallback: Derived ${derived.length} entities from by-entity endpoint`);
+          result = derived;
         }
       } catch (e) {
         logger.error('🛟 [EntityFetcher] Fallback exception:', e);
@@ -0,0 +1,3 @@
+-- Assistant turns the user stopped from the chat composer
+alter table public.messages
+  add column if not exists cancelled boolean not null default false;
@@ -0,0 +1,5 @@
+-- Store full source citations ({ chunk_id, document, snippet, relevance_score })
+-- instead of bare strings. Existing text[] values become JSON string arrays,
+-- which the client still normalizes on read.
+alter table public.messages
+  alter column sources type jsonb using to_jsonb(sources);
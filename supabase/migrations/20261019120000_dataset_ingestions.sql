@@ -0,0 +1,29 @@
+-- One row per transaction extract uploaded from /reports/upload
+create table if not exists public.dataset_ingestions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  filename text not null,
+  row_count integer not null,
+  skipped_rows integer not null default 0,
+  entity_count integer not null,
+  product_groups text[] not null default '{}',
+  period_start date,
+  period_end date,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists dataset_ingestions_created_at_idx
+  on public.dataset_ingestions (created_at desc);
+
+alter table public.dataset_ingestions enable row level security;
+
+-- The dataset is shared, so every signed-in user can see when it was last loaded
+create policy "Authenticated users can read ingestions"
+  on public.dataset_ingestions for select
+  to authenticated
+  using (true);
+
+create policy "Users can record their own ingestions"
+  on public.dataset_ingestions for insert
+  to authenticated
+  with check (auth.uid() = user_id);
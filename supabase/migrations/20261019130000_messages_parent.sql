@@ -0,0 +1,18 @@
+-- Conversations become trees: edited questions and regenerated answers are stored
+-- as siblings under the same parent instead of replacing the original message.
+alter table public.messages
+  add column if not exists parent_id uuid references public.messages(id) on delete cascade;
+
+-- Existing conversations are linear, so each message follows the one before it
+update public.messages as m
+set parent_id = ordered.previous_id
+from (
+  select id, lag(id) over (partition by session_id order by created_at, id) as previous_id
+  from public.messages
+) as ordered
+where m.id = ordered.id
+  and m.parent_id is null
+  and ordered.previous_id is not null;
+
+create index if not exists messages_parent_id_idx
+  on public.messages (parent_id);
@@ -0,0 +1,60 @@
+-- Full-text search over message content for the chat search palette
+alter table public.messages
+  add column if not exists content_tsv tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists messages_content_tsv_idx
+  on public.messages using gin (content_tsv);
+
+-- Ranked matches across the caller's own sessions. Snippets wrap matched terms in
+-- <mark>…</mark>; the client splits on those markers and never renders them as HTML.
+create or replace function public.search_messages(
+  search_query text,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  message_role text default null,
+  result_limit integer default 30
+)
+returns table (
+  message_id uuid,
+  session_id uuid,
+  session_title text,
+  role text,
+  created_at timestamptz,
+  snippet text,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with query as (
+    select websearch_to_tsquery('english', search_query) as q
+  )
+  select
+    m.id,
+    m.session_id,
+    s.title,
+    m.role::text,
+    m.created_at,
+    ts_headline(
+      'english',
+      m.content,
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    ts_rank(m.content_tsv, query.q)
+  from public.messages m
+  join public.sessions s on s.id = m.session_id
+  cross join query
+  where s.user_id = auth.uid()
+    and m.content_tsv @@ query.q
+    and (from_date is null or m.created_at >= from_date)
+    and (to_date is null or m.created_at < to_date)
+    and (message_role is null or m.role::text = message_role)
+  order by ts_rank(m.content_tsv, query.q) desc, m.created_at desc
+  limit least(greatest(result_limit, 1), 100);
+$$;
+
+grant execute on function public.search_messages(text, timestamptz, timestamptz, text, integer) to authenticated;
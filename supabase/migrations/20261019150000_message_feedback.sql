@@ -0,0 +1,142 @@
+-- Thumbs up/down on assistant answers, one rating per user and message
+create table if not exists public.message_feedback (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  rating text not null check (rating in ('up', 'down')),
+  reasons text[] not null default '{}',
+  comment text,
+  review_status text not null default 'open' check (review_status in ('open', 'resolved')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (message_id, user_id)
+);
+
+create index if not exists message_feedback_rating_idx
+  on public.message_feedback (rating, review_status, updated_at desc);
+
+alter table public.message_feedback enable row level security;
+
+create policy "Users can read their own feedback"
+  on public.message_feedback for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can rate their own messages"
+  on public.message_feedback for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.messages m
+      join public.sessions s on s.id = m.session_id
+      where m.id = message_id and s.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update their own feedback"
+  on public.message_feedback for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own feedback"
+  on public.message_feedback for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Analysts carry "role": "analyst" in their app_metadata (set with the admin API)
+create or replace function public.is_feedback_analyst()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'analyst';
+$$;
+
+-- Review status belongs to analysts (set_feedback_review_status): anyone else's insert or
+-- update puts the item back in the queue. Feedback also stays on its message and user.
+create or replace function public.guard_message_feedback()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and (new.message_id <> old.message_id or new.user_id <> old.user_id) then
+    raise exception 'Feedback cannot be moved to another message or user' using errcode = '42501';
+  end if;
+  if not public.is_feedback_analyst() then
+    new.review_status := 'open';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists message_feedback_guard on public.message_feedback;
+create trigger message_feedback_guard
+  before insert or update on public.message_feedback
+  for each row execute function public.guard_message_feedback();
+
+-- Poorly rated answers with the question they replied to. Analysts see every user's
+-- feedback; anyone else sees only their own.
+create or replace function public.review_message_feedback(
+  status_filter text default 'open',
+  result_limit integer default 50
+)
+returns table (
+  feedback_id uuid,
+  message_id uuid,
+  session_id uuid,
+  user_id uuid,
+  reasons text[],
+  comment text,
+  review_status text,
+  updated_at timestamptz,
+  question text,
+  answer text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    f.id,
+    f.message_id,
+    a.session_id,
+    f.user_id,
+    f.reasons,
+    f.comment,
+    f.review_status,
+    f.updated_at,
+    q.content,
+    a.content
+  from public.message_feedback f
+  join public.messages a on a.id = f.message_id
+  left join public.messages q on q.id = a.parent_id
+  where f.rating = 'down'
+    and (public.is_feedback_analyst() or f.user_id = auth.uid())
+    and (status_filter is null or f.review_status = status_filter)
+  order by f.updated_at desc
+  limit least(greatest(result_limit, 1), 200);
+$$;
+
+create or replace function public.set_feedback_review_status(feedback_id uuid, new_status text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_feedback_analyst() then
+    raise exception 'Only analysts can triage feedback' using errcode = '42501';
+  end if;
+  if new_status not in ('open', 'resolved') then
+    raise exception 'Unknown review status %', new_status using errcode = '22023';
+  end if;
+  update public.message_feedback set review_status = new_status where id = feedback_id;
+end;
+$$;
+
+grant execute on function public.is_feedback_analyst() to authenticated;
+grant execute on function public.review_message_feedback(text, integer) to authenticated;
+grant execute on function public.set_feedback_review_status(uuid, text) to authenticated;
@@ -0,0 +1,88 @@
+-- Read-only share links: anyone holding the token can view the conversation until it is revoked
+create table if not exists public.session_shares (
+  id uuid primary key default gen_random_uuid(),
+  -- 244 random bits from two v4 UUIDs; unguessable without pgcrypto
+  token text not null unique
+    default replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists session_shares_user_idx
+  on public.session_shares (user_id, created_at desc);
+
+alter table public.session_shares enable row level security;
+
+create policy "Users can read their own share links"
+  on public.session_shares for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can share their own sessions"
+  on public.session_shares for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.sessions s where s.id = session_id and s.user_id = auth.uid())
+  );
+
+-- No update policy: a row's session and token never change, and revoking goes through
+-- revoke_share_link, which can only set revoked_at on the caller's own links
+create or replace function public.revoke_share_link(share_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.session_shares
+  set revoked_at = now()
+  where id = share_id
+    and user_id = auth.uid()
+    and revoked_at is null;
+  return found;
+end;
+$$;
+
+grant execute on function public.revoke_share_link(uuid) to authenticated;
+
+-- Every message of a shared session, readable without an account. Returns no rows for
+-- unknown or revoked tokens; the tables themselves stay closed to anon.
+create or replace function public.get_shared_conversation(share_token text)
+returns table (
+  session_title text,
+  shared_at timestamptz,
+  message_id uuid,
+  parent_id uuid,
+  role text,
+  content text,
+  sources jsonb,
+  cancelled boolean,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    s.title,
+    sh.created_at,
+    m.id,
+    m.parent_id,
+    m.role::text,
+    m.content,
+    m.sources,
+    coalesce(m.cancelled, false),
+    m.created_at
+  from public.session_shares sh
+  join public.sessions s on s.id = sh.session_id
+  join public.messages m on m.session_id = s.id
+  where sh.token = share_token
+    and sh.revoked_at is null
+  order by m.created_at, m.id;
+$$;
+
+grant execute on function public.get_shared_conversation(text) to anon, authenticated;
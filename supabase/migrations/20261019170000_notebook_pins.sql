@@ -0,0 +1,46 @@
+-- Insights notebook: assistant answers a user pinned, with an optional note and tags
+create table if not exists public.notebook_pins (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  message_id uuid not null references public.messages(id) on delete cascade,
+  note text,
+  tags text[] not null default '{}',
+  -- Manual order on the notebook page, lowest first
+  position double precision not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, message_id)
+);
+
+create index if not exists notebook_pins_user_position_idx
+  on public.notebook_pins (user_id, position);
+
+alter table public.notebook_pins enable row level security;
+
+create policy "Users can read their own pins"
+  on public.notebook_pins for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can pin their own messages"
+  on public.notebook_pins for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.messages m
+      join public.sessions s on s.id = m.session_id
+      where m.id = message_id and s.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update their own pins"
+  on public.notebook_pins for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own pins"
+  on public.notebook_pins for delete
+  to authenticated
+  using (auth.uid() = user_id);
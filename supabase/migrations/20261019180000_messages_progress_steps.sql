@@ -0,0 +1,3 @@
+-- Processing timeline of an assistant answer: [{ step, message, stage, status, started_at, duration_ms }]
+alter table public.messages
+  add column if not exists progress_steps jsonb;
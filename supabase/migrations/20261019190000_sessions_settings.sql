@@ -0,0 +1,4 @@
+-- Per-session retrieval and answer settings ({ k, product_groups, date_from, date_to, answer_style }),
+-- forwarded to /v1/ask with every question in the session
+alter table public.sessions
+  add column if not exists settings jsonb not null default '{}'::jsonb;
@@ -0,0 +1,34 @@
+-- Rolling summary of the turns that no longer go verbatim to /v1/ask, one row per session.
+-- The table predates the migrations folder, so create it if missing and add the columns we write.
+create table if not exists public.conversation_contexts (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.sessions(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.conversation_contexts
+  add column if not exists summary text not null default '',
+  -- Messages from the start of the branch covered by the summary
+  add column if not exists summarized_count integer not null default 0,
+  -- Last folded message; a mismatch means the user switched branch or edited history
+  add column if not exists summarized_through uuid references public.messages(id) on delete set null,
+  add column if not exists token_estimate integer not null default 0,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Nothing wrote to the table before, but keep only the newest row per session just in case
+delete from public.conversation_contexts a
+  using public.conversation_contexts b
+  where a.session_id = b.session_id and a.ctid < b.ctid;
+
+create unique index if not exists conversation_contexts_session_idx
+  on public.conversation_contexts (session_id);
+
+alter table public.conversation_contexts enable row level security;
+
+drop policy if exists "Users can manage contexts of their sessions" on public.conversation_contexts;
+
+create policy "Users can manage contexts of their sessions"
+  on public.conversation_contexts for all
+  to authenticated
+  using (exists (select 1 from public.sessions s where s.id = session_id and s.user_id = auth.uid()))
+  with check (exists (select 1 from public.sessions s where s.id = session_id and s.user_id = auth.uid()));
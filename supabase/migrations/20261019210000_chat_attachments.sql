@@ -0,0 +1,42 @@
+-- Files sent with chat messages. Objects live in the private chat-attachments bucket under
+-- <session_id>/<uuid>-<file name>; messages.attachments keeps [{ name, type, size, path }].
+alter table public.messages
+  add column if not exists attachments jsonb;
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('chat-attachments', 'chat-attachments', false, 10485760)
+on conflict (id) do nothing;
+
+-- The first folder of the path is the session; only its owner can read or write
+create policy "Users can read attachments of their sessions"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.sessions s
+      where s.id::text = (storage.foldername(name))[1] and s.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can upload attachments to their sessions"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.sessions s
+      where s.id::text = (storage.foldername(name))[1] and s.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete attachments of their sessions"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.sessions s
+      where s.id::text = (storage.foldername(name))[1] and s.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,27 @@
+-- Keep or discard the partial answer of a stopped response after it was saved.
+-- messages has no update policy; this only rewrites cancelled answers in the caller's sessions.
+create or replace function public.update_cancelled_message(
+  target_id uuid,
+  new_content text,
+  new_sources jsonb default null
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.messages m
+  set content = new_content,
+      sources = new_sources
+  where m.id = target_id
+    and m.cancelled
+    and exists (
+      select 1 from public.sessions s
+      where s.id = m.session_id and s.user_id = auth.uid()
+    );
+  return found;
+end;
+$$;
+
+grant execute on function public.update_cancelled_message(uuid, text, jsonb) to authenticated;